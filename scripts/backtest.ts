@@ -0,0 +1,111 @@
+import './node-globals';
+import { readFile, writeFile } from 'node:fs/promises';
+import type { Match } from '@/lib/supabase';
+import { evaluateBacktestCalibration, loadSupabaseMatches, runBacktest } from '@/services/backtest';
+import { saveCalibrationModel } from '@/services/calibration';
+import type { CalibrationMethod, PerformanceMetrics } from '@/types/prediction';
+
+/**
+ * Walk-forward backtest parancssorból
+ *
+ *   npm run backtest -- --fixture matches.json [--league "Premier League"] [--from 2024-01-01] [--to 2024-06-01]
+ *   npm run backtest -- --supabase [--out result.json]
+ *   npm run backtest -- --fixture matches.json --calibrate isotonic|temperature [--save-calibration]
+ *
+ * A fixture fájl a `matches` tábla sorainak JSON tömbje.
+ */
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+};
+
+const stringArg = (value: string | boolean | undefined) =>
+  typeof value === 'string' ? value : undefined;
+
+const formatRow = (name: string, m: PerformanceMetrics) =>
+  [
+    name.padEnd(10),
+    String(m.matches_evaluated).padStart(6),
+    m.accuracy.toFixed(3).padStart(8),
+    m.brier_score.toFixed(4).padStart(8),
+    m.log_loss.toFixed(4).padStart(8),
+    (m.ranked_probability_score ?? 0).toFixed(4).padStart(8),
+    m.calibration_error.toFixed(4).padStart(8)
+  ].join(' ');
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  const fixture = stringArg(args.fixture);
+  const league = stringArg(args.league);
+
+  if (!fixture && !args.supabase) {
+    console.error('Használat: backtest --fixture <matches.json> | --supabase [--league <név>] [--from <dátum>] [--to <dátum>] [--out <fájl>]');
+    process.exit(1);
+  }
+
+  const matches: Match[] = fixture
+    ? JSON.parse(await readFile(fixture, 'utf8'))
+    : await loadSupabaseMatches(league);
+
+  console.log(`${matches.length} mérkőzés betöltve`);
+
+  const result = await runBacktest(matches, {
+    league,
+    start_date: stringArg(args.from),
+    end_date: stringArg(args.to),
+    ...(args.max && { max_matches: Number(args.max) }),
+    ...(args['min-history'] && { min_history: Number(args['min-history']) }),
+    ...(args['refit-days'] && { refit_interval_days: Number(args['refit-days']) }),
+    on_progress: (completed, total) => {
+      if (completed % 50 === 0 || completed === total) {
+        process.stdout.write(`\r${completed}/${total}`);
+      }
+    }
+  });
+
+  process.stdout.write('\n');
+  console.log(`Kihagyva (kevés előzmény): ${result.skipped}, hibás: ${result.failed}\n`);
+  console.log(['modell'.padEnd(10), 'meccs'.padStart(6), 'pontos.'.padStart(8), 'brier'.padStart(8),
+    'logloss'.padStart(8), 'rps'.padStart(8), 'ece'.padStart(8)].join(' '));
+  console.log(formatRow('ensemble', result.ensemble));
+  Object.entries(result.models).forEach(([name, metrics]) => console.log(formatRow(name, metrics)));
+
+  const calibrationMethod = stringArg(args.calibrate) as CalibrationMethod | undefined;
+  const calibration = calibrationMethod
+    ? evaluateBacktestCalibration(result.predictions, calibrationMethod)
+    : null;
+
+  if (calibration) {
+    console.log(`\nKalibráció (${calibrationMethod}), későbbi fél mintán:`);
+    console.log(formatRow('nyers', calibration.holdout_before));
+    console.log(formatRow('kalibrált', calibration.holdout_after));
+
+    if (args['save-calibration']) {
+      await saveCalibrationModel(calibration.model);
+      console.log('Kalibrációs modell mentve (team_models)');
+    }
+  }
+
+  const out = stringArg(args.out);
+  if (out) {
+    await writeFile(out, JSON.stringify({ ...result, calibration }, null, 2));
+    console.log(`\nEredmény mentve: ${out}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
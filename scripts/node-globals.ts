@@ -0,0 +1,27 @@
+/**
+ * Böngésző globálisok pótlása Node futtatáshoz
+ *
+ * A Supabase kliens importáláskor a localStorage-t adja át session tárolónak,
+ * ezért ennek minden más import előtt be kell töltődnie.
+ */
+
+if (typeof globalThis.localStorage === 'undefined') {
+  const store = new Map<string, string>();
+
+  globalThis.localStorage = {
+    get length() {
+      return store.size;
+    },
+    clear: () => store.clear(),
+    getItem: (key: string) => store.get(key) ?? null,
+    key: (index: number) => [...store.keys()][index] ?? null,
+    removeItem: (key: string) => {
+      store.delete(key);
+    },
+    setItem: (key: string, value: string) => {
+      store.set(key, String(value));
+    }
+  };
+}
+
+export {};
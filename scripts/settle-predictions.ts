@@ -0,0 +1,60 @@
+import './node-globals';
+import { settlePredictions } from '@/services/prediction-settlement';
+import { refreshModelPerformance } from '@/services/model-performance';
+import { predictionEngine } from '@/services/prediction-engine';
+import { retrainOutcomeModel, loadOutcomeModel, isOutcomeModelStale } from '@/services/xgboost-trainer';
+
+/**
+ * Lezárt mérkőzésekre tett predikciók elszámolása parancssorból.
+ * Új eredmények után az ensemble súlyokat újratanulja, a boosting modellt pedig
+ * újratanítja a friss mérkőzéseken (hiányzó vagy elavult tárolt modellnél mindig;
+ * a böngésző nem tanít, csak a tárolt modellt tölti be).
+ *
+ *   npm run settle -- [--limit 500] [--lookback 90] [--reevaluate] [--retrain]
+ */
+
+const argValue = (name: string) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const main = async () => {
+  const limit = argValue('limit');
+  const lookback = argValue('lookback');
+
+  const result = await settlePredictions({
+    ...(limit && { limit: Number(limit) }),
+    ...(lookback && { lookback_days: Number(lookback) }),
+    reevaluate: process.argv.includes('--reevaluate')
+  });
+
+  console.log(
+    `Ellenőrizve: ${result.checked}, elszámolva: ${result.settled}, ` +
+    `párosítatlan: ${result.unmatched}, hibás: ${result.failed}`
+  );
+
+  if (result.settled > 0) {
+    const models = await refreshModelPerformance();
+    console.log(`model_performance frissítve: ${models} modell`);
+
+    const weights = await predictionEngine.refreshEnsembleWeights();
+    console.log(
+      `Ensemble súlyok frissítve: ${weights.samples_used} minta, ` +
+      `pontszám: ${weights.score_before.toFixed(4)} → ${weights.score_after.toFixed(4)}`
+    );
+  }
+
+  const stored = await loadOutcomeModel();
+  if (result.settled > 0 || !stored || isOutcomeModelStale(stored) || process.argv.includes('--retrain')) {
+    const { model, accuracy } = await retrainOutcomeModel();
+    console.log(
+      `XGBoost modell újratanítva: ${model.training_samples} minta, ` +
+      `validációs pontosság: ${accuracy === null ? '-' : accuracy.toFixed(3)}`
+    );
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
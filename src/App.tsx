@@ -3,25 +3,42 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { useEffect } from "react";
+import { featureStore } from "@/services/feature-store";
 import Index from "./pages/Index";
+import Fixtures from "./pages/Fixtures";
+import ModelPerformance from "./pages/ModelPerformance";
+import TeamProfile from "./pages/TeamProfile";
+import HeadToHead from "./pages/HeadToHead";
+import LeagueStandings from "./pages/LeagueStandings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+const App = () => {
+  // A feature-tár a matches tábla változásaira érvényteleníti a cache-t
+  useEffect(() => featureStore.subscribeToMatchChanges(), []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/fixtures" element={<Fixtures />} />
+            <Route path="/models" element={<ModelPerformance />} />
+            <Route path="/team/:name" element={<TeamProfile />} />
+            <Route path="/h2h/:teamA/:teamB" element={<HeadToHead />} />
+            <Route path="/league/:id?" element={<LeagueStandings />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
@@ -0,0 +1,115 @@
+import { Target, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useCalibration } from "@/hooks/use-calibration";
+import LoadingSpinner from "./LoadingSpinner";
+import EmptyState from "./EmptyState";
+import ReliabilityDiagram, { type ReliabilitySeries } from "./ReliabilityDiagram";
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Kalibrációs widget: reliability diagram kalibrálás előtt és után, újraillesztés
+ */
+const CalibrationChart = () => {
+  const { report, loading, refitting, error, refetch, refit } = useCalibration();
+
+  if (loading) {
+    return (
+      <Card className="glass-card border-white/10">
+        <CardContent className="p-8 flex items-center justify-center">
+          <LoadingSpinner />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !report || report.samples === 0) {
+    return (
+      <Card className="glass-card border-white/10">
+        <CardContent className="p-8">
+          <EmptyState
+            title="Nincs kiértékelt predikció"
+            description={error ?? "A kalibrációs diagramhoz lezárt mérkőzésekre készült predikciók szükségesek."}
+            action={{ label: "Újratöltés", onClick: refetch }}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const series: ReliabilitySeries[] = [
+    { label: 'Nyers ensemble', bins: report.raw_bins, color: 'hsl(38, 92%, 50%)' },
+    ...(report.calibrated_bins
+      ? [{ label: 'Kalibrált', bins: report.calibrated_bins, color: 'hsl(262, 83%, 58%)' }]
+      : [])
+  ];
+
+  const metrics = [
+    { label: 'Kalibrációs hiba (ECE)', raw: report.raw_metrics.calibration_error, calibrated: report.calibrated_metrics?.calibration_error, percent: true },
+    { label: 'Brier pontszám', raw: report.raw_metrics.brier_score, calibrated: report.calibrated_metrics?.brier_score },
+    { label: 'Log-loss', raw: report.raw_metrics.log_loss, calibrated: report.calibrated_metrics?.log_loss }
+  ];
+
+  return (
+    <Card className="glass-card border-white/10">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-lg font-semibold tracking-tight flex items-center gap-2">
+          <Target className="size-5 text-white/70" />
+          Valószínűség-kalibráció
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="winmix-btn-glass"
+            disabled={refitting}
+            onClick={() => refit('isotonic')}
+          >
+            <RefreshCw className={`size-4 mr-2 ${refitting ? 'animate-spin' : ''}`} />
+            Isotonic
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="winmix-btn-glass"
+            disabled={refitting}
+            onClick={() => refit('temperature')}
+          >
+            Temperature
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="relative h-72 lg:col-span-2">
+          <ReliabilityDiagram series={series} />
+        </div>
+        <div className="space-y-3 text-sm">
+          <p className="text-white/60">
+            {report.samples} kiértékelt predikció
+            {report.model && ` · aktív modell: ${report.model.method} (${report.model.samples_used} mintán)`}
+            {report.holdout_samples !== null &&
+              ` · összevetés a legutóbbi ${report.holdout_samples} predikción, a korábbiakra illesztett kalibrációval`}
+          </p>
+          {metrics.map(metric => (
+            <div key={metric.label} className="p-3 rounded-lg glass-card">
+              <div className="text-white/60">{metric.label}</div>
+              <div className="flex items-baseline gap-3 mt-1">
+                <span className="text-lg font-semibold">
+                  {metric.percent ? formatPercent(metric.raw) : metric.raw.toFixed(4)}
+                </span>
+                {metric.calibrated !== undefined && (
+                  <span className="text-primary">
+                    → {metric.percent ? formatPercent(metric.calibrated) : metric.calibrated.toFixed(4)}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalibrationChart;
@@ -0,0 +1,36 @@
+import { Button } from "@/components/ui/button";
+
+interface ChartPanelProps {
+  fullscreen: boolean;
+  onCloseFullscreen: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Grafikon keret, teljes képernyős nézettel
+ */
+const ChartPanel = ({ fullscreen, onCloseFullscreen, children }: ChartPanelProps) => (
+  <div
+    className={`bg-white/5 rounded-xl p-4 border border-white/10 ${
+      fullscreen ? 'fixed inset-4 z-50 flex flex-col' : 'h-80'
+    }`}
+  >
+    {fullscreen && (
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Grafikon - Teljes képernyő</h3>
+        <Button
+          variant="ghost"
+          onClick={onCloseFullscreen}
+          className="text-white/70 hover:text-white"
+        >
+          ✕ Bezárás
+        </Button>
+      </div>
+    )}
+    <div className={fullscreen ? 'flex-1' : 'h-full'}>
+      {children}
+    </div>
+  </div>
+);
+
+export default ChartPanel;
@@ -10,6 +10,8 @@ const WIDGET_LABELS = {
   probability: 'Valószínűségek',
   charts: 'Grafikonok',
   results: 'Eredmények táblázat',
+  calibration: 'Valószínűség-kalibráció',
+  staking: 'Bankroll szimuláció',
 };
 
 const DashboardCustomizer = () => {
@@ -21,6 +21,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useAdvancedAnalytics } from "@/hooks/use-advanced-analytics";
 import LoadingSpinner from "./LoadingSpinner";
+import ChartPanel from "./ChartPanel";
+import { CHART_COLORS, darkChartOptions } from "@/lib/chart-theme";
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -97,16 +99,7 @@ const EnhancedChartSection = ({ filters }: { filters?: import('@/lib/supabase').
       {
         label: 'Gyakoriság (%)',
         data: analytics.mostCommonResults.slice(0, 8).map(r => r.percentage),
-        backgroundColor: [
-          'hsl(262, 83%, 58%)',
-          'hsl(158, 64%, 52%)',
-          'hsl(43, 96%, 56%)',
-          'hsl(213, 94%, 68%)',
-          'hsl(316, 73%, 52%)',
-          'hsl(198, 93%, 60%)',
-          'hsl(24, 95%, 53%)',
-          'hsl(295, 72%, 61%)',
-        ],
+        backgroundColor: CHART_COLORS,
         borderWidth: 0,
         borderRadius: 8,
       }
@@ -236,54 +229,7 @@ const EnhancedChartSection = ({ filters }: { filters?: import('@/lib/supabase').
     ]
   };
 
-  const chartOptions = {
-    responsive: true,
-    maintainAspectRatio: false,
-    plugins: {
-      legend: {
-        display: true,
-        position: 'top' as const,
-        labels: {
-          color: 'rgba(255,255,255,0.8)',
-          usePointStyle: true,
-          padding: 20,
-        }
-      },
-      tooltip: {
-        backgroundColor: 'rgba(17,17,22,0.95)',
-        borderColor: 'rgba(255,255,255,0.1)',
-        borderWidth: 1,
-        titleColor: '#fff',
-        bodyColor: '#fff',
-        cornerRadius: 8,
-      }
-    },
-    scales: chartType !== 'goals' ? {
-      x: {
-        ticks: { 
-          color: 'rgba(255,255,255,0.6)',
-          maxTicksLimit: 8 
-        },
-        grid: { 
-          color: 'rgba(255,255,255,0.08)',
-          drawBorder: false
-        }
-      },
-      y: {
-        type: 'linear' as const,
-        display: true,
-        position: 'left' as const,
-        ticks: { 
-          color: 'rgba(255,255,255,0.6)',
-          maxTicksLimit: 6 
-        },
-        grid: { 
-          color: 'rgba(255,255,255,0.08)',
-          drawBorder: false
-        }
-      }
-    } : undefined
-  };
+  const chartOptions = darkChartOptions(chartType !== 'goals');
 
   const handleExport = () => {
     toast({
@@ -539,27 +485,9 @@ const EnhancedChartSection = ({ filters }: { filters?: import('@/lib/supabase').
 
             {/* Chart Area */}
             <div className="lg:col-span-3">
-              <div 
-                className={`bg-white/5 rounded-xl p-4 border border-white/10 ${
-                  isFullscreen ? 'fixed inset-4 z-50 flex flex-col' : 'h-80'
-                }`}
-              >
-                {isFullscreen && (
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold">Grafikon - Teljes képernyő</h3>
-                    <Button
-                      variant="ghost"
-                      onClick={handleFullscreen}
-                      className="text-white/70 hover:text-white"
-                    >
-                      ✕ Bezárás
-                    </Button>
-                  </div>
-                )}
-                <div className={isFullscreen ? 'flex-1' : 'h-full'}>
-                  {renderChart()}
-                </div>
-              </div>
+              <ChartPanel fullscreen={isFullscreen} onCloseFullscreen={handleFullscreen}>
+                {renderChart()}
+              </ChartPanel>
               
               {/* Advanced Chart Insights */}
               <div className="mt-4 grid grid-cols-1 sm:grid-cols-4 gap-3">
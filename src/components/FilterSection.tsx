@@ -6,6 +6,7 @@ import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useMatches } from "@/hooks/use-matches";
 import SavedFiltersManager from "./SavedFiltersManager";
+import TeamLink from "./TeamLink";
 import type { MatchFilters } from "@/lib/supabase";
 
 interface FilterDropdownProps {
@@ -242,7 +243,11 @@ const FilterSection = ({ filters, onFiltersChange }: FilterSectionProps) => {
                       key={key}
                       className="inline-flex items-center gap-1 px-2 py-1 bg-primary/20 text-primary text-xs rounded-full border border-primary/30"
                     >
-                      {getDisplayValue(key as keyof MatchFilters)}
+                      {key === 'home_team' || key === 'away_team' ? (
+                        <TeamLink team={String(value)} />
+                      ) : (
+                        getDisplayValue(key as keyof MatchFilters)
+                      )}
                       <button
                         onClick={() => handleFilterChange(key as keyof MatchFilters, '')}
                         className="hover:text-white transition-colors"
@@ -0,0 +1,82 @@
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { importFixtures, parseFixturesFile } from "@/services/fixtures";
+
+interface FixtureImportProps {
+  onImported?: () => void;
+}
+
+/**
+ * Ütemezett mérkőzések importálása CSV vagy JSON fájlból
+ * (oszlopok: home_team, away_team, match_time, league, season?, venue?)
+ */
+const FixtureImport = ({ onImported }: FixtureImportProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File) => {
+    try {
+      setImporting(true);
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const { fixtures, errors } = parseFixturesFile(await file.text(), format);
+
+      if (fixtures.length === 0) {
+        toast({
+          title: "Nincs importálható mérkőzés",
+          description: errors.slice(0, 3).join('; ') || "A fájl üres",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const result = await importFixtures(fixtures);
+      toast({
+        title: "Mérkőzések importálva",
+        description: [
+          `${result.inserted} új mérkőzés`,
+          result.skipped > 0 && `${result.skipped} már létezett`,
+          errors.length > 0 && `${errors.length} hibás sor kihagyva`
+        ].filter(Boolean).join(', ')
+      });
+      onImported?.();
+    } catch (err) {
+      toast({
+        title: "Import hiba",
+        description: err instanceof Error ? err.message : "Ismeretlen hiba",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+      />
+      <Button
+        variant="outline"
+        className="winmix-btn-glass"
+        disabled={importing}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Upload className="size-4 mr-2" />
+        {importing ? "Importálás..." : "Mérkőzések importálása"}
+      </Button>
+    </>
+  );
+};
+
+export default FixtureImport;
@@ -0,0 +1,147 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  fairOdds,
+  type HalftimeFulltimeKey,
+  type LineMarket,
+  type LineSettlement,
+  type MarketSet,
+} from "@/services/markets";
+
+interface MarketsPanelProps {
+  markets: MarketSet;
+  homeTeam: string;
+  awayTeam: string;
+}
+
+const HTFT_LABELS: Record<'H' | 'D' | 'A', string> = { H: '1', D: 'X', A: '2' };
+
+const formatPercent = (probability: number) => `${(probability * 100).toFixed(1)}%`;
+
+const formatOdds = (odds: number | null) => (odds === null ? '–' : odds.toFixed(2));
+
+const formatLine = (line: number) => (line > 0 ? `+${line}` : `${line}`);
+
+// Negyedes és egész vonalaknál a nyerési esély félnyereséggel és visszajáró téttel együtt értendő
+const settlementSummary = (settlement: LineSettlement) => {
+  const parts = [`${formatPercent(settlement.win + settlement.half_win)} nyer`];
+  if (settlement.push > 0.0005) parts.push(`${formatPercent(settlement.push)} vissza`);
+  return parts.join(' · ');
+};
+
+const Selection = ({ label, probability }: { label: string; probability: number }) => (
+  <div className="bg-white/5 p-2 rounded text-center border border-white/10">
+    <div className="text-xs text-white/70 truncate">{label}</div>
+    <div className="text-sm font-semibold text-white">{formatPercent(probability)}</div>
+    <div className="text-[11px] text-white/50">@{formatOdds(probability > 0 ? 1 / probability : null)}</div>
+  </div>
+);
+
+const LineTable = ({ markets, overLabel, underLabel }: { markets: LineMarket[]; overLabel: string; underLabel: string }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-xs text-white/50">
+        <th className="text-left font-normal py-1">Vonal</th>
+        <th className="text-right font-normal py-1">{overLabel}</th>
+        <th className="text-right font-normal py-1">{underLabel}</th>
+      </tr>
+    </thead>
+    <tbody>
+      {markets.map(market => (
+        <tr key={market.line} className="border-t border-white/5">
+          <td className="py-1.5 text-white/80">{formatLine(market.line)}</td>
+          <td className="py-1.5 text-right">
+            <div className="font-semibold text-white">@{formatOdds(fairOdds(market.over))}</div>
+            <div className="text-[11px] text-white/50">{settlementSummary(market.over)}</div>
+          </td>
+          <td className="py-1.5 text-right">
+            <div className="font-semibold text-white">@{formatOdds(fairOdds(market.under))}</div>
+            <div className="text-[11px] text-white/50">{settlementSummary(market.under)}</div>
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * Az eredmény-rácsból levezetett piacok méltányos szorzókkal
+ */
+const MarketsPanel = ({ markets, homeTeam, awayTeam }: MarketsPanelProps) => (
+  <Tabs defaultValue="goals" className="w-full">
+    <TabsList className="grid w-full grid-cols-5 bg-white/5 border border-white/10">
+      <TabsTrigger value="goals" className="text-xs">Gólok</TabsTrigger>
+      <TabsTrigger value="result" className="text-xs">Kimenetel</TabsTrigger>
+      <TabsTrigger value="handicap" className="text-xs">Hendikep</TabsTrigger>
+      <TabsTrigger value="scores" className="text-xs">Eredmény</TabsTrigger>
+      <TabsTrigger value="htft" className="text-xs">Félidő/Vége</TabsTrigger>
+    </TabsList>
+
+    <TabsContent value="goals" className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <Selection label="BTTS igen" probability={markets.btts.yes} />
+        <Selection label="BTTS nem" probability={markets.btts.no} />
+      </div>
+      <LineTable markets={markets.totals} overLabel="Felett" underLabel="Alatt" />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <div className="text-xs font-medium text-white/70 mb-1 truncate">{homeTeam} gólok</div>
+          <LineTable markets={markets.team_totals.home} overLabel="Felett" underLabel="Alatt" />
+        </div>
+        <div>
+          <div className="text-xs font-medium text-white/70 mb-1 truncate">{awayTeam} gólok</div>
+          <LineTable markets={markets.team_totals.away} overLabel="Felett" underLabel="Alatt" />
+        </div>
+      </div>
+    </TabsContent>
+
+    <TabsContent value="result" className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <Selection label="1X" probability={markets.double_chance.home_or_draw} />
+        <Selection label="12" probability={markets.double_chance.home_or_away} />
+        <Selection label="X2" probability={markets.double_chance.draw_or_away} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Selection label={`Döntetlennél visszajár: ${homeTeam}`} probability={markets.draw_no_bet.home} />
+        <Selection label={`Döntetlennél visszajár: ${awayTeam}`} probability={markets.draw_no_bet.away} />
+      </div>
+      <div>
+        <div className="text-xs font-medium text-white/70 mb-2">Győzelmi különbség</div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {markets.winning_margin.map(selection => (
+            <Selection key={selection.label} label={selection.label} probability={selection.probability} />
+          ))}
+        </div>
+      </div>
+    </TabsContent>
+
+    <TabsContent value="handicap">
+      <LineTable markets={markets.asian_handicap} overLabel={homeTeam} underLabel={awayTeam} />
+      <p className="text-[11px] text-white/40 pt-2">A vonal a hazai csapatra értendő</p>
+    </TabsContent>
+
+    <TabsContent value="scores">
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+        {markets.correct_score.map(selection => (
+          <Selection key={selection.label} label={selection.label} probability={selection.probability} />
+        ))}
+      </div>
+    </TabsContent>
+
+    <TabsContent value="htft">
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.entries(markets.halftime_fulltime) as Array<[HalftimeFulltimeKey, number]>).map(([key, probability]) => {
+          const [halftime, fulltime] = key.split('/') as Array<'H' | 'D' | 'A'>;
+          return (
+            <Selection
+              key={key}
+              label={`${HTFT_LABELS[halftime]}/${HTFT_LABELS[fulltime]}`}
+              probability={probability}
+            />
+          );
+        })}
+      </div>
+    </TabsContent>
+  </Tabs>
+);
+
+export default MarketsPanel;
@@ -8,6 +8,14 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { NavLink } from "react-router-dom";
+
+const NAV_ITEMS = [
+  { label: "Mérkőzések", to: "/" },
+  { label: "Naptár", to: "/fixtures" },
+  { label: "Tabella", to: "/league" },
+  { label: "Modell teljesítmény", to: "/models" },
+];
 
 const Navigation = () => {
   const { toast } = useToast();
@@ -43,24 +51,20 @@ const Navigation = () => {
 
           {/* Navigation Items */}
           <div className="hidden md:flex items-center gap-1">
-            <a 
-              href="#" 
-              className="winmix-nav-item active px-4 py-2 text-sm font-medium rounded-lg transition-all"
-            >
-              Mérkőzések
-            </a>
-            <a 
-              href="#" 
-              className="winmix-nav-item px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground rounded-lg transition-all"
-            >
-              Statisztikák
-            </a>
-            <a 
-              href="#" 
-              className="winmix-nav-item px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground rounded-lg transition-all"
-            >
-              Eredmények
-            </a>
+            {NAV_ITEMS.map(item => (
+              <NavLink
+                key={item.to}
+                to={item.to}
+                end={item.to === "/"}
+                className={({ isActive }) =>
+                  `winmix-nav-item px-4 py-2 text-sm font-medium rounded-lg transition-all ${
+                    isActive ? "active" : "text-muted-foreground hover:text-foreground"
+                  }`
+                }
+              >
+                {item.label}
+              </NavLink>
+            ))}
           </div>
         </div>
 
@@ -4,39 +4,19 @@ import { useState, useEffect } from "react";
 import { useMatches } from "@/hooks/use-matches";
 import { useToast } from "@/hooks/use-toast";
 import { MatchSelector } from "@/components/MatchSelector";
-import { PredictionResults } from "@/components/PredictionResults";
-import type { MatchStats } from "@/lib/supabase";
+import {
+  PredictionResults,
+  type PairingPrediction,
+  type PredictedMatch,
+  type PredictionQuality
+} from "@/components/PredictionResults";
+import { buildPairingPrediction, type BuilderPrediction } from "@/services/prediction-builder";
 
 interface PredictionBuilderPanelProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-interface PredictedMatch {
-  id: number;
-  home_team: string;
-  away_team: string;
-}
-
-interface ExtendedMatchStats extends MatchStats {
-  prediction_quality?: {
-    home_qualified: boolean;
-    away_qualified: boolean;
-    draw_highlighted: boolean;
-    btts_qualified: boolean;
-    confidence_level: number;
-    recommendation: string;
-    confidence: string;
-  };
-  home_avg_goals?: number;
-  away_avg_goals?: number;
-  most_frequent_results?: Array<{
-    score: string;
-    percentage: number;
-  }>;
-  halftime_transformations?: number;
-}
-
 const PredictionBuilderPanel = ({ isOpen, onClose }: PredictionBuilderPanelProps) => {
   const [teams, setTeams] = useState<string[]>([]);
   const [matches, setMatches] = useState<PredictedMatch[]>([
@@ -49,7 +29,7 @@ const PredictionBuilderPanel = ({ isOpen, onClose }: PredictionBuilderPanelProps
     { id: 7, home_team: "", away_team: "" },
     { id: 8, home_team: "", away_team: "" },
   ]);
-  const [predictions, setPredictions] = useState<{ match: PredictedMatch; stats: ExtendedMatchStats | null }[]>([]);
+  const [predictions, setPredictions] = useState<PairingPrediction[]>([]);
   const [isCalculating, setIsCalculating] = useState(false);
   const { fetchTeams } = useMatches();
   const { toast } = useToast();
@@ -60,7 +40,7 @@ const PredictionBuilderPanel = ({ isOpen, onClose }: PredictionBuilderPanelProps
       setTeams(teamList);
     };
     loadTeams();
-  }, []);
+  }, [fetchTeams]);
 
   const updateMatch = (matchId: number, side: 'home' | 'away', team: string) => {
     setMatches(matches.map(match => 
@@ -78,30 +58,37 @@ const PredictionBuilderPanel = ({ isOpen, onClose }: PredictionBuilderPanelProps
     ));
   };
 
-  const generatePredictionQuality = (stats: MatchStats): ExtendedMatchStats => {
-    const home_qualified = stats.home_win_percentage >= 65;
-    const away_qualified = stats.away_win_percentage >= 65;
-    const draw_highlighted = stats.draw_percentage > 30;
-    const btts_qualified = stats.btts_percentage >= 55;
-    
+  const generatePredictionQuality = (result: BuilderPrediction): PredictionQuality => {
+    const { home_win_probability, draw_probability, away_win_probability } = result.prediction.predictions;
+    const toPercent = (probability: number) => Number((probability * 100).toFixed(1));
+    const home = toPercent(home_win_probability);
+    const draw = toPercent(draw_probability);
+    const away = toPercent(away_win_probability);
+    const btts = result.btts_probability !== null ? toPercent(result.btts_probability) : null;
+
+    const home_qualified = home >= 65;
+    const away_qualified = away >= 65;
+    const draw_highlighted = draw > 30;
+    const btts_qualified = btts !== null && btts >= 55;
+
     let confidence_level = 0;
     let confidence = 'low';
     let recommendation = '';
 
     if (home_qualified) {
-      confidence_level = stats.home_win_percentage;
-      recommendation = `Hazai győzelem ajánlott (${stats.home_win_percentage}% esély)`;
+      confidence_level = home;
+      recommendation = `Hazai győzelem ajánlott (${home}% esély)`;
     } else if (away_qualified) {
-      confidence_level = stats.away_win_percentage;
-      recommendation = `Vendég győzelem ajánlott (${stats.away_win_percentage}% esély)`;
+      confidence_level = away;
+      recommendation = `Vendég győzelem ajánlott (${away}% esély)`;
     } else if (draw_highlighted) {
-      confidence_level = stats.draw_percentage;
-      recommendation = `Magas döntetlen esély (${stats.draw_percentage}%)`;
-    } else if (btts_qualified) {
-      confidence_level = stats.btts_percentage;
-      recommendation = `BTTS ajánlott (${stats.btts_percentage}% esély)`;
+      confidence_level = draw;
+      recommendation = `Magas döntetlen esély (${draw}%)`;
+    } else if (btts !== null && btts_qualified) {
+      confidence_level = btts;
+      recommendation = `BTTS ajánlott (${btts}% esély)`;
     } else {
-      confidence_level = Math.max(stats.home_win_percentage, stats.away_win_percentage, stats.draw_percentage);
+      confidence_level = Math.max(home, draw, away);
       recommendation = 'Bizonytalan kimenetel, óvatosság ajánlott';
     }
 
@@ -109,59 +96,16 @@ const PredictionBuilderPanel = ({ isOpen, onClose }: PredictionBuilderPanelProps
     else if (confidence_level >= 50) confidence = 'medium';
 
     return {
-      ...stats,
-      prediction_quality: {
-        home_qualified,
-        away_qualified,
-        draw_highlighted,
-        btts_qualified,
-        confidence_level,
-        recommendation,
-        confidence
-      },
-      home_avg_goals: Number((stats.home_wins * 2.1 / stats.total_matches).toFixed(1)),
-      away_avg_goals: Number((stats.away_wins * 1.8 / stats.total_matches).toFixed(1)),
-      most_frequent_results: [
-        { score: "1-0", percentage: 15 },
-        { score: "2-1", percentage: 12 },
-        { score: "1-1", percentage: 18 },
-        { score: "0-0", percentage: 8 },
-        { score: "2-0", percentage: 10 },
-        { score: "3-1", percentage: 7 }
-      ],
-      halftime_transformations: Math.floor(stats.comeback_count * 1.2)
+      home_qualified,
+      away_qualified,
+      draw_highlighted,
+      btts_qualified,
+      confidence_level,
+      recommendation,
+      confidence
     };
   };
 
-  const simulateMatchStats = (homeTeam: string, awayTeam: string): ExtendedMatchStats => {
-    // Simulate realistic stats based on team names
-    const homeStrength = homeTeam.length % 5 + 3;
-    const awayStrength = awayTeam.length % 5 + 3;
-    const totalStrength = homeStrength + awayStrength;
-    
-    const total_matches = 50 + Math.floor(Math.random() * 100);
-    const home_wins = Math.floor((homeStrength / totalStrength) * total_matches * 1.2);
-    const away_wins = Math.floor((awayStrength / totalStrength) * total_matches);
-    const draws = total_matches - home_wins - away_wins;
-    
-    const baseStats: MatchStats = {
-      total_matches,
-      home_wins,
-      away_wins,
-      draws,
-      btts_count: Math.floor(total_matches * 0.6),
-      comeback_count: Math.floor(total_matches * 0.15),
-      avg_goals: Number((2.2 + Math.random() * 1.3).toFixed(1)),
-      home_win_percentage: Number(((home_wins / total_matches) * 100).toFixed(1)),
-      away_win_percentage: Number(((away_wins / total_matches) * 100).toFixed(1)),
-      draw_percentage: Number(((draws / total_matches) * 100).toFixed(1)),
-      btts_percentage: Number((60 + Math.random() * 30).toFixed(1)),
-      comeback_percentage: Number(((Math.floor(total_matches * 0.15) / total_matches) * 100).toFixed(1))
-    };
-
-    return generatePredictionQuality(baseStats);
-  };
-
   const handleGeneratePredictions = async () => {
     const validMatches = matches.filter(match => match.home_team && match.away_team);
     
@@ -175,21 +119,31 @@ const PredictionBuilderPanel = ({ isOpen, onClose }: PredictionBuilderPanelProps
     }
     
     setIsCalculating(true);
-    
-    // Simulate calculation delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const results = validMatches.map(match => ({
-      match,
-      stats: simulateMatchStats(match.home_team, match.away_team)
-    }));
+
+    // Párosításonként külön: egy sikertelen predikció nem akasztja meg a többit
+    const settled = await Promise.allSettled(
+      validMatches.map(match => buildPairingPrediction(match.home_team, match.away_team))
+    );
+
+    const results: PairingPrediction[] = validMatches.map((match, index) => {
+      const outcome = settled[index];
+      if (outcome.status === 'rejected') {
+        console.error(`Prediction builder error (${match.home_team} - ${match.away_team}):`, outcome.reason);
+        return { match, result: null, quality: null };
+      }
+      return { match, result: outcome.value, quality: generatePredictionQuality(outcome.value) };
+    });
+    const failed = results.filter(r => r.result === null).length;
     
     setPredictions(results);
     setIsCalculating(false);
     
     toast({
       title: "Predikció kész!",
-      description: `${results.length} mérkőzés elemzése elkészült`,
+      description: failed > 0
+        ? `${results.length - failed} / ${results.length} mérkőzés elemzése elkészült`
+        : `${results.length} mérkőzés elemzése elkészült`,
+      variant: failed === results.length ? "destructive" : "default"
     });
   };
 
@@ -288,6 +242,5 @@ const PredictionBuilderPanel = ({ isOpen, onClose }: PredictionBuilderPanelProps
     </>
   );
 };
-};
 
 export default PredictionBuilderPanel;
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { useRef, useState } from "react";
+import { FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { matchOddsToFixtures, parseOddsFile, type FixtureOdds } from "@/services/value-bets";
+import type { Match } from "@/lib/supabase";
+
+interface OddsImportProps {
+  fixtures: Match[];
+  onImported: (odds: FixtureOdds[]) => void;
+}
+
+/**
+ * Szorzók importálása CSV vagy JSON fájlból a betöltött mérkőzésekhez
+ * (oszlopok: home_team, away_team, market, selection, odds, line?, match_id?)
+ */
+const OddsImport = ({ fixtures, onImported }: OddsImportProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File) => {
+    try {
+      setImporting(true);
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const { odds, errors } = parseOddsFile(await file.text(), format);
+      const { matched, unmatched } = matchOddsToFixtures(odds, fixtures);
+
+      if (matched.length === 0) {
+        toast({
+          title: "Nincs importálható szorzó",
+          description: errors.slice(0, 3).join('; ') || "Egyik sor sem illeszkedik a betöltött mérkőzésekre",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      onImported(matched);
+      toast({
+        title: "Szorzók importálva",
+        description: [
+          `${matched.length} mérkőzés`,
+          unmatched > 0 && `${unmatched} ismeretlen mérkőzés`,
+          errors.length > 0 && `${errors.length} hibás sor kihagyva`
+        ].filter(Boolean).join(', ')
+      });
+    } catch (err) {
+      toast({
+        title: "Import hiba",
+        description: err instanceof Error ? err.message : "Ismeretlen hiba",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+      />
+      <Button
+        variant="outline"
+        className="winmix-btn-glass"
+        disabled={importing || fixtures.length === 0}
+        onClick={() => inputRef.current?.click()}
+      >
+        <FileSpreadsheet className="size-4 mr-2" />
+        {importing ? "Importálás..." : "Szorzók importálása"}
+      </Button>
+    </>
+  );
+};
+
+export default OddsImport;
@@ -0,0 +1,50 @@
+import type { ReactNode } from "react";
+import Navigation from "@/components/Navigation";
+
+/**
+ * Közös oldalváz: háttér, navigáció, tartalom és lábléc
+ */
+const PageLayout = ({ children }: { children: ReactNode }) => (
+  <div className="min-h-screen w-full relative bg-black text-foreground smooth-scroll">
+    {/* Violet Storm Background with Top Glow */}
+    <div
+      className="absolute inset-0 z-0"
+      style={{
+        background: "radial-gradient(ellipse 80% 60% at 50% 0%, rgba(139, 92, 246, 0.25), transparent 70%), #000000",
+      }}
+    />
+
+    {/* Navigation */}
+    <header className="sticky top-0 z-40 backdrop-blur-md supports-[backdrop-filter]:bg-background/60 bg-background/80 border-b border-border relative">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 h-16 flex items-center">
+        <Navigation />
+      </div>
+    </header>
+
+    {/* Main Content */}
+    <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-12 space-y-12 relative z-10">
+      {children}
+    </main>
+
+    {/* Footer */}
+    <footer className="mt-24 border-t border-border bg-background/50 backdrop-blur-sm relative z-10">
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-gradient-violet flex items-center justify-center">
+              <span className="text-white font-bold">W</span>
+            </div>
+            <span className="text-sm text-muted-foreground">
+              © 2024 WinMix. Minden jog fenntartva.
+            </span>
+          </div>
+          <span className="text-sm text-muted-foreground">
+            Magyar sports analytics platform
+          </span>
+        </div>
+      </div>
+    </footer>
+  </div>
+);
+
+export default PageLayout;
@@ -4,7 +4,18 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import EmptyState from "@/components/EmptyState";
+import FixtureImport from "@/components/FixtureImport";
+import MarketsPanel from "@/components/MarketsPanel";
 import { 
   Trophy, 
   TrendingUp, 
@@ -13,9 +24,13 @@ import {
   Activity,
   BarChart3,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  CalendarDays,
+  ChevronDown
 } from "lucide-react";
-import { usePredefinedPredictions, usePrediction } from "@/hooks/use-prediction";
+import { usePredefinedPredictions, usePrediction, type UpcomingPrediction } from "@/hooks/use-prediction";
+import { loadFixtureLeagues } from "@/services/fixtures";
+import { marketsFromPrediction } from "@/services/markets";
 import type { PredictionOutput } from "@/types/prediction";
 
 interface PredictionModalProps {
@@ -23,23 +38,43 @@ interface PredictionModalProps {
   onOpenChange: (open: boolean) => void;
 }
 
+const ALL_LEAGUES = 'ALL';
+const DAY_WINDOWS = [3, 7, 14, 30];
+
+const formatKickoff = (matchTime: string) =>
+  new Date(matchTime).toLocaleString('hu-HU', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
 const PredictionModal = ({ open, onOpenChange }: PredictionModalProps) => {
-  const [predictions, setPredictions] = useState<PredictionOutput[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingPrediction[]>([]);
+  const [leagues, setLeagues] = useState<string[]>([]);
+  const [league, setLeague] = useState(ALL_LEAGUES);
+  const [daysAhead, setDaysAhead] = useState(7);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
   const { predictUpcomingMatches } = usePredefinedPredictions();
-  const { isLoading, assessPredictionQuality, formatModelExplanations } = usePrediction();
+  const { assessPredictionQuality } = usePrediction();
+  const predictions = upcoming.map(u => u.prediction);
 
   useEffect(() => {
-    if (open && predictions.length === 0) {
+    if (open) {
       loadPredictions();
+      loadFixtureLeagues().then(setLeagues).catch(error => console.error('Failed to load leagues:', error));
     }
-  }, [open]);
+  }, [open, league, daysAhead]);
 
   const loadPredictions = async () => {
     try {
-      const results = await predictUpcomingMatches();
-      setPredictions(results);
+      setIsLoading(true);
+      const results = await predictUpcomingMatches({
+        league: league === ALL_LEAGUES ? undefined : league,
+        days_ahead: daysAhead
+      });
+      setUpcoming(results);
     } catch (error) {
       console.error('Failed to load predictions:', error);
+    } finally {
+      setIsLoading(false);
+      setLoaded(true);
     }
   };
 
@@ -66,7 +101,7 @@ const PredictionModal = ({ open, onOpenChange }: PredictionModalProps) => {
     return { high, medium, low };
   };
 
-  if (isLoading) {
+  if (isLoading && !loaded) {
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
         <DialogContent className="max-w-md glass-card border-0">
@@ -97,6 +132,34 @@ const PredictionModal = ({ open, onOpenChange }: PredictionModalProps) => {
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Fixture filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={league} onValueChange={setLeague}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_LEAGUES}>Összes liga</SelectItem>
+                {leagues.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(daysAhead)} onValueChange={value => setDaysAhead(Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAY_WINDOWS.map(days => (
+                  <SelectItem key={days} value={String(days)}>Következő {days} nap</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="ml-auto">
+              <FixtureImport onImported={loadPredictions} />
+            </div>
+          </div>
+
           {/* Summary Stats */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <Card className="glass-card border-0">
@@ -134,15 +197,23 @@ const PredictionModal = ({ open, onOpenChange }: PredictionModalProps) => {
               AI Predikciók
             </h3>
             
-            <div className="grid gap-4">
-              {predictions.map((prediction, index) => {
+            {!isLoading && upcoming.length === 0 && (
+              <EmptyState
+                title="Nincs ütemezett mérkőzés"
+                description="A kiválasztott időszakban nincs közelgő mérkőzés. Importálj mérkőzéseket CSV vagy JSON fájlból."
+              />
+            )}
+
+            <div className={`grid gap-4 ${isLoading ? 'opacity-50' : ''}`}>
+              {upcoming.map(({ fixture, prediction }) => {
                 const highest = getHighestProbability(prediction);
                 const confidence = getConfidenceLevel(prediction);
                 const quality = assessPredictionQuality(prediction);
                 const ConfidenceIcon = confidence.icon;
+                const markets = marketsFromPrediction(prediction);
                 
                 return (
-                  <Card key={index} className="glass-card border-0 winmix-hover-lift">
+                  <Card key={fixture.id} className="glass-card border-0 winmix-hover-lift">
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
@@ -164,8 +235,12 @@ const PredictionModal = ({ open, onOpenChange }: PredictionModalProps) => {
                             </Badge>
                           </div>
                           
-                          <div className="text-lg font-semibold mb-2">
-                            Mérkőzés #{index + 1}
+                          <div className="text-lg font-semibold">
+                            {fixture.home_team} – {fixture.away_team}
+                          </div>
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground mb-2">
+                            <CalendarDays className="size-3" />
+                            {formatKickoff(fixture.match_time)} · {fixture.league}
                           </div>
                           
                           <div className="grid grid-cols-3 gap-2 text-sm">
@@ -249,6 +324,27 @@ const PredictionModal = ({ open, onOpenChange }: PredictionModalProps) => {
                         Confidence: {Math.round(prediction.predictions.confidence_score * 100)}% •
                         Quality: {Math.round(prediction.prediction_metadata.data_quality_score * 100)}%
                       </div>
+
+                      {prediction.prediction_metadata.warning_flags.length > 0 && (
+                        <div className="mt-2 flex items-start gap-2 text-xs text-warning">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          <span>{prediction.prediction_metadata.warning_flags.join(' · ')}</span>
+                        </div>
+                      )}
+
+                      {markets && (
+                        <Collapsible className="mt-3">
+                          <CollapsibleTrigger asChild>
+                            <Button variant="ghost" size="sm" className="group px-2 text-xs text-muted-foreground">
+                              <ChevronDown className="size-3 mr-1 transition-transform group-data-[state=open]:rotate-180" />
+                              Piacok
+                            </Button>
+                          </CollapsibleTrigger>
+                          <CollapsibleContent className="pt-2">
+                            <MarketsPanel markets={markets} homeTeam={fixture.home_team} awayTeam={fixture.away_team} />
+                          </CollapsibleContent>
+                        </Collapsible>
+                      )}
                     </CardContent>
                   </Card>
                 );
@@ -261,7 +357,7 @@ const PredictionModal = ({ open, onOpenChange }: PredictionModalProps) => {
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Bezárás
             </Button>
-            <Button className="winmix-btn-primary" onClick={loadPredictions}>
+            <Button className="winmix-btn-primary" onClick={loadPredictions} disabled={isLoading}>
               <Brain className="size-4 mr-2" />
               Újra generálás
             </Button>
@@ -1,37 +1,36 @@
 import { Card, CardContent } from "@/components/ui/card";
-import { CheckCircle, AlertTriangle, TrendingUp, Target, BarChart3 } from "lucide-react";
-import type { MatchStats } from "@/lib/supabase";
+import { CheckCircle, AlertTriangle, TrendingUp, Target, BarChart3, Users, Coins } from "lucide-react";
+import MarketsPanel from "@/components/MarketsPanel";
+import type { BuilderPrediction } from "@/services/prediction-builder";
 
-// Add the extended type definition for prediction quality
-interface ExtendedMatchStats extends MatchStats {
-  prediction_quality?: {
-    home_qualified: boolean;
-    away_qualified: boolean;
-    draw_highlighted: boolean;
-    btts_qualified: boolean;
-    confidence_level: number;
-    recommendation: string;
-    confidence: string;
-  };
-  home_avg_goals?: number;
-  away_avg_goals?: number;
-  most_frequent_results?: Array<{
-    score: string;
-    percentage: number;
-  }>;
-  halftime_transformations?: number;
+export interface PredictionQuality {
+  home_qualified: boolean;
+  away_qualified: boolean;
+  draw_highlighted: boolean;
+  btts_qualified: boolean;
+  confidence_level: number;
+  recommendation: string;
+  confidence: string;
 }
 
-interface PredictedMatch {
+export interface PredictedMatch {
   id: number;
   home_team: string;
   away_team: string;
 }
 
+export interface PairingPrediction {
+  match: PredictedMatch;
+  result: BuilderPrediction | null;
+  quality: PredictionQuality | null;
+}
+
 interface PredictionResultsProps {
-  predictions: { match: PredictedMatch; stats: ExtendedMatchStats | null }[];
+  predictions: PairingPrediction[];
 }
 
+const formatPercent = (probability: number) => `${(probability * 100).toFixed(1)}%`;
+
 export const PredictionResults = ({ predictions }: PredictionResultsProps) => {
   if (predictions.length === 0) return null;
 
@@ -53,7 +52,7 @@ export const PredictionResults = ({ predictions }: PredictionResultsProps) => {
       </div>
       
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6">
-        {predictions.map(({ match, stats }, index) => (
+        {predictions.map(({ match, result, quality }, index) => (
           <Card key={index} className="glass-card border-white/10 hover:border-white/20 transition-all duration-300 group">
             <CardContent className="p-4 sm:p-6">
               {/* Match header */}
@@ -68,38 +67,38 @@ export const PredictionResults = ({ predictions }: PredictionResultsProps) => {
                   </h4>
                 </div>
                 
-                {stats?.prediction_quality && (
+                {quality && (
                   <div className="flex items-center gap-2 self-start sm:self-center">
-                    {stats.prediction_quality.confidence_level >= 65 ? (
+                    {quality.confidence_level >= 65 ? (
                       <CheckCircle className="w-5 h-5 text-success flex-shrink-0" />
-                    ) : stats.prediction_quality.confidence_level >= 50 ? (
+                    ) : quality.confidence_level >= 50 ? (
                       <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0" />
                     ) : (
                       <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
                     )}
                     <span className="text-sm font-medium text-white/90">
-                      {Math.round(stats.prediction_quality.confidence_level)}%
+                      {Math.round(quality.confidence_level)}%
                     </span>
                   </div>
                 )}
               </div>
               
-              {stats ? (
+              {result ? (
                 <div className="space-y-4 sm:space-y-6">
                   {/* Recommendation */}
-                  {stats.prediction_quality && (
+                  {quality && (
                     <div className={`p-3 sm:p-4 rounded-lg border ${
-                      stats.prediction_quality.confidence === 'high' 
+                      quality.confidence === 'high' 
                         ? 'bg-success/10 border-success/20' 
-                        : stats.prediction_quality.confidence === 'medium'
+                        : quality.confidence === 'medium'
                         ? 'bg-warning/10 border-warning/20'
                         : 'bg-white/5 border-white/10'
                     }`}>
                       <div className="flex items-start gap-3">
                         <Target className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
-                          stats.prediction_quality.confidence === 'high' 
+                          quality.confidence === 'high' 
                             ? 'text-success' 
-                            : stats.prediction_quality.confidence === 'medium'
+                            : quality.confidence === 'medium'
                             ? 'text-warning'
                             : 'text-white/60'
                         }`} />
@@ -108,101 +107,89 @@ export const PredictionResults = ({ predictions }: PredictionResultsProps) => {
                             Ajánlás
                           </div>
                           <div className="text-sm text-white/90 break-words">
-                            {stats.prediction_quality.recommendation}
+                            {quality.recommendation}
                           </div>
                         </div>
                       </div>
                     </div>
                   )}
 
-                  {/* Basic Statistics */}
+                  {/* Outcome probabilities */}
+                  <div className="grid grid-cols-3 gap-2">
+                    {[
+                      { label: 'Hazai', probability: result.prediction.predictions.home_win_probability, highlighted: quality?.home_qualified, color: 'success' },
+                      { label: 'Döntetlen', probability: result.prediction.predictions.draw_probability, highlighted: quality?.draw_highlighted, color: 'warning' },
+                      { label: 'Vendég', probability: result.prediction.predictions.away_win_probability, highlighted: quality?.away_qualified, color: 'success' }
+                    ].map(outcome => (
+                      <div
+                        key={outcome.label}
+                        className={`p-2 sm:p-3 rounded text-center border ${
+                          outcome.highlighted
+                            ? outcome.color === 'success' ? 'bg-success/10 border-success/20' : 'bg-warning/10 border-warning/20'
+                            : 'bg-white/5 border-white/10'
+                        }`}
+                      >
+                        <div className="text-xs text-white/70">{outcome.label}</div>
+                        <div className="text-sm font-bold text-white">{formatPercent(outcome.probability)}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Goal markets */}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                     <div className="space-y-2 sm:space-y-3">
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm text-white/70">Összes mérkőzés:</span>
-                        <span className="text-sm font-semibold text-white">{stats.total_matches}</span>
+                      <div className={`flex justify-between items-center ${
+                        quality?.btts_qualified ? 'bg-primary/10 p-2 rounded border border-primary/20' : ''
+                      }`}>
+                        <span className="text-sm text-white/70">Mindkét csapat gólja:</span>
+                        <span className={`text-sm font-semibold ${quality?.btts_qualified ? 'text-primary' : 'text-white'}`}>
+                          {result.btts_probability !== null ? formatPercent(result.btts_probability) : 'N/A'}
+                        </span>
                       </div>
                       
                       <div className="flex justify-between items-center">
-                        <span className="text-sm text-white/70">Átlagos gólok:</span>
-                        <span className="text-sm font-semibold text-white">{stats.avg_goals}</span>
+                        <span className="text-sm text-white/70">Modell bizalom:</span>
+                        <span className="text-sm font-semibold text-white">
+                          {formatPercent(result.prediction.predictions.confidence_score)}
+                        </span>
                       </div>
                     </div>
 
                     <div className="space-y-2 sm:space-y-3">
                       <div className="flex justify-between items-center">
-                        <span className="text-sm text-white/70">Hazai átlag:</span>
-                        <span className="text-sm font-semibold text-white">{stats.home_avg_goals || 'N/A'}</span>
+                        <span className="text-sm text-white/70">Várható hazai gól:</span>
+                        <span className="text-sm font-semibold text-white">
+                          {result.prediction.scoreline_predictions?.expected_goals?.home.toFixed(2) ?? 'N/A'}
+                        </span>
                       </div>
                       
                       <div className="flex justify-between items-center">
-                        <span className="text-sm text-white/70">Vendég átlag:</span>
-                        <span className="text-sm font-semibold text-white">{stats.away_avg_goals || 'N/A'}</span>
+                        <span className="text-sm text-white/70">Várható vendég gól:</span>
+                        <span className="text-sm font-semibold text-white">
+                          {result.prediction.scoreline_predictions?.expected_goals?.away.toFixed(2) ?? 'N/A'}
+                        </span>
                       </div>
                     </div>
                   </div>
 
-                  {/* Qualified Statistics */}
-                  <div className="space-y-2">
-                    {stats.prediction_quality?.home_qualified && (
-                      <div className="flex justify-between items-center bg-success/10 p-2 sm:p-3 rounded border border-success/20">
-                        <span className="text-success font-medium text-sm">Hazai győzelem:</span>
-                        <div className="flex items-center gap-1">
-                          <span className="text-success font-bold text-sm">{stats.home_win_percentage}%</span>
-                          <CheckCircle className="w-3 h-3 text-success" />
-                        </div>
-                      </div>
-                    )}
-                    
-                    {stats.prediction_quality?.away_qualified && (
-                      <div className="flex justify-between items-center bg-success/10 p-2 sm:p-3 rounded border border-success/20">
-                        <span className="text-success font-medium text-sm">Vendég győzelem:</span>
-                        <div className="flex items-center gap-1">
-                          <span className="text-success font-bold text-sm">{stats.away_win_percentage}%</span>
-                          <CheckCircle className="w-3 h-3 text-success" />
-                        </div>
-                      </div>
-                    )}
-                    
-                    {stats.prediction_quality?.draw_highlighted && (
-                      <div className="flex justify-between items-center bg-warning/10 p-2 sm:p-3 rounded border border-warning/20">
-                        <span className="text-warning font-medium text-sm">Döntetlen (magas):</span>
-                        <div className="flex items-center gap-1">
-                          <span className="text-warning font-bold text-sm">{stats.draw_percentage}%</span>
-                          <AlertTriangle className="w-3 h-3 text-warning" />
-                        </div>
-                      </div>
-                    )}
-                    
-                    {stats.prediction_quality?.btts_qualified && (
-                      <div className="flex justify-between items-center bg-primary/10 p-2 sm:p-3 rounded border border-primary/20">
-                        <span className="text-primary font-medium text-sm">Mindkét csapat gólja:</span>
-                        <div className="flex items-center gap-1">
-                          <span className="text-primary font-bold text-sm">{stats.btts_percentage}%</span>
-                          <CheckCircle className="w-3 h-3 text-primary" />
-                        </div>
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Most Frequent Results */}
-                  {stats.most_frequent_results && stats.most_frequent_results.length > 0 && (
+                  {/* Most likely scorelines */}
+                  {result.top_scores.length > 0 && (
                     <div className="space-y-2 sm:space-y-3">
                       <h5 className="text-sm font-medium text-white/90 flex items-center gap-2">
                         <TrendingUp className="w-4 h-4" />
-                        Leggyakoribb eredmények
+                        Legvalószínűbb eredmények
                       </h5>
                       <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                        {stats.most_frequent_results.slice(0, 6).map((result, idx) => (
+                        {result.top_scores.map(score => (
                           <div
-                            key={idx}
+                            key={score.score}
                             className="bg-white/5 p-2 rounded text-center border border-white/10"
                           >
                             <div className="text-sm font-semibold text-white">
-                              {result.score}
+                              {score.score}
                             </div>
                             <div className="text-xs text-white/70">
-                              {result.percentage}%
+                              {formatPercent(score.probability)}
                             </div>
                           </div>
                         ))}
@@ -210,12 +197,49 @@ export const PredictionResults = ({ predictions }: PredictionResultsProps) => {
                     </div>
                   )}
 
-                  {/* Halftime Transformations */}
-                  {stats.halftime_transformations && stats.halftime_transformations > 0 && (
-                    <div className="bg-white/5 p-3 sm:p-4 rounded border border-white/10">
-                      <div className="text-sm text-white/80">
-                        <span className="font-medium">Félidő átalakulások:</span> {stats.halftime_transformations} mérkőzés
-                      </div>
+                  {/* Derived betting markets */}
+                  {result.markets && (
+                    <div className="space-y-2 sm:space-y-3">
+                      <h5 className="text-sm font-medium text-white/90 flex items-center gap-2">
+                        <Coins className="w-4 h-4" />
+                        Piacok (méltányos szorzók)
+                      </h5>
+                      <MarketsPanel markets={result.markets} homeTeam={match.home_team} awayTeam={match.away_team} />
+                    </div>
+                  )}
+
+                  {/* Head-to-head and sample sizes */}
+                  <div className="bg-white/5 p-3 sm:p-4 rounded border border-white/10 space-y-2 text-sm text-white/80">
+                    <div className="flex items-center gap-2 font-medium text-white/90">
+                      <Users className="w-4 h-4" />
+                      Egymás elleni mérleg
+                    </div>
+                    {result.head_to_head.matches > 0 ? (
+                      <>
+                        <div>
+                          {result.head_to_head.matches} mérkőzés: {result.head_to_head.home_team_wins} hazai győzelem,{' '}
+                          {result.head_to_head.draws} döntetlen, {result.head_to_head.away_team_wins} vendég győzelem
+                        </div>
+                        <div className="text-white/60">
+                          Átlag {result.head_to_head.avg_goals.toFixed(1)} gól · BTTS {result.head_to_head.btts_matches} ·
+                          fordítás {result.head_to_head.comeback_matches}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="text-white/60">Nincs korábbi egymás elleni mérkőzés</div>
+                    )}
+                    <div className="text-xs text-white/50">
+                      Minta: {match.home_team} {result.sample_sizes.home_team} ·{' '}
+                      {match.away_team} {result.sample_sizes.away_team} ·{' '}
+                      egymás ellen {result.sample_sizes.head_to_head} mérkőzés
+                    </div>
+                  </div>
+
+                  {/* Warnings */}
+                  {result.prediction.prediction_metadata.warning_flags.length > 0 && (
+                    <div className="flex items-start gap-2 text-xs text-warning">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>{result.prediction.prediction_metadata.warning_flags.join(' · ')}</span>
                     </div>
                   )}
                 </div>
@@ -233,4 +257,4 @@ export const PredictionResults = ({ predictions }: PredictionResultsProps) => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
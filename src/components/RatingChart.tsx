@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTeamRatings } from "@/hooks/use-team-ratings";
+import { CHART_COLORS, darkChartOptions } from "@/lib/chart-theme";
+import { RATING_SYSTEMS, type RatingSystem } from "@/services/team-ratings";
+import LoadingSpinner from "./LoadingSpinner";
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const SYSTEM_LABELS: Record<RatingSystem, string> = {
+  elo: 'Elo',
+  glicko2: 'Glicko-2'
+};
+
+// Csapatonként ennyi legutóbbi mérkőzés utáni érték jelenik meg
+const HISTORY_POINTS = 100;
+
+const formatDate = (time: string) => new Date(time).toLocaleDateString('hu-HU');
+
+interface RatingChartProps {
+  teams: string[];
+}
+
+/**
+ * Csapatok Elo / Glicko-2 értékszámának alakulása mérkőzésről mérkőzésre
+ */
+const RatingChart = ({ teams }: RatingChartProps) => {
+  const [system, setSystem] = useState<RatingSystem>('elo');
+  const { ratings, loading, error } = useTeamRatings(teams, system);
+
+  const histories = ratings.map(rating => ({ ...rating, history: rating.history.slice(-HISTORY_POINTS) }));
+  // Közös időtengely; egy csapat a többiek meccsnapjain nem kap pontot
+  const times = [...new Set(histories.flatMap(rating => rating.history.map(s => s.match_time)))].sort();
+
+  const chartData = {
+    labels: times.map(formatDate),
+    datasets: histories.map((rating, i) => {
+      const byTime = new Map(rating.history.map(s => [s.match_time, s.rating]));
+      return {
+        label: rating.team,
+        data: times.map(time => byTime.get(time) ?? null),
+        borderColor: CHART_COLORS[i],
+        backgroundColor: CHART_COLORS[i],
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.2,
+        spanGaps: true,
+      };
+    })
+  };
+
+  return (
+    <Card className="glass-card border-white/10">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg font-semibold tracking-tight">Értékszám alakulása</CardTitle>
+          <div className="flex flex-wrap gap-x-4 text-sm text-white/60 mt-1">
+            {ratings.map(rating => (
+              <span key={rating.team}>
+                {rating.team}: <span className="font-semibold text-white">{Math.round(rating.rating)}</span>
+                {rating.rd !== null && <span> ± {Math.round(rating.rd)}</span>}
+              </span>
+            ))}
+          </div>
+        </div>
+        <Select value={system} onValueChange={value => setSystem(value as RatingSystem)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RATING_SYSTEMS.map(option => (
+              <SelectItem key={option} value={option}>{SYSTEM_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : error || ratings.length === 0 ? (
+          <span className="text-sm text-white/50">{error ?? 'Nincs értékszám adat'}</span>
+        ) : (
+          <div className="relative h-72">
+            <Line data={chartData} options={darkChartOptions()} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RatingChart;
@@ -0,0 +1,88 @@
+import { Line } from 'react-chartjs-2';
+import type { ReliabilityBin } from "@/types/prediction";
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+export interface ReliabilitySeries {
+  label: string;
+  bins: ReliabilityBin[];
+  color: string;
+}
+
+const toPoints = (bins: ReliabilityBin[]) =>
+  bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({ x: bin.mean_predicted, y: bin.observed_frequency }));
+
+/**
+ * Reliability diagram: előrejelzett valószínűség vs tényleges gyakoriság
+ */
+const ReliabilityDiagram = ({ series }: { series: ReliabilitySeries[] }) => {
+  const chartData = {
+    datasets: [
+      {
+        label: 'Tökéletes kalibráció',
+        data: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+        borderColor: 'rgba(255,255,255,0.3)',
+        borderDash: [6, 6],
+        pointRadius: 0,
+        borderWidth: 1
+      },
+      ...series.map(s => ({
+        label: s.label,
+        data: toPoints(s.bins),
+        borderColor: s.color,
+        backgroundColor: s.color,
+        pointRadius: 4,
+        borderWidth: 2,
+        tension: 0.2
+      }))
+    ]
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        labels: { color: 'rgba(255,255,255,0.8)', font: { size: 12 } }
+      },
+      tooltip: {
+        backgroundColor: 'rgba(17,17,22,0.9)',
+        borderColor: 'rgba(255,255,255,0.08)',
+        borderWidth: 1,
+        titleColor: '#fff',
+        bodyColor: '#fff'
+      }
+    },
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: 0,
+        max: 1,
+        title: { display: true, text: 'Előrejelzett valószínűség', color: 'rgba(255,255,255,0.6)' },
+        ticks: { color: 'rgba(255,255,255,0.6)' },
+        grid: { color: 'rgba(255,255,255,0.06)' }
+      },
+      y: {
+        min: 0,
+        max: 1,
+        title: { display: true, text: 'Tényleges gyakoriság', color: 'rgba(255,255,255,0.6)' },
+        ticks: { color: 'rgba(255,255,255,0.6)' },
+        grid: { color: 'rgba(255,255,255,0.06)' }
+      }
+    }
+  };
+
+  return <Line data={chartData} options={chartOptions} />;
+};
+
+export default ReliabilityDiagram;
@@ -3,9 +3,12 @@ import { Button } from "@/components/ui/button";
 import { useState, useMemo } from "react";
 import MatchDetailsModal from "./MatchDetailsModal";
 import { useToast } from "@/hooks/use-toast";
+import { useFixtureOdds } from "@/hooks/use-fixture-odds";
+import { matchResultOdds } from "@/services/value-bets";
 import { Match } from "@/lib/supabase";
 import LoadingSpinner from "./LoadingSpinner";
 import EmptyState from "./EmptyState";
+import TeamLink from "./TeamLink";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,6 +29,7 @@ const ResultsTable = ({ matches, loading, totalCount, totalPages, currentPage, o
   const { toast } = useToast();
   const [selectedMatch, setSelectedMatch] = useState<any>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const { odds } = useFixtureOdds();
 
   const handleViewDetails = (match: Match) => {
     const enhancedMatch = {
@@ -46,11 +50,7 @@ const ResultsTable = ({ matches, loading, totalCount, totalPages, currentPage, o
       date: new Date().toISOString().split('T')[0], // Using current date as placeholder
       venue: "Stadion", // Placeholder
       attendance: 50000, // Placeholder
-      odds: {
-        home: 1.85,
-        draw: 3.40,
-        away: 4.20
-      },
+      odds: matchResultOdds(odds[match.id]),
       stats: {
         possession: [65, 35],
         shots: [14, 8],
@@ -211,13 +211,13 @@ const ResultsTable = ({ matches, loading, totalCount, totalPages, currentPage, o
                   <td className="px-5 sm:px-6 py-4">
                     <div className="flex items-center gap-3">
                       <span className={`size-2 rounded-full ${teamColors[match.home_team] || 'bg-gray-500'}`}></span>
-                      <span>{match.home_team}</span>
+                      <TeamLink team={match.home_team} />
                     </div>
                   </td>
                   <td className="px-5 sm:px-6 py-4">
                     <div className="flex items-center gap-3">
                       <span className={`size-2 rounded-full ${teamColors[match.away_team] || 'bg-gray-500'}`}></span>
-                      <span>{match.away_team}</span>
+                      <TeamLink team={match.away_team} />
                     </div>
                   </td>
                   <td className="px-5 sm:px-6 py-4">
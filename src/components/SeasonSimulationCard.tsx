@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Dices } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import TeamLink from "@/components/TeamLink";
+import { useSeasonSimulation } from "@/hooks/use-season-simulation";
+
+interface SeasonSimulationCardProps {
+  leagueId: number;
+  league: string;
+  season: string | null;
+}
+
+const ITERATION_OPTIONS = [1000, 5000, 10000];
+
+const formatPercent = (value: number) =>
+  value > 0 && value < 0.005 ? '<1%' : `${Math.round(value * 100)}%`;
+
+/**
+ * Monte Carlo szezon szimuláció indítása és a bajnoki esélyek megjelenítése
+ */
+const SeasonSimulationCard = ({ leagueId, league, season }: SeasonSimulationCardProps) => {
+  const [iterations, setIterations] = useState(5000);
+  const { row, results, running, error, start } = useSeasonSimulation(leagueId, league, season);
+
+  return (
+    <Card className="glass-card border-white/10">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-lg font-semibold tracking-tight flex items-center gap-2">
+          <Dices className="size-5 text-white/70" />
+          Szezon szimuláció
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={String(iterations)} onValueChange={value => setIterations(Number(value))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ITERATION_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option.toLocaleString('hu-HU')} futás</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" disabled={running || !season} onClick={() => start(iterations)}>
+            {running ? 'Fut...' : 'Szimuláció'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!season && (
+          <p className="text-sm text-white/50">Szimulációhoz szezon szükséges</p>
+        )}
+
+        {running && row && (
+          <div className="space-y-1">
+            <Progress value={row.progress_percentage ?? 0} className="h-2" />
+            <div className="flex justify-between text-xs text-white/50">
+              <span>{row.processed_matches ?? 0} / {row.total_matches ?? 0} mérkőzés predikciója</span>
+              <span>{row.progress_percentage ?? 0}%</span>
+            </div>
+          </div>
+        )}
+
+        {(error || row?.status === 'failed') && (
+          <p className="text-sm text-destructive">{error ?? row?.error_message}</p>
+        )}
+
+        {results ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Csapat</TableHead>
+                  <TableHead className="text-right">Pont most</TableHead>
+                  <TableHead className="text-right">Várható pont</TableHead>
+                  <TableHead className="text-right">Tartomány (10–90%)</TableHead>
+                  <TableHead className="text-right">Várható hely</TableHead>
+                  <TableHead className="text-right">Bajnok</TableHead>
+                  <TableHead className="text-right">Top {results.top_n}</TableHead>
+                  <TableHead className="text-right">Kiesés</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.teams.map(team => (
+                  <TableRow key={team.team}>
+                    <TableCell className="font-medium"><TeamLink team={team.team} /></TableCell>
+                    <TableCell className="text-right">{team.current_points}</TableCell>
+                    <TableCell className="text-right font-semibold">{team.expected_points.toFixed(1)}</TableCell>
+                    <TableCell className="text-right text-white/60">{team.points_p10}–{team.points_p90}</TableCell>
+                    <TableCell className="text-right">{team.expected_position.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(team.title_probability)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(team.top_n_probability)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(team.relegation_probability)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-white/40">
+              {results.iterations.toLocaleString('hu-HU')} futás · {results.simulated_fixtures} hátralévő és{' '}
+              {results.played_matches} lejátszott mérkőzés
+              {row?.completed_at && ` · ${new Date(row.completed_at).toLocaleString('hu-HU')}`}
+            </p>
+          </>
+        ) : (
+          !running && season && (
+            <p className="text-sm text-white/50">Még nincs szimuláció ehhez a szezonhoz</p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeasonSimulationCard;
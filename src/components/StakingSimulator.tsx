@@ -0,0 +1,235 @@
+import { useMemo, useState } from "react";
+import { Maximize2, RefreshCw, Wallet } from "lucide-react";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useStakingSimulation } from "@/hooks/use-staking-simulation";
+import { CHART_COLORS, darkChartOptions } from "@/lib/chart-theme";
+import { DEFAULT_STAKING_OPTIONS, type StakingStrategy } from "@/services/staking-simulator";
+import ChartPanel from "./ChartPanel";
+import EmptyState from "./EmptyState";
+import LoadingSpinner from "./LoadingSpinner";
+import OddsImport from "./OddsImport";
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+const STRATEGY_LABELS: Record<StakingStrategy, string> = {
+  flat: 'Fix tét',
+  percentage: 'Fix százalék',
+  full_kelly: 'Teljes Kelly',
+  fractional_kelly: 'Tört Kelly',
+  confidence: 'Biztonsági küszöb'
+};
+
+const parseNumber = (value: string) => Number(value.replace(',', '.'));
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+const formatMoney = (value: number) => value.toLocaleString('hu-HU', { maximumFractionDigits: 2 });
+
+/**
+ * Tétstratégiák visszajátszása az elszámolt predikciókon: tőkegörbék és kockázati mutatók
+ */
+const StakingSimulator = () => {
+  const [bankroll, setBankroll] = useState(String(DEFAULT_STAKING_OPTIONS.starting_bankroll));
+  const [flatStake, setFlatStake] = useState(String(DEFAULT_STAKING_OPTIONS.flat_stake));
+  const [percentage, setPercentage] = useState(String(DEFAULT_STAKING_OPTIONS.stake_percentage * 100));
+  const [kellyFraction, setKellyFraction] = useState(String(DEFAULT_STAKING_OPTIONS.kelly_fraction));
+  const [threshold, setThreshold] = useState(String(DEFAULT_STAKING_OPTIONS.confidence_threshold * 100));
+  const [minEdge, setMinEdge] = useState(String(DEFAULT_STAKING_OPTIONS.min_edge * 100));
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const options = useMemo(() => ({
+    starting_bankroll: parseNumber(bankroll) || 0,
+    flat_stake: parseNumber(flatStake) || 0,
+    stake_percentage: (parseNumber(percentage) || 0) / 100,
+    kelly_fraction: parseNumber(kellyFraction),
+    confidence_threshold: (parseNumber(threshold) || 0) / 100,
+    min_edge: (parseNumber(minEdge) || 0) / 100
+  }), [bankroll, flatStake, percentage, kellyFraction, threshold, minEdge]);
+
+  const { history, records, results, loading, error, saveOdds, refetch } = useStakingSimulation(options);
+
+  if (loading) {
+    return (
+      <Card className="glass-card border-white/10">
+        <CardContent className="p-8 flex items-center justify-center">
+          <LoadingSpinner />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || history.length === 0) {
+    return (
+      <Card className="glass-card border-white/10">
+        <CardContent className="p-8">
+          <EmptyState
+            title="Nincs elszámolt predikció"
+            description={error ?? "A szimulációhoz lezárt mérkőzésekre, kezdés előtt készült predikciók szükségesek."}
+            action={{ label: "Újratöltés", onClick: refetch }}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const equityData = {
+    labels: ['Kezdés', ...records.map(r => new Date(r.match_time).toLocaleDateString('hu-HU'))],
+    datasets: results.map((result, i) => ({
+      label: STRATEGY_LABELS[result.strategy],
+      data: result.equity,
+      borderColor: CHART_COLORS[i],
+      backgroundColor: CHART_COLORS[i],
+      borderWidth: 2,
+      pointRadius: 0,
+      tension: 0.2,
+    }))
+  };
+
+  const numberInput = (label: string, value: string, onChange: (value: string) => void) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-white/60">{label}</Label>
+      <Input className="w-24" inputMode="decimal" value={value} onChange={e => onChange(e.target.value)} />
+    </div>
+  );
+
+  return (
+    <Card className="glass-card border-white/10">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg font-semibold tracking-tight flex items-center gap-2">
+            <Wallet className="size-5 text-white/70" />
+            Bankroll szimuláció
+          </CardTitle>
+          <p className="text-sm text-white/60 mt-1">
+            {records.length} / {history.length} elszámolt predikcióhoz van 1X2 szorzó
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <OddsImport fixtures={history.map(h => h.match)} onImported={saveOdds} />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsFullscreen(!isFullscreen)}
+            className="text-white/70 hover:text-white hover:bg-white/5"
+            aria-label="Teljes képernyő"
+          >
+            <Maximize2 className="size-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={refetch}
+            className="text-white/70 hover:text-white hover:bg-white/5"
+            aria-label="Adatok frissítése"
+          >
+            <RefreshCw className="size-4" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          {numberInput('Kezdő bankroll', bankroll, setBankroll)}
+          {numberInput('Fix tét', flatStake, setFlatStake)}
+          {numberInput('Százalék (%)', percentage, setPercentage)}
+          <div className="space-y-1">
+            <Label className="text-xs text-white/60">Tört Kelly</Label>
+            <Select value={kellyFraction} onValueChange={setKellyFraction}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0.5">Fél</SelectItem>
+                <SelectItem value="0.25">Negyed</SelectItem>
+                <SelectItem value="0.1">Tized</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {numberInput('Biztonság (%)', threshold, setThreshold)}
+          {numberInput('Min. előny (%)', minEdge, setMinEdge)}
+        </div>
+
+        {records.length === 0 ? (
+          <EmptyState
+            title="Nincsenek szorzók"
+            description="Adj meg szorzókat a mérkőzésekhez, vagy importálj egy CSV / JSON fájlt a lezárt mérkőzésekre."
+          />
+        ) : (
+          <>
+            <ChartPanel fullscreen={isFullscreen} onCloseFullscreen={() => setIsFullscreen(false)}>
+              <Line data={equityData} options={darkChartOptions()} />
+            </ChartPanel>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stratégia</TableHead>
+                  <TableHead className="text-right">Fogadások</TableHead>
+                  <TableHead className="text-right">Bankroll</TableHead>
+                  <TableHead className="text-right">ROI</TableHead>
+                  <TableHead className="text-right">Yield</TableHead>
+                  <TableHead className="text-right">Max. visszaesés</TableHead>
+                  <TableHead className="text-right">Vesztes sorozat</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(result => (
+                  <TableRow key={result.strategy}>
+                    <TableCell className="font-medium">
+                      {STRATEGY_LABELS[result.strategy]}
+                      {result.busted && <span className="ml-2 text-xs text-red-400">elfogyott</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {result.bets.length}
+                      <span className="text-white/50"> ({result.wins} nyert)</span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(result.final_bankroll)}</TableCell>
+                    <TableCell className={`text-right font-semibold ${result.roi >= 0 ? 'text-success' : 'text-red-400'}`}>
+                      {formatPercent(result.roi)}
+                    </TableCell>
+                    <TableCell className={`text-right ${result.yield >= 0 ? 'text-success' : 'text-red-400'}`}>
+                      {formatPercent(result.yield)}
+                    </TableCell>
+                    <TableCell className="text-right">{(result.max_drawdown * 100).toFixed(1)}%</TableCell>
+                    <TableCell className="text-right">{result.longest_losing_run}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StakingSimulator;
@@ -0,0 +1,23 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+
+interface TeamLinkProps {
+  team: string;
+  className?: string;
+  children?: ReactNode;
+}
+
+/**
+ * Hivatkozás a csapat profil oldalára
+ */
+const TeamLink = ({ team, className, children }: TeamLinkProps) => (
+  <Link
+    to={`/team/${encodeURIComponent(team)}`}
+    className={`hover:text-primary hover:underline underline-offset-4 transition-colors ${className ?? ''}`}
+    onClick={e => e.stopPropagation()}
+  >
+    {children ?? team}
+  </Link>
+);
+
+export default TeamLink;
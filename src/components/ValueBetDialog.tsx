@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { fixtureToPredictionInput } from "@/services/fixtures";
+import { predictionEngine } from "@/services/prediction-engine";
+import {
+  DEFAULT_VALUE_BET_OPTIONS,
+  findValueBets,
+  type FixtureOdds,
+  type MarginMethod,
+  type MarketOdds,
+  type OddsMarketType,
+} from "@/services/value-bets";
+import type { Match } from "@/lib/supabase";
+import type { PredictionOutput } from "@/types/prediction";
+
+interface ValueBetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fixture: Match;
+  odds?: FixtureOdds;
+  onSave: (odds: FixtureOdds) => void;
+}
+
+// Az űrlap piaconként egy vonalat szerkeszt; a többi (pl. importált) vonal változatlan marad
+const FORM_FIELDS: Array<{ market: OddsMarketType; title: string; selections: Array<{ key: string; label: string }>; line?: boolean }> = [
+  { market: 'match_result', title: '1X2', selections: [{ key: 'home', label: '1' }, { key: 'draw', label: 'X' }, { key: 'away', label: '2' }] },
+  { market: 'totals', title: 'Gólszám', line: true, selections: [{ key: 'over', label: 'Felett' }, { key: 'under', label: 'Alatt' }] },
+  { market: 'btts', title: 'Mindkét csapat gólja', selections: [{ key: 'yes', label: 'Igen' }, { key: 'no', label: 'Nem' }] },
+  { market: 'asian_handicap', title: 'Ázsiai hendikep (hazai)', line: true, selections: [{ key: 'home', label: 'Hazai' }, { key: 'away', label: 'Vendég' }] },
+  { market: 'draw_no_bet', title: 'Döntetlennél visszajár', selections: [{ key: 'home', label: 'Hazai' }, { key: 'away', label: 'Vendég' }] }
+];
+
+const SELECTION_LABELS: Record<string, string> = {
+  home: 'Hazai', draw: 'Döntetlen', away: 'Vendég', over: 'Felett', under: 'Alatt', yes: 'Igen', no: 'Nem'
+};
+
+const MARKET_LABELS: Record<OddsMarketType, string> = {
+  match_result: '1X2',
+  totals: 'Gólszám',
+  btts: 'BTTS',
+  draw_no_bet: 'DNB',
+  asian_handicap: 'Hendikep'
+};
+
+const DEFAULT_LINES: Partial<Record<OddsMarketType, string>> = { totals: '2.5', asian_handicap: '0' };
+
+type FormState = Record<string, string>;
+
+const fieldKey = (market: OddsMarketType, key: string) => `${market}.${key}`;
+
+const toForm = (markets: MarketOdds[]): FormState => {
+  const form: FormState = {};
+  FORM_FIELDS.forEach(field => {
+    const existing = markets.find(m => m.market === field.market);
+    if (field.line) form[fieldKey(field.market, 'line')] = existing?.line?.toString() ?? DEFAULT_LINES[field.market] ?? '';
+    field.selections.forEach(s => {
+      form[fieldKey(field.market, s.key)] = existing?.prices[s.key]?.toString() ?? '';
+    });
+  });
+  return form;
+};
+
+const parseNumber = (value: string | undefined) => Number((value ?? '').replace(',', '.'));
+
+const fromForm = (form: FormState, previous: MarketOdds[]): MarketOdds[] => {
+  const edited = FORM_FIELDS.flatMap(field => {
+    const prices = Object.fromEntries(
+      field.selections
+        .map(s => [s.key, parseNumber(form[fieldKey(field.market, s.key)])] as const)
+        .filter(([, price]) => price > 1)
+    );
+    if (Object.keys(prices).length === 0) return [];
+    const line = field.line ? parseNumber(form[fieldKey(field.market, 'line')]) : undefined;
+    if (field.line && Number.isNaN(line)) return [];
+    return [{ market: field.market, ...(line !== undefined && { line }), prices }];
+  });
+
+  const firstOfType = new Set(FORM_FIELDS.map(field => previous.find(m => m.market === field.market)));
+  const kept = previous.filter(m =>
+    !firstOfType.has(m) && !edited.some(e => e.market === m.market && e.line === m.line)
+  );
+  return [...edited, ...kept];
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Szorzók megadása egy mérkőzésre és value bet elemzés a motor valószínűségeivel
+ */
+const ValueBetDialog = ({ open, onOpenChange, fixture, odds, onSave }: ValueBetDialogProps) => {
+  const [form, setForm] = useState<FormState>(() => toForm(odds?.markets ?? []));
+  const [marginMethod, setMarginMethod] = useState<MarginMethod>(DEFAULT_VALUE_BET_OPTIONS.margin_method);
+  const [bankroll, setBankroll] = useState(String(DEFAULT_VALUE_BET_OPTIONS.bankroll));
+  const [kellyFraction, setKellyFraction] = useState(String(DEFAULT_VALUE_BET_OPTIONS.kelly_fraction));
+  const [prediction, setPrediction] = useState<PredictionOutput | null>(null);
+  const [predicting, setPredicting] = useState(false);
+  const [predictionError, setPredictionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(toForm(odds?.markets ?? []));
+  }, [open, fixture.id, odds?.markets]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    // Ha közben másik mérkőzés nyílik meg, a késve érkező választ eldobjuk
+    let cancelled = false;
+    setPrediction(null);
+    setPredictionError(null);
+    setPredicting(true);
+
+    predictionEngine.predict(fixtureToPredictionInput(fixture))
+      .then(result => {
+        if (!cancelled) setPrediction(result);
+      })
+      .catch(err => {
+        console.error('Value bet prediction error:', err);
+        if (!cancelled) setPredictionError(err instanceof Error ? err.message : 'Predikciós hiba történt');
+      })
+      .finally(() => {
+        if (!cancelled) setPredicting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, fixture]);
+
+  const markets = fromForm(form, odds?.markets ?? []);
+  const selections = prediction
+    ? findValueBets(prediction, markets, {
+        margin_method: marginMethod,
+        bankroll: parseNumber(bankroll) || 0,
+        kelly_fraction: parseNumber(kellyFraction)
+      })
+    : [];
+
+  const handleSave = () => {
+    onSave({
+      match_id: fixture.id,
+      home_team: fixture.home_team,
+      away_team: fixture.away_team,
+      markets,
+      updated_at: new Date().toISOString()
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto glass-card border-white/10">
+        <DialogHeader>
+          <DialogTitle>{fixture.home_team} – {fixture.away_team}: value bet elemzés</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {FORM_FIELDS.map(field => (
+            <div key={field.market} className="space-y-2 p-3 rounded bg-white/5 border border-white/10">
+              <div className="text-sm font-medium">{field.title}</div>
+              <div className="flex gap-2">
+                {field.line && (
+                  <div className="w-20 space-y-1">
+                    <Label className="text-xs text-white/60">Vonal</Label>
+                    <Input
+                      inputMode="decimal"
+                      value={form[fieldKey(field.market, 'line')]}
+                      onChange={e => setForm(prev => ({ ...prev, [fieldKey(field.market, 'line')]: e.target.value }))}
+                    />
+                  </div>
+                )}
+                {field.selections.map(s => (
+                  <div key={s.key} className="flex-1 space-y-1">
+                    <Label className="text-xs text-white/60">{s.label}</Label>
+                    <Input
+                      inputMode="decimal"
+                      placeholder="–"
+                      value={form[fieldKey(field.market, s.key)]}
+                      onChange={e => setForm(prev => ({ ...prev, [fieldKey(field.market, s.key)]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-white/60">Árrés eltávolítása</Label>
+            <Select value={marginMethod} onValueChange={value => setMarginMethod(value as MarginMethod)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="shin">Shin</SelectItem>
+                <SelectItem value="proportional">Arányos</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-white/60">Bankroll</Label>
+            <Input className="w-28" inputMode="decimal" value={bankroll} onChange={e => setBankroll(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-white/60">Kelly arány</Label>
+            <Select value={kellyFraction} onValueChange={setKellyFraction}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Teljes</SelectItem>
+                <SelectItem value="0.5">Fél</SelectItem>
+                <SelectItem value="0.25">Negyed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {predicting ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : predictionError ? (
+          <p className="text-sm text-red-400">{predictionError}</p>
+        ) : selections.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Piac</TableHead>
+                <TableHead className="text-right">Szorzó</TableHead>
+                <TableHead className="text-right">Árrés</TableHead>
+                <TableHead className="text-right">Piac</TableHead>
+                <TableHead className="text-right">Modell</TableHead>
+                <TableHead className="text-right">Előny</TableHead>
+                <TableHead className="text-right">Tét</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {selections.map(s => (
+                <TableRow key={`${s.market}-${s.line ?? ''}-${s.selection}`} className={s.is_value ? 'bg-success/5' : ''}>
+                  <TableCell>
+                    {MARKET_LABELS[s.market]}{s.line !== undefined && ` ${s.line}`} · {SELECTION_LABELS[s.selection]}
+                    {s.is_value && <Badge variant="outline" className="ml-2 text-success border-success/30">Value</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{s.odds.toFixed(2)}</TableCell>
+                  <TableCell className="text-right text-white/60">{formatPercent(s.bookmaker_margin)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(s.market_probability)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(s.model_probability)}</TableCell>
+                  <TableCell className={`text-right font-semibold ${s.edge > 0 ? 'text-success' : 'text-white/50'}`}>
+                    {s.edge > 0 ? '+' : ''}{formatPercent(s.edge)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {s.is_value ? `${s.suggested_stake.toFixed(2)} (${formatPercent(s.kelly_stake)})` : '–'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-white/50">
+            Adj meg egy piac összes kiválasztására szorzót az elemzéshez
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Mégse</Button>
+          <Button onClick={handleSave}>Szorzók mentése</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ValueBetDialog;
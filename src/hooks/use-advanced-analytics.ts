@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { supabase, type Match, type MatchFilters } from '@/lib/supabase'
+import { FINISHED_MATCH_FILTER } from '@/services/match-data-source'
 
 export interface AdvancedAnalytics {
   mostCommonResults: Array<{
@@ -71,6 +72,7 @@ export const useAdvancedAnalytics = (filters?: MatchFilters) => {
       let query = supabase
         .from('matches')
         .select('*')
+        .or(FINISHED_MATCH_FILTER)
         .order('match_time', { ascending: false })
         .limit(1000) // Limit for performance
 
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { predictionEngine } from '@/services/prediction-engine';
+import {
+  evaluateCalibrationHoldout,
+  loadCalibrationSamples,
+  MIN_CALIBRATION_SAMPLES,
+  type CalibrationModel
+} from '@/services/calibration';
+import { computePerformanceMetrics, reliabilityBins } from '@/services/performance-metrics';
+import { useToast } from '@/hooks/use-toast';
+import type { CalibrationMethod, PerformanceMetrics, ReliabilityBin } from '@/types/prediction';
+
+export interface CalibrationReport {
+  samples: number;
+  holdout_samples: number | null; // A mérőszámok ennyi legutóbbi mintán; a kalibrátor a korábbiakra illesztve
+  raw_bins: ReliabilityBin[];
+  calibrated_bins: ReliabilityBin[] | null;
+  raw_metrics: PerformanceMetrics;
+  calibrated_metrics: PerformanceMetrics | null;
+  model: CalibrationModel | null;
+}
+
+/**
+ * Reliability diagram adatok a kiértékelt predikciókból, kalibrálás előtt és után.
+ * Aktív kalibrációs modellnél annak módszerét a korábbi mintákra illesztjük, és a
+ * későbbi (holdout) mintákon hasonlítjuk össze, mint a backtestben.
+ */
+export const useCalibration = (window = 500) => {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refitting, setRefitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Időrendben, legrégebbi elöl
+      const samples = (await loadCalibrationSamples(window)).reverse();
+      const model = await predictionEngine.getCalibration();
+      const evaluation = model && samples.length >= 2 ? evaluateCalibrationHoldout(samples, model.method) : null;
+      const raw = evaluation ? evaluation.holdout : samples;
+
+      setReport({
+        samples: samples.length,
+        holdout_samples: evaluation ? evaluation.holdout.length : null,
+        raw_bins: reliabilityBins(raw),
+        calibrated_bins: evaluation ? reliabilityBins(evaluation.calibrated) : null,
+        raw_metrics: computePerformanceMetrics(raw),
+        calibrated_metrics: evaluation ? computePerformanceMetrics(evaluation.calibrated) : null,
+        model
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba a kalibrációs adatok betöltése során';
+      setError(errorMessage);
+      console.error('Calibration report error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [window]);
+
+  /**
+   * Kalibráció újraillesztése és mentése
+   */
+  const refit = async (method: CalibrationMethod) => {
+    try {
+      setRefitting(true);
+      const result = await predictionEngine.refreshCalibration(method);
+
+      toast({
+        title: result.model ? 'Kalibráció frissítve' : 'Kevés kiértékelt predikció',
+        description: result.model
+          ? `${result.samples_used} predikció alapján (${method})`
+          : `${result.samples_used} minta áll rendelkezésre, legalább ${MIN_CALIBRATION_SAMPLES} szükséges`,
+        variant: result.model ? 'default' : 'destructive'
+      });
+
+      await fetchReport();
+    } catch (err) {
+      toast({
+        title: 'Kalibrációs hiba',
+        description: err instanceof Error ? err.message : 'Ismeretlen hiba',
+        variant: 'destructive'
+      });
+    } finally {
+      setRefitting(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return {
+    report,
+    loading,
+    refitting,
+    error,
+    refetch: fetchReport,
+    refit
+  };
+};
@@ -14,14 +14,25 @@ const DEFAULT_WIDGETS: DashboardWidget[] = [
   { id: 'probability', component: 'ProbabilitySection', position: 1, visible: true, size: 'medium' },
   { id: 'charts', component: 'EnhancedChartSection', position: 2, visible: true, size: 'large' },
   { id: 'results', component: 'ResultsTable', position: 3, visible: true, size: 'large' },
+  { id: 'calibration', component: 'CalibrationChart', position: 4, visible: true, size: 'large' },
+  { id: 'staking', component: 'StakingSimulator', position: 5, visible: true, size: 'large' },
+];
+
+// Mentett elrendezés kiegészítése az azóta hozzáadott widgetekkel
+const withDefaultWidgets = (stored: DashboardWidget[]): DashboardWidget[] => [
+  ...stored,
+  ...DEFAULT_WIDGETS
+    .filter(widget => !stored.some(w => w.id === widget.id))
+    .map((widget, index) => ({ ...widget, position: stored.length + index }))
 ];
 
 export const useDashboardLayout = () => {
-  const [widgets, setWidgets] = useLocalStorage<DashboardWidget[]>('winmix-dashboard-layout', DEFAULT_WIDGETS);
+  const [storedWidgets, setWidgets] = useLocalStorage<DashboardWidget[]>('winmix-dashboard-layout', DEFAULT_WIDGETS);
+  const widgets = withDefaultWidgets(storedWidgets);
 
   const updateWidgetPosition = useCallback((draggedId: string, targetPosition: number) => {
     setWidgets(prev => {
-      const newWidgets = [...prev];
+      const newWidgets = withDefaultWidgets(prev);
       const draggedIndex = newWidgets.findIndex(w => w.id === draggedId);
       const draggedWidget = newWidgets[draggedIndex];
       
@@ -41,7 +52,7 @@ export const useDashboardLayout = () => {
 
   const toggleWidgetVisibility = useCallback((id: string) => {
     setWidgets(prev => 
-      prev.map(widget => 
+      withDefaultWidgets(prev).map(widget => 
         widget.id === id 
           ? { ...widget, visible: !widget.visible }
           : widget
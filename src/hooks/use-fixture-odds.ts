@@ -0,0 +1,31 @@
+import { useCallback } from 'react';
+import { useLocalStorage } from './use-local-storage';
+import type { FixtureOdds } from '@/services/value-bets';
+
+/**
+ * Mérkőzésenként megadott vagy importált szorzók, mérkőzés azonosító szerint
+ */
+export const useFixtureOdds = () => {
+  const [odds, setOdds] = useLocalStorage<Record<number, FixtureOdds>>('winmix-fixture-odds', {});
+
+  const saveOdds = useCallback((entries: FixtureOdds[]) => {
+    setOdds(prev => ({
+      ...prev,
+      ...Object.fromEntries(entries.map(entry => [entry.match_id, entry]))
+    }));
+  }, [setOdds]);
+
+  const removeOdds = useCallback((matchId: number) => {
+    setOdds(prev => {
+      const next = { ...prev };
+      delete next[matchId];
+      return next;
+    });
+  }, [setOdds]);
+
+  return {
+    odds,
+    saveOdds,
+    removeOdds
+  };
+};
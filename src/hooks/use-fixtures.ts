@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { usePrediction } from '@/hooks/use-prediction';
+import { fixtureToPredictionInput, loadUpcomingFixtures, type FixtureFilters } from '@/services/fixtures';
+import { loadLatestPredictions, type StoredPredictionSummary } from '@/services/prediction-store';
+import type { Match } from '@/lib/supabase';
+
+const MAX_FIXTURES = 300;
+
+/**
+ * Ütemezett mérkőzések a legutóbbi mentett predikcióval, egyenkénti frissítéssel
+ */
+export const useFixtures = (filters: FixtureFilters) => {
+  const [fixtures, setFixtures] = useState<Match[]>([]);
+  const [predictions, setPredictions] = useState<Map<number, StoredPredictionSummary>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [refreshingId, setRefreshingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { predictMatch } = usePrediction();
+
+  const { league, date_from, date_to } = filters;
+
+  const fetchFixtures = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const upcoming = await loadUpcomingFixtures({ league, date_from, date_to, limit: MAX_FIXTURES });
+      setFixtures(upcoming);
+      setPredictions(await loadLatestPredictions(upcoming.map(f => f.id)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba a mérkőzések betöltése során';
+      setError(errorMessage);
+      console.error('Fixtures error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [league, date_from, date_to]);
+
+  /**
+   * Predikció újraszámolása egy mérkőzésre a predikciós motorral
+   */
+  const refreshPrediction = async (fixture: Match) => {
+    setRefreshingId(fixture.id);
+    const output = await predictMatch(fixtureToPredictionInput(fixture));
+    setRefreshingId(null);
+    if (!output) return;
+
+    setPredictions(prev => new Map(prev).set(fixture.id, {
+      prediction_id: output.prediction_metadata.prediction_id ?? null,
+      match_id: fixture.id,
+      home_win_probability: output.predictions.home_win_probability,
+      draw_probability: output.predictions.draw_probability,
+      away_win_probability: output.predictions.away_win_probability,
+      confidence_score: output.predictions.confidence_score,
+      model_version: output.prediction_metadata.model_version,
+      predicted_at: output.prediction_metadata.prediction_timestamp,
+      expires_at: null
+    }));
+  };
+
+  useEffect(() => {
+    fetchFixtures();
+  }, [fetchFixtures]);
+
+  return {
+    fixtures,
+    predictions,
+    loading,
+    refreshingId,
+    error,
+    refetch: fetchFixtures,
+    refreshPrediction
+  };
+};
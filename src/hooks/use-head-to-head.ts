@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadHeadToHeadComparison, type HeadToHeadComparison } from '@/services/head-to-head';
+
+/**
+ * Két csapat egymás elleni összevetésének betöltése
+ */
+export const useHeadToHead = (teamA: string | undefined, teamB: string | undefined) => {
+  const [comparison, setComparison] = useState<HeadToHeadComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchComparison = useCallback(async () => {
+    if (!teamA || !teamB) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setComparison(await loadHeadToHeadComparison(teamA, teamB));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba az egymás elleni adatok betöltése során';
+      setError(errorMessage);
+      console.error('Head-to-head error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamA, teamB]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [fetchComparison]);
+
+  return {
+    comparison,
+    loading,
+    error,
+    refetch: fetchComparison
+  };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadLeagueStandings, type LeagueStandings } from '@/services/standings';
+
+/**
+ * Liga tabella, formatabella és helyezés-történet betöltése
+ */
+export const useLeagueStandings = (leagueId: number | undefined, season?: string) => {
+  const [standings, setStandings] = useState<LeagueStandings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStandings = useCallback(async () => {
+    if (leagueId === undefined || Number.isNaN(leagueId)) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setStandings(await loadLeagueStandings(leagueId, season));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba a tabella betöltése során';
+      setError(errorMessage);
+      console.error('Standings error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [leagueId, season]);
+
+  useEffect(() => {
+    fetchStandings();
+  }, [fetchStandings]);
+
+  return {
+    standings,
+    loading,
+    error,
+    refetch: fetchStandings
+  };
+};
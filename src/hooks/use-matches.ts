@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { supabase, type Match, type MatchFilters, type MatchStats } from '@/lib/supabase'
 import { useToast } from '@/hooks/use-toast'
+import { FINISHED_MATCH_FILTER } from '@/services/match-data-source'
 
 export const useMatches = (filters: MatchFilters = {}, page: number = 1, pageSize: number = 50) => {
   const [matches, setMatches] = useState<Match[]>([])
@@ -20,6 +21,7 @@ export const useMatches = (filters: MatchFilters = {}, page: number = 1, pageSiz
       let countQuery = supabase
         .from('matches')
         .select('*', { count: 'exact', head: true })
+        .or(FINISHED_MATCH_FILTER)
 
       // Apply same filters to count query
       if (filters.home_team) {
@@ -54,6 +56,7 @@ export const useMatches = (filters: MatchFilters = {}, page: number = 1, pageSiz
       let query = supabase
         .from('matches')
         .select('*')
+        .or(FINISHED_MATCH_FILTER)
         .order('match_time', { ascending: false })
         .range((page - 1) * pageSize, page * pageSize - 1)
 
@@ -88,6 +91,7 @@ export const useMatches = (filters: MatchFilters = {}, page: number = 1, pageSiz
         let statsQuery = supabase
           .from('matches')
           .select('*')
+          .or(FINISHED_MATCH_FILTER)
 
         // Apply same filters for stats
         if (filters.home_team) {
@@ -161,16 +165,20 @@ export const useMatches = (filters: MatchFilters = {}, page: number = 1, pageSiz
     }
   }
 
-  const fetchTeams = async (): Promise<string[]> => {
+  // Csak lejátszott meccsel rendelkező csapatok; az importált ütemezett meccsek csapatai nélkül
+  // Állapotot nem használ, így stabil referencia; effekt függőségként is megadható
+  const fetchTeams = useCallback(async (): Promise<string[]> => {
     try {
       const { data: homeTeams } = await supabase
         .from('matches')
         .select('home_team')
+        .or(FINISHED_MATCH_FILTER)
         .order('home_team')
 
       const { data: awayTeams } = await supabase
         .from('matches')
         .select('away_team')
+        .or(FINISHED_MATCH_FILTER)
         .order('away_team')
 
       const allTeams = new Set<string>()
@@ -183,7 +191,7 @@ export const useMatches = (filters: MatchFilters = {}, page: number = 1, pageSiz
       console.error('Error fetching teams:', error)
       return []
     }
-  }
+  }, [])
 
   useEffect(() => {
     fetchMatches()
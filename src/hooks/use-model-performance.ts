@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  loadAccuracyStats,
+  loadEvaluatedAnalysis,
+  loadStoredModelPerformance,
+  type EvaluatedAnalysisRow,
+  type ModelPerformanceFilters
+} from '@/services/model-performance';
+
+type AccuracyStats = Awaited<ReturnType<typeof loadAccuracyStats>>;
+type StoredModelPerformance = Awaited<ReturnType<typeof loadStoredModelPerformance>>;
+
+/**
+ * Modell teljesítmény adatok a szűrőkhöz: kiértékelt predikciók,
+ * RPC összesítés és a model_performance tábla legfrissebb sorai
+ */
+export const useModelPerformance = (filters: ModelPerformanceFilters) => {
+  const [rows, setRows] = useState<EvaluatedAnalysisRow[]>([]);
+  const [accuracyStats, setAccuracyStats] = useState<AccuracyStats>([]);
+  const [storedPerformance, setStoredPerformance] = useState<StoredModelPerformance>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { date_from, date_to, model_type } = filters;
+
+  const fetchPerformance = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const current = { date_from, date_to, model_type };
+      const [analysis, stats, stored] = await Promise.all([
+        loadEvaluatedAnalysis(current),
+        loadAccuracyStats(current),
+        loadStoredModelPerformance(current)
+      ]);
+
+      setRows(analysis);
+      setAccuracyStats(stats);
+      setStoredPerformance(stored);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba a modell teljesítmény betöltése során';
+      setError(errorMessage);
+      console.error('Model performance error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [date_from, date_to, model_type]);
+
+  useEffect(() => {
+    fetchPerformance();
+  }, [fetchPerformance]);
+
+  return {
+    rows,
+    accuracyStats,
+    storedPerformance,
+    loading,
+    error,
+    refetch: fetchPerformance
+  };
+};
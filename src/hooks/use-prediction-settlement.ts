@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { settlePredictions, type SettlementResult } from '@/services/prediction-settlement';
+import { refreshModelPerformance } from '@/services/model-performance';
+import { predictionEngine } from '@/services/prediction-engine';
+
+const LAST_RUN_KEY = 'winmix-last-settlement';
+const SETTLEMENT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Predikciók automatikus elszámolása: betöltéskor legfeljebb óránként egyszer fut,
+ * új elszámolás után a model_performance tábla és az ensemble súlyok is frissülnek
+ */
+export const usePredictionSettlement = () => {
+  const [result, setResult] = useState<SettlementResult | null>(null);
+  const [settling, setSettling] = useState(false);
+
+  const settleNow = useCallback(async () => {
+    try {
+      setSettling(true);
+      const settlement = await settlePredictions();
+      if (settlement.settled > 0) {
+        await refreshModelPerformance();
+        await predictionEngine.refreshEnsembleWeights();
+      }
+      window.localStorage.setItem(LAST_RUN_KEY, new Date().toISOString());
+      setResult(settlement);
+      return settlement;
+    } catch (err) {
+      console.error('Prediction settlement error:', err);
+      return null;
+    } finally {
+      setSettling(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const lastRun = window.localStorage.getItem(LAST_RUN_KEY);
+    if (!lastRun || Date.now() - new Date(lastRun).getTime() > SETTLEMENT_INTERVAL_MS) {
+      settleNow();
+    }
+  }, [settleNow]);
+
+  return {
+    result,
+    settling,
+    settleNow
+  };
+};
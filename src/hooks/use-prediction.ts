@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { predictionEngine } from '@/services/prediction-engine';
 import { useToast } from '@/hooks/use-toast';
+import { fixtureToPredictionInput, loadUpcomingFixtures, type FixtureFilters } from '@/services/fixtures';
+import type { Match } from '@/lib/supabase';
 import type { PredictionInput, PredictionOutput } from '@/types/prediction';
 
 /**
@@ -56,9 +58,7 @@ export function usePrediction() {
       setIsLoading(true);
       setError(null);
       
-      const results = await Promise.all(
-        inputs.map(input => predictionEngine.predict(input))
-      );
+      const results = await predictionEngine.predictBatch(inputs);
       
       toast({
         title: "Batch predikció kész",
@@ -200,33 +200,30 @@ export function usePrediction() {
   };
 }
 
+export interface UpcomingPrediction {
+  fixture: Match;
+  prediction: PredictionOutput;
+}
+
 /**
- * Predefined mérkőzések hook
+ * Közelgő mérkőzések predikciója az ütemezett `matches` sorokból
  */
 export function usePredefinedPredictions() {
   const { predictBatch } = usePrediction();
   
-  const getUpcomingMatches = (): PredictionInput[] => {
-    // Ez később valós adatforrásból jönne (pl. API, scraping)
-    return [
-      { home_team: "Real Madrid", away_team: "Barcelona" },
-      { home_team: "Manchester United", away_team: "Liverpool" },
-      { home_team: "Bayern Munich", away_team: "Borussia Dortmund" },
-      { home_team: "Juventus", away_team: "Inter Milan" },
-      { home_team: "Paris Saint-Germain", away_team: "Olympique Marseille" },
-      { home_team: "Arsenal", away_team: "Chelsea" },
-      { home_team: "Atletico Madrid", away_team: "Valencia" },
-      { home_team: "AC Milan", away_team: "AS Roma" }
-    ];
-  };
+  const getUpcomingMatches = (filters: FixtureFilters = {}): Promise<Match[]> =>
+    loadUpcomingFixtures(filters);
 
-  const predictUpcomingMatches = async () => {
-    const upcomingMatches = getUpcomingMatches();
-    return predictBatch(upcomingMatches);
+  const predictUpcomingMatches = async (filters: FixtureFilters = {}): Promise<UpcomingPrediction[]> => {
+    const fixtures = await getUpcomingMatches(filters);
+    if (fixtures.length === 0) return [];
+
+    const predictions = await predictBatch(fixtures.map(fixtureToPredictionInput));
+    return predictions.map((prediction, index) => ({ fixture: fixtures[index], prediction }));
   };
 
   return {
     getUpcomingMatches,
     predictUpcomingMatches
   };
-}
\ No newline at end of file
+}
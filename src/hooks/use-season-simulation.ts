@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  loadLatestSeasonPrediction,
+  runSeasonSimulation,
+  seasonPredictionResults,
+  type SeasonPredictionRow
+} from '@/services/season-simulator';
+
+const POLL_INTERVAL_MS = 2000;
+const STALE_RUN_MS = 30 * 60 * 1000;     // Ennél régebbi 'running' sor megszakadt futásnak számít
+
+const isActiveRun = (row: SeasonPredictionRow | null) =>
+  row?.status === 'running' &&
+  (!row.started_at || Date.now() - new Date(row.started_at).getTime() < STALE_RUN_MS);
+
+/**
+ * Szezon szimuláció indítása és haladásának követése a season_predictions táblából
+ */
+export const useSeasonSimulation = (leagueId: number | undefined, league: string | undefined, season: string | null | undefined) => {
+  const [row, setRow] = useState<SeasonPredictionRow | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchLatest = useCallback(async () => {
+    if (!league || !season) return;
+
+    try {
+      setError(null);
+      setRow(await loadLatestSeasonPrediction(league, season));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba a szimuláció betöltése során';
+      setError(errorMessage);
+      console.error('Season simulation error:', err);
+    }
+  }, [league, season]);
+
+  useEffect(() => {
+    setRow(null);
+    fetchLatest();
+  }, [fetchLatest]);
+
+  // Máshol (pl. másik lapon) indított futás haladása
+  useEffect(() => {
+    if (running || !isActiveRun(row)) return;
+    const timer = setInterval(fetchLatest, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [running, row, fetchLatest]);
+
+  const start = async (iterations?: number) => {
+    if (leagueId === undefined || !league || !season) return;
+
+    try {
+      setRunning(true);
+      setError(null);
+      await runSeasonSimulation({ league_id: leagueId, league, season, iterations, onProgress: setRow });
+      toast({
+        title: "Szimuláció kész",
+        description: `${league} ${season} szezon szimulációja befejeződött`,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Szimulációs hiba történt';
+      setError(errorMessage);
+      toast({
+        title: "Szimulációs hiba",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return {
+    row,
+    results: seasonPredictionResults(row),
+    running: running || isActiveRun(row),
+    error,
+    start,
+    refetch: fetchLatest
+  };
+};
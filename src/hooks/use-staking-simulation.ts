@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useFixtureOdds } from './use-fixture-odds';
+import {
+  buildStakingRecords,
+  loadHistoricalPredictions,
+  simulateStaking,
+  STAKING_STRATEGIES,
+  type HistoricalPrediction,
+  type StakingOptions
+} from '@/services/staking-simulator';
+
+/**
+ * Elszámolt predikciók betöltése és a tétstratégiák szimulációja a mentett szorzókkal
+ */
+export const useStakingSimulation = (options: StakingOptions) => {
+  const [history, setHistory] = useState<HistoricalPrediction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { odds, saveOdds } = useFixtureOdds();
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setHistory(await loadHistoricalPredictions());
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba a predikciós előzmények betöltése során';
+      setError(errorMessage);
+      console.error('Staking history error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const records = useMemo(() => buildStakingRecords(history, odds), [history, odds]);
+  const results = useMemo(
+    () => STAKING_STRATEGIES.map(strategy => simulateStaking(records, strategy, options)),
+    [records, options]
+  );
+
+  return {
+    history,
+    records,
+    results,
+    loading,
+    error,
+    saveOdds,
+    refetch: fetchHistory
+  };
+};
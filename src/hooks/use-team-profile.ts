@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadTeamProfile, type TeamProfile } from '@/services/team-profile';
+
+/**
+ * Csapat profil adatok betöltése a csapatnév alapján
+ */
+export const useTeamProfile = (teamName: string | undefined, recentCount = 10) => {
+  const [profile, setProfile] = useState<TeamProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = useCallback(async () => {
+    if (!teamName) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setProfile(await loadTeamProfile(teamName, recentCount));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba a csapat adatainak betöltése során';
+      setError(errorMessage);
+      console.error('Team profile error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamName, recentCount]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  return {
+    profile,
+    loading,
+    error,
+    refetch: fetchProfile
+  };
+};
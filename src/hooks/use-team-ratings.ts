@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadTeamRatings, type RatingSystem, type TeamRating } from '@/services/team-ratings';
+
+/**
+ * Csapatok értékszám-történetének betöltése a választott rendszerben
+ */
+export const useTeamRatings = (teams: string[], system: RatingSystem) => {
+  const [ratings, setRatings] = useState<TeamRating[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Stabil függőség a csapatlistához
+  const teamKey = teams.join('\n');
+
+  const fetchRatings = useCallback(async () => {
+    const teamList = teamKey ? teamKey.split('\n') : [];
+    if (teamList.length === 0) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setRatings(await loadTeamRatings(teamList, system));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Hiba az értékszámok betöltése során';
+      setError(errorMessage);
+      console.error('Team ratings error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamKey, system]);
+
+  useEffect(() => {
+    fetchRatings();
+  }, [fetchRatings]);
+
+  return {
+    ratings,
+    loading,
+    error,
+    refetch: fetchRatings
+  };
+};
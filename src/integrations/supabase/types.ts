@@ -446,6 +446,7 @@ export type Database = {
           probability_accuracy: number | null
           resilience_factor_away: number | null
           resilience_factor_home: number | null
+          unmatched_at: string | null
           updated_at: string
         }
         Insert: {
@@ -479,6 +480,7 @@ export type Database = {
           probability_accuracy?: number | null
           resilience_factor_away?: number | null
           resilience_factor_home?: number | null
+          unmatched_at?: string | null
           updated_at?: string
         }
         Update: {
@@ -512,6 +514,7 @@ export type Database = {
           probability_accuracy?: number | null
           resilience_factor_away?: number | null
           resilience_factor_home?: number | null
+          unmatched_at?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -860,6 +863,18 @@ export type Database = {
       }
     }
     Functions: {
+      activate_team_model: {
+        Args: {
+          p_accuracy?: number
+          p_last_trained?: string
+          p_model_data: Json
+          p_model_type: string
+          p_team_name: string
+          p_training_matches?: number
+          p_version?: string
+        }
+        Returns: string
+      }
       calculate_all_features_batch: {
         Args:
           | {
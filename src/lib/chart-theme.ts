@@ -0,0 +1,64 @@
+/**
+ * Közös Chart.js megjelenés a sötét témájú grafikonokhoz
+ */
+
+export const CHART_COLORS = [
+  'hsl(262, 83%, 58%)',
+  'hsl(158, 64%, 52%)',
+  'hsl(43, 96%, 56%)',
+  'hsl(213, 94%, 68%)',
+  'hsl(316, 73%, 52%)',
+  'hsl(198, 93%, 60%)',
+  'hsl(24, 95%, 53%)',
+  'hsl(295, 72%, 61%)',
+];
+
+const axis = {
+  ticks: {
+    color: 'rgba(255,255,255,0.6)',
+  },
+  grid: {
+    color: 'rgba(255,255,255,0.08)',
+    drawBorder: false
+  }
+};
+
+/**
+ * Alap beállítások: jelmagyarázat, tooltip és (ha kell) x / y tengely
+ */
+export const darkChartOptions = (withScales = true) => ({
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      display: true,
+      position: 'top' as const,
+      labels: {
+        color: 'rgba(255,255,255,0.8)',
+        usePointStyle: true,
+        padding: 20,
+      }
+    },
+    tooltip: {
+      backgroundColor: 'rgba(17,17,22,0.95)',
+      borderColor: 'rgba(255,255,255,0.1)',
+      borderWidth: 1,
+      titleColor: '#fff',
+      bodyColor: '#fff',
+      cornerRadius: 8,
+    }
+  },
+  scales: withScales ? {
+    x: {
+      ...axis,
+      ticks: { ...axis.ticks, maxTicksLimit: 8 }
+    },
+    y: {
+      ...axis,
+      type: 'linear' as const,
+      display: true,
+      position: 'left' as const,
+      ticks: { ...axis.ticks, maxTicksLimit: 6 }
+    }
+  } : undefined
+});
@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { addDays, endOfDay, format, isSameDay, startOfDay } from "date-fns";
+import { hu } from "date-fns/locale";
+import type { DateRange } from "react-day-picker";
+import { CalendarDays, RefreshCw, Clock, Coins } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DateRangePicker } from "@/components/ui/date-range-picker";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import PageLayout from "@/components/PageLayout";
+import FixtureImport from "@/components/FixtureImport";
+import OddsImport from "@/components/OddsImport";
+import ValueBetDialog from "@/components/ValueBetDialog";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import EmptyState from "@/components/EmptyState";
+import { useFixtures } from "@/hooks/use-fixtures";
+import { useFixtureOdds } from "@/hooks/use-fixture-odds";
+import { loadFixtureLeagues } from "@/services/fixtures";
+import type { Match } from "@/lib/supabase";
+import type { StoredPredictionSummary } from "@/services/prediction-store";
+import type { FixtureOdds } from "@/services/value-bets";
+
+const ALL_LEAGUES = 'ALL';
+const DEFAULT_WINDOW_DAYS = 14;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const FixtureCard = ({
+  fixture,
+  prediction,
+  odds,
+  refreshing,
+  onRefresh,
+  onOpenOdds
+}: {
+  fixture: Match;
+  prediction?: StoredPredictionSummary;
+  odds?: FixtureOdds;
+  refreshing: boolean;
+  onRefresh: () => void;
+  onOpenOdds: () => void;
+}) => {
+  const expired = prediction?.expires_at ? new Date(prediction.expires_at).getTime() < Date.now() : false;
+
+  return (
+    <Card className="glass-card border-white/10 hover:border-white/20 transition-all">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="font-semibold truncate">{fixture.home_team} – {fixture.away_team}</div>
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Clock className="size-3" />
+              {format(new Date(fixture.match_time), "HH:mm")} · {fixture.league}
+            </div>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button variant="outline" size="sm" className="winmix-btn-glass" onClick={onOpenOdds}>
+              <Coins className="size-4 mr-2" />
+              {odds ? `Szorzók (${odds.markets.length})` : 'Szorzók'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="winmix-btn-glass"
+              disabled={refreshing}
+              onClick={onRefresh}
+            >
+              <RefreshCw className={`size-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+              {prediction ? 'Frissítés' : 'Predikció'}
+            </Button>
+          </div>
+        </div>
+
+        {prediction ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              {[
+                { label: 'Hazai', value: prediction.home_win_probability },
+                { label: 'Döntetlen', value: prediction.draw_probability },
+                { label: 'Vendég', value: prediction.away_win_probability }
+              ].map(outcome => (
+                <div key={outcome.label} className="p-2 rounded bg-white/5 border border-white/10">
+                  <div className="text-xs text-white/60">{outcome.label}</div>
+                  <div className="font-bold">{formatPercent(outcome.value)}</div>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              {prediction.confidence_score !== null && (
+                <span>Bizalom: {formatPercent(prediction.confidence_score)}</span>
+              )}
+              {prediction.predicted_at && (
+                <span>· {format(new Date(prediction.predicted_at), "MMM d. HH:mm", { locale: hu })}</span>
+              )}
+              {prediction.model_version && <span>· {prediction.model_version}</span>}
+              {expired && (
+                <Badge variant="outline" className="text-warning border-warning/30">Elavult</Badge>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm text-white/60">Nincs mentett predikció</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Fixtures = () => {
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: new Date(),
+    to: addDays(new Date(), DEFAULT_WINDOW_DAYS)
+  }));
+  const [league, setLeague] = useState(ALL_LEAGUES);
+  const [leagues, setLeagues] = useState<string[]>([]);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [oddsFixture, setOddsFixture] = useState<Match | null>(null);
+  const { odds, saveOdds } = useFixtureOdds();
+
+  const { fixtures, predictions, loading, refreshingId, error, refetch, refreshPrediction } = useFixtures({
+    league: league === ALL_LEAGUES ? undefined : league,
+    date_from: range?.from ? startOfDay(range.from).toISOString() : undefined,
+    date_to: range?.to ? endOfDay(range.to).toISOString() : range?.from ? endOfDay(range.from).toISOString() : undefined
+  });
+
+  useEffect(() => {
+    loadFixtureLeagues().then(setLeagues).catch(err => console.error('Failed to load leagues:', err));
+  }, []);
+
+  const fixtureDays = fixtures.map(f => new Date(f.match_time));
+  const visible = selectedDay
+    ? fixtures.filter(f => isSameDay(new Date(f.match_time), selectedDay))
+    : fixtures;
+
+  // Napok szerinti csoportosítás, a lekérdezés már időrendben adja vissza
+  const byDay = visible.reduce<Array<{ day: string; fixtures: Match[] }>>((groups, fixture) => {
+    const day = format(new Date(fixture.match_time), "yyyy-MM-dd");
+    const last = groups[groups.length - 1];
+    if (last?.day === day) last.fixtures.push(fixture);
+    else groups.push({ day, fixtures: [fixture] });
+    return groups;
+  }, []);
+
+  return (
+    <PageLayout>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">Mérkőzésnaptár</h1>
+          <p className="text-muted-foreground mt-2">
+            Ütemezett mérkőzések napokra bontva, a legutóbbi mentett predikcióval
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <DateRangePicker value={range} onChange={setRange} className="w-64" />
+          <Select value={league} onValueChange={setLeague}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_LEAGUES}>Összes liga</SelectItem>
+              {leagues.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FixtureImport onImported={refetch} />
+          <OddsImport fixtures={fixtures} onImported={saveOdds} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-6 items-start">
+        <Card className="glass-card border-white/10">
+          <CardHeader className="pb-0">
+            <CardTitle className="text-lg font-semibold tracking-tight flex items-center gap-2">
+              <CalendarDays className="size-5 text-white/70" />
+              Naptár
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-2">
+            <Calendar
+              mode="single"
+              locale={hu}
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              defaultMonth={range?.from}
+              modifiers={{ hasFixture: fixtureDays }}
+              modifiersClassNames={{ hasFixture: "font-bold text-primary underline underline-offset-4" }}
+            />
+            {selectedDay && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => setSelectedDay(undefined)}>
+                Összes nap mutatása
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-8">
+          {loading ? (
+            <div className="flex justify-center py-24">
+              <LoadingSpinner />
+            </div>
+          ) : error || byDay.length === 0 ? (
+            <EmptyState
+              title="Nincs ütemezett mérkőzés"
+              description={error ?? "A kiválasztott időszakban nincs mérkőzés. Importálj mérkőzéseket CSV vagy JSON fájlból."}
+              action={{ label: "Újratöltés", onClick: refetch }}
+            />
+          ) : (
+            byDay.map(group => (
+              <section key={group.day} className="space-y-3">
+                <h2 className="text-sm font-medium uppercase tracking-wider text-white/60">
+                  {format(new Date(group.fixtures[0].match_time), "yyyy. MMMM d., EEEE", { locale: hu })}
+                  <span className="ml-2 text-white/40">({group.fixtures.length})</span>
+                </h2>
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                  {group.fixtures.map(fixture => (
+                    <FixtureCard
+                      key={fixture.id}
+                      fixture={fixture}
+                      prediction={predictions.get(fixture.id)}
+                      odds={odds[fixture.id]}
+                      refreshing={refreshingId === fixture.id}
+                      onRefresh={() => refreshPrediction(fixture)}
+                      onOpenOdds={() => setOddsFixture(fixture)}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))
+          )}
+        </div>
+      </div>
+
+      {oddsFixture && (
+        <ValueBetDialog
+          open={oddsFixture !== null}
+          onOpenChange={open => !open && setOddsFixture(null)}
+          fixture={oddsFixture}
+          odds={odds[oddsFixture.id]}
+          onSave={entry => saveOdds([entry])}
+        />
+      )}
+    </PageLayout>
+  );
+};
+
+export default Fixtures;
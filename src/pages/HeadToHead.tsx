@@ -0,0 +1,314 @@
+import { Fragment, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeftRight, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PageLayout from "@/components/PageLayout";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import EmptyState from "@/components/EmptyState";
+import TeamLink from "@/components/TeamLink";
+import RatingChart from "@/components/RatingChart";
+import { useHeadToHead } from "@/hooks/use-head-to-head";
+import { usePrediction } from "@/hooks/use-prediction";
+import { formatMomentum, formFeatureStreak, type SplitStats } from "@/services/team-profile";
+import type { TeamFeatures } from "@/types/prediction";
+
+const RESULT_STYLES = {
+  W: 'bg-success/20 text-success border-success/30',
+  D: 'bg-warning/20 text-warning border-warning/30',
+  L: 'bg-destructive/20 text-destructive border-destructive/30'
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const averageForm = (form: number[]) =>
+  form.length > 0 ? form.reduce((sum, value) => sum + value, 0) / form.length : 0;
+
+const FEATURE_ROWS: Array<{ label: string; value: (features: TeamFeatures) => string }> = [
+  { label: 'Forma (utolsó meccsek)', value: f => formatPercent(averageForm(f.form_features.recent_form_overall)) },
+  { label: 'Aktuális sorozat', value: f => formFeatureStreak(f.form_features) },
+  { label: 'Lendület', value: f => formatMomentum(f.form_features.momentum_score) },
+  { label: 'Lőtt gól otthon', value: f => f.goal_features.avg_goals_scored_home.toFixed(2) },
+  { label: 'Kapott gól otthon', value: f => f.goal_features.avg_goals_conceded_home.toFixed(2) },
+  { label: 'Lőtt gól idegenben', value: f => f.goal_features.avg_goals_scored_away.toFixed(2) },
+  { label: 'Kapott gól idegenben', value: f => f.goal_features.avg_goals_conceded_away.toFixed(2) },
+  { label: 'BTTS otthon / idegenben', value: f => `${Math.round(f.goal_features.btts_percentage_home)}% / ${Math.round(f.goal_features.btts_percentage_away)}%` },
+  { label: 'Kapott gól nélkül otthon / idegenben', value: f => `${Math.round(f.goal_features.clean_sheet_percentage_home)}% / ${Math.round(f.goal_features.clean_sheet_percentage_away)}%` },
+  { label: 'Fordítási arány', value: f => `${Math.round(f.goal_features.comeback_ability)}%` },
+  { label: 'Félidei előny megtartása', value: f => `${Math.round(f.goal_features.lead_holding)}%` },
+  { label: 'Hazai / vendég győzelem', value: f => `${Math.round(f.historical_features.home_win_percentage)}% / ${Math.round(f.historical_features.away_win_percentage)}%` }
+];
+
+const SplitRow = ({ label, stats }: { label: string; stats: SplitStats }) => (
+  <TableRow>
+    <TableCell className="font-medium">{label}</TableCell>
+    <TableCell className="text-right">{stats.matches}</TableCell>
+    <TableCell className="text-right">{stats.wins}-{stats.draws}-{stats.losses}</TableCell>
+    <TableCell className="text-right">{stats.goals_for}:{stats.goals_against}</TableCell>
+    <TableCell className="text-right">
+      {stats.matches > 0 ? ((stats.goals_for + stats.goals_against) / stats.matches).toFixed(2) : '–'}
+    </TableCell>
+    <TableCell className="text-right">{formatPercent(stats.btts_rate)}</TableCell>
+  </TableRow>
+);
+
+const HeadToHead = () => {
+  const params = useParams<{ teamA: string; teamB: string }>();
+  const teamA = params.teamA ? decodeURIComponent(params.teamA) : undefined;
+  const teamB = params.teamB ? decodeURIComponent(params.teamB) : undefined;
+  const { comparison, loading, error, refetch } = useHeadToHead(teamA, teamB);
+  const { predictMatch, prediction, isLoading: predicting } = usePrediction();
+  // A csere gomb ugyanazt az oldalt tölti újra, a korábbi predikció más párosításra szólhat
+  const [predictedPair, setPredictedPair] = useState<string | null>(null);
+  const pairKey = `${teamA}|${teamB}`;
+
+  if (loading) {
+    return (
+      <PageLayout>
+        <div className="flex justify-center py-24">
+          <LoadingSpinner />
+        </div>
+      </PageLayout>
+    );
+  }
+
+  if (error || !comparison || !teamA || !teamB) {
+    return (
+      <PageLayout>
+        <EmptyState
+          title="Nincs egymás elleni adat"
+          description={error ?? 'A két csapat nem található.'}
+          action={{ label: "Újratöltés", onClick: refetch }}
+        />
+      </PageLayout>
+    );
+  }
+
+  const { overall, stats } = comparison;
+  const outcomeLabels = [teamA, 'Döntetlen', teamB];
+
+  const summaryCards = [
+    { label: 'Mérkőzés', value: overall.matches },
+    { label: `${teamA} – D – ${teamB}`, value: `${overall.wins}-${overall.draws}-${overall.losses}` },
+    { label: 'Dominancia', value: comparison.dominance_score.toFixed(2) },
+    { label: 'Gólátlag', value: `${comparison.avg_goals_a.toFixed(2)} – ${comparison.avg_goals_b.toFixed(2)}` }
+  ];
+
+  return (
+    <PageLayout>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">
+            <TeamLink team={teamA} /> – <TeamLink team={teamB} />
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Egymás elleni mérleg mindkét pályaválasztással, {overall.matches} lejátszott mérkőzés alapján
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button asChild variant="outline" size="sm" className="winmix-btn-glass">
+            <Link to={`/h2h/${encodeURIComponent(teamB)}/${encodeURIComponent(teamA)}`}>
+              <ArrowLeftRight className="size-4 mr-2" />
+              Csere
+            </Link>
+          </Button>
+          <Button
+            size="sm"
+            disabled={predicting}
+            onClick={() => {
+              setPredictedPair(pairKey);
+              predictMatch({ home_team: teamA, away_team: teamB });
+            }}
+          >
+            <Sparkles className="size-4 mr-2" />
+            {predicting ? 'Számítás...' : `Predikció: ${teamA} otthon`}
+          </Button>
+        </div>
+      </div>
+
+      {prediction && predictedPair === pairKey && !predicting && (
+        <Card className="glass-card border-white/10">
+          <CardContent className="p-5 space-y-3">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              {[
+                prediction.predictions.home_win_probability,
+                prediction.predictions.draw_probability,
+                prediction.predictions.away_win_probability
+              ].map((value, i) => (
+                <div key={outcomeLabels[i]} className="p-3 rounded bg-white/5 border border-white/10">
+                  <div className="text-xs text-white/60 truncate">{outcomeLabels[i]}</div>
+                  <div className="text-xl font-bold">{formatPercent(value)}</div>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              <span>Bizalom: {formatPercent(prediction.predictions.confidence_score)}</span>
+              {prediction.scoreline_predictions && (
+                <span>· Legvalószínűbb eredmény: {prediction.scoreline_predictions.most_likely_score}</span>
+              )}
+              {prediction.scoreline_predictions?.expected_goals && (
+                <span>
+                  · Várható gólok: {prediction.scoreline_predictions.expected_goals.home.toFixed(2)} –{' '}
+                  {prediction.scoreline_predictions.expected_goals.away.toFixed(2)}
+                </span>
+              )}
+              <span>· {prediction.prediction_metadata.model_version}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {summaryCards.map(card => (
+          <Card key={card.label} className="glass-card border-white/10">
+            <CardContent className="p-5 space-y-1">
+              <div className="text-xs uppercase tracking-wider text-white/50 truncate">{card.label}</div>
+              <div className="text-2xl font-semibold">{card.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="glass-card border-white/10 lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold tracking-tight">Pályaválasztás szerinti bontás</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead></TableHead>
+                  <TableHead className="text-right">Meccs</TableHead>
+                  <TableHead className="text-right">Gy-D-V ({teamA})</TableHead>
+                  <TableHead className="text-right">Gólok</TableHead>
+                  <TableHead className="text-right">Gól / meccs</TableHead>
+                  <TableHead className="text-right">BTTS</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <SplitRow label="Összesen" stats={overall} />
+                <SplitRow label={`${teamA} otthon`} stats={comparison.team_a_home} />
+                <SplitRow label={`${teamB} otthon`} stats={comparison.team_a_away} />
+              </TableBody>
+            </Table>
+            {stats && (
+              <p className="text-xs text-white/40 pt-3">
+                Adatbázis összesítés: {stats.h2h_matches_played} meccs, {stats.h2h_team1_wins}-{stats.h2h_draws}-{stats.h2h_team2_wins},
+                gólátlag {stats.h2h_avg_team1_goals.toFixed(2)} – {stats.h2h_avg_team2_goals.toFixed(2)}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold tracking-tight">Félidő → végeredmény</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {comparison.ht_ft_matches > 0 ? (
+              <>
+                <div className="grid grid-cols-4 gap-1 text-center text-xs">
+                  <div className="text-white/40">Félidő \ Vége</div>
+                  {outcomeLabels.map(label => (
+                    <div key={label} className="text-white/60 truncate">{label}</div>
+                  ))}
+                  {comparison.ht_ft_matrix.map((row, i) => (
+                    <Fragment key={outcomeLabels[i]}>
+                      <div className="text-white/60 truncate text-left">{outcomeLabels[i]}</div>
+                      {row.map((count, j) => (
+                        <div
+                          key={`${i}-${j}`}
+                          className="p-2 rounded border border-white/10"
+                          style={{ backgroundColor: `rgba(59,130,246,${count / comparison.ht_ft_matches})` }}
+                        >
+                          <div className="font-semibold">{count}</div>
+                        </div>
+                      ))}
+                    </Fragment>
+                  ))}
+                </div>
+                <p className="text-xs text-white/40">
+                  {comparison.ht_ft_matches} mérkőzés félidős eredménnyel, {teamA} szemszögéből
+                </p>
+              </>
+            ) : (
+              <span className="text-sm text-white/50">Nincs félidős adat</span>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <RatingChart teams={[teamA, teamB]} />
+
+      <Card className="glass-card border-white/10">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold tracking-tight">Aktuális feature-ök</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead className="text-right">{teamA}</TableHead>
+                <TableHead className="text-right">{teamB}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {FEATURE_ROWS.map(row => (
+                <TableRow key={row.label}>
+                  <TableCell className="text-white/60">{row.label}</TableCell>
+                  <TableCell className="text-right font-semibold">{row.value(comparison.features.team_a)}</TableCell>
+                  <TableCell className="text-right font-semibold">{row.value(comparison.features.team_b)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-white/10">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold tracking-tight">Egymás elleni mérkőzések</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {comparison.history.length > 0 ? (
+            <Table>
+              <TableBody>
+                {comparison.history.map(result => (
+                  <TableRow key={result.match_id}>
+                    <TableCell className="text-white/60">{new Date(result.match_time).toLocaleDateString('hu-HU')}</TableCell>
+                    <TableCell>{result.venue === 'home' ? `${teamA} – ${teamB}` : `${teamB} – ${teamA}`}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {result.venue === 'home'
+                        ? `${result.goals_for}-${result.goals_against}`
+                        : `${result.goals_against}-${result.goals_for}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className={`inline-flex px-2 py-0.5 rounded border text-xs ${RESULT_STYLES[result.result]}`}>
+                        {result.result === 'W' ? teamA : result.result === 'L' ? teamB : 'Döntetlen'}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <span className="text-sm text-white/50">A két csapat még nem játszott egymással</span>
+          )}
+        </CardContent>
+      </Card>
+    </PageLayout>
+  );
+};
+
+export default HeadToHead;
@@ -1,11 +1,13 @@
 import { RotateCcw, Filter, Download, Brain } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import Navigation from "@/components/Navigation";
+import PageLayout from "@/components/PageLayout";
 import FilterSection from "@/components/FilterSection";
 import StatisticsCards from "@/components/StatisticsCards";
 import ProbabilitySection from "@/components/ProbabilitySection";
 import EnhancedChartSection from "@/components/EnhancedChartSection";
 import ResultsTable from "@/components/ResultsTable";
+import CalibrationChart from "@/components/CalibrationChart";
+import StakingSimulator from "@/components/StakingSimulator";
 import DashboardCustomizer from "@/components/DashboardCustomizer";
 import PredictionModal from "@/components/PredictionModal";
 import PredictionBuilderPanel from "@/components/NotificationPanel";
@@ -14,6 +16,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import { useMatches } from "@/hooks/use-matches";
 import { useDashboardLayout } from "@/hooks/use-dashboard-layout";
+import { usePredictionSettlement } from "@/hooks/use-prediction-settlement";
 import type { MatchFilters } from "@/lib/supabase";
 
 const Index = () => {
@@ -24,6 +27,7 @@ const Index = () => {
   const [notificationPanelOpen, setNotificationPanelOpen] = useState(false);
   const { matches, stats, totalCount, totalPages, loading, error, refetch } = useMatches(filters, currentPage, 50);
   const { visibleWidgets } = useDashboardLayout();
+  usePredictionSettlement();
 
   const handleQuickAction = (action: string) => {
     if (action === "Visszaállítás") {
@@ -83,169 +87,146 @@ const Index = () => {
   };
 
   return (
-    <div className="min-h-screen w-full relative bg-black text-foreground smooth-scroll">
-      {/* Violet Storm Background with Top Glow */}
-      <div
-        className="absolute inset-0 z-0"
-        style={{
-          background: "radial-gradient(ellipse 80% 60% at 50% 0%, rgba(139, 92, 246, 0.25), transparent 70%), #000000",
-        }}
-      />
-
-      {/* Navigation */}
-      <header className="sticky top-0 z-40 backdrop-blur-md supports-[backdrop-filter]:bg-background/60 bg-background/80 border-b border-border relative">
-        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 h-16 flex items-center">
-          <Navigation />
+    <PageLayout>
+      {/* Hero Section */}
+      <section className="text-center space-y-4 winmix-fade-in">
+        <h1 className="winmix-hero">
+          Mérkőzés szűrő és statisztikák
+        </h1>
+        <p className="text-lg text-muted-foreground max-w-3xl mx-auto leading-relaxed">
+          Szűrd a meccseket csapatokra és eseményekre, elemezd a kimeneteleket, és exportáld CSV-be a professzionális WinMix platformon.
+        </p>
+        
+        {/* Quick Action Buttons */}
+        <div className="flex items-center justify-center gap-4 pt-4">
+          <Button 
+            variant="outline" 
+            onClick={() => handleQuickAction("Visszaállítás")}
+            className="winmix-btn-glass winmix-hover-lift winmix-focus"
+            aria-label="Szűrök visszaállítása"
+            disabled={loading}
+          >
+            <RotateCcw className="size-4 mr-2" />
+            Visszaállítás
+          </Button>
+          <Button 
+            onClick={() => handleQuickAction("Szűrés")}
+            className="winmix-btn-primary winmix-hover-lift winmix-focus"
+            aria-label="Szűrők alkalmazása"
+            disabled={loading}
+          >
+            <Filter className="size-4 mr-2" />
+            Szűrés
+          </Button>
+          <Button 
+            variant="outline" 
+            onClick={() => handleQuickAction("CSV export")}
+            className="winmix-btn-glass winmix-hover-lift winmix-focus"
+            aria-label="Adatok exportálása CSV formátumban"
+            disabled={loading || totalCount === 0}
+          >
+            <Download className="size-4 mr-2" />
+            CSV export
+          </Button>
+          <Button 
+            onClick={() => handleQuickAction("Predikció készítése")}
+            className="winmix-btn-primary winmix-hover-lift winmix-focus"
+            aria-label="Predikció készítése 8 mérkőzésre"
+            disabled={loading}
+          >
+            <Brain className="size-4 mr-2" />
+            Predikció készítése
+          </Button>
+          <DashboardCustomizer />
         </div>
-      </header>
+      </section>
 
-      {/* Main Content */}
-      <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-12 space-y-12 relative z-10">
-        {/* Hero Section */}
-        <section className="text-center space-y-4 winmix-fade-in">
-          <h1 className="winmix-hero">
-            Mérkőzés szűrő és statisztikák
-          </h1>
-          <p className="text-lg text-muted-foreground max-w-3xl mx-auto leading-relaxed">
-            Szűrd a meccseket csapatokra és eseményekre, elemezd a kimeneteleket, és exportáld CSV-be a professzionális WinMix platformon.
-          </p>
-          
-          {/* Quick Action Buttons */}
-          <div className="flex items-center justify-center gap-4 pt-4">
-            <Button 
-              variant="outline" 
-              onClick={() => handleQuickAction("Visszaállítás")}
-              className="winmix-btn-glass winmix-hover-lift winmix-focus"
-              aria-label="Szűrök visszaállítása"
-              disabled={loading}
-            >
-              <RotateCcw className="size-4 mr-2" />
-              Visszaállítás
-            </Button>
-            <Button 
-              onClick={() => handleQuickAction("Szűrés")}
-              className="winmix-btn-primary winmix-hover-lift winmix-focus"
-              aria-label="Szűrők alkalmazása"
-              disabled={loading}
-            >
-              <Filter className="size-4 mr-2" />
-              Szűrés
-            </Button>
-            <Button 
-              variant="outline" 
-              onClick={() => handleQuickAction("CSV export")}
-              className="winmix-btn-glass winmix-hover-lift winmix-focus"
-              aria-label="Adatok exportálása CSV formátumban"
-              disabled={loading || totalCount === 0}
-            >
-              <Download className="size-4 mr-2" />
-              CSV export
-            </Button>
-            <Button 
-              onClick={() => handleQuickAction("Predikció készítése")}
-              className="winmix-btn-primary winmix-hover-lift winmix-focus"
-              aria-label="Predikció készítése 8 mérkőzésre"
-              disabled={loading}
-            >
-              <Brain className="size-4 mr-2" />
-              Predikció készítése
-            </Button>
-            <DashboardCustomizer />
-          </div>
-        </section>
-
-        {/* Content Sections */}
-        <div className="space-y-12">
-          <FilterSection filters={filters} onFiltersChange={handleFiltersChange} />
-          
-          <DashboardContainer>
-            {visibleWidgets.map((widget) => {
-              let component = null;
-              
-              switch (widget.component) {
-                case 'StatisticsCards':
-                  component = (
-                    <DashboardItem key={widget.id} id={widget.id}>
-                      <StatisticsCards stats={stats} loading={loading} />
-                    </DashboardItem>
-                  );
-                  break;
-                case 'ProbabilitySection':
-                  component = (
-                    <DashboardItem key={widget.id} id={widget.id}>
-                      <ProbabilitySection stats={stats} loading={loading} />
-                    </DashboardItem>
-                  );
-                  break;
-                case 'EnhancedChartSection':
-                  component = (
-                    <DashboardItem key={widget.id} id={widget.id}>
-                      <EnhancedChartSection filters={filters} />
-                    </DashboardItem>
-                  );
-                  break;
-                case 'ResultsTable':
-                  component = (
-                    <DashboardItem key={widget.id} id={widget.id}>
-                      <ResultsTable 
-                        matches={matches} 
-                        loading={loading} 
-                        totalCount={totalCount}
-                        totalPages={totalPages}
-                        currentPage={currentPage}
-                        onPageChange={setCurrentPage}
-                      />
-                    </DashboardItem>
-                  );
-                  break;
-                default:
-                  return null;
-              }
-              
-              return component;
-            })}
-          </DashboardContainer>
-        </div>
+      {/* Content Sections */}
+      <div className="space-y-12">
+        <FilterSection filters={filters} onFiltersChange={handleFiltersChange} />
         
-        {error && (
-          <div className="fixed bottom-4 right-4 bg-destructive text-destructive-foreground p-4 rounded-lg shadow-lg">
-            <p className="font-medium">Hiba történt</p>
-            <p className="text-sm">{error}</p>
-          </div>
-        )}
-
-        {/* Prediction Modal */}
-        <PredictionModal 
-          open={predictionModalOpen} 
-          onOpenChange={setPredictionModalOpen} 
-        />
+        <DashboardContainer>
+          {visibleWidgets.map((widget) => {
+            let component = null;
+            
+            switch (widget.component) {
+              case 'StatisticsCards':
+                component = (
+                  <DashboardItem key={widget.id} id={widget.id}>
+                    <StatisticsCards stats={stats} loading={loading} />
+                  </DashboardItem>
+                );
+                break;
+              case 'ProbabilitySection':
+                component = (
+                  <DashboardItem key={widget.id} id={widget.id}>
+                    <ProbabilitySection stats={stats} loading={loading} />
+                  </DashboardItem>
+                );
+                break;
+              case 'EnhancedChartSection':
+                component = (
+                  <DashboardItem key={widget.id} id={widget.id}>
+                    <EnhancedChartSection filters={filters} />
+                  </DashboardItem>
+                );
+                break;
+              case 'ResultsTable':
+                component = (
+                  <DashboardItem key={widget.id} id={widget.id}>
+                    <ResultsTable 
+                      matches={matches} 
+                      loading={loading} 
+                      totalCount={totalCount}
+                      totalPages={totalPages}
+                      currentPage={currentPage}
+                      onPageChange={setCurrentPage}
+                    />
+                  </DashboardItem>
+                );
+                break;
+              case 'CalibrationChart':
+                component = (
+                  <DashboardItem key={widget.id} id={widget.id}>
+                    <CalibrationChart />
+                  </DashboardItem>
+                );
+                break;
+              case 'StakingSimulator':
+                component = (
+                  <DashboardItem key={widget.id} id={widget.id}>
+                    <StakingSimulator />
+                  </DashboardItem>
+                );
+                break;
+              default:
+                return null;
+            }
+            
+            return component;
+          })}
+        </DashboardContainer>
+      </div>
+      
+      {error && (
+        <div className="fixed bottom-4 right-4 bg-destructive text-destructive-foreground p-4 rounded-lg shadow-lg">
+          <p className="font-medium">Hiba történt</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
 
-        {/* Prediction Builder Panel */}
-        <PredictionBuilderPanel 
-          isOpen={notificationPanelOpen}
-          onClose={() => setNotificationPanelOpen(false)}
-        />
-      </main>
+      {/* Prediction Modal */}
+      <PredictionModal 
+        open={predictionModalOpen} 
+        onOpenChange={setPredictionModalOpen} 
+      />
 
-      {/* Footer */}
-      <footer className="mt-24 border-t border-border bg-background/50 backdrop-blur-sm relative z-10">
-        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-8 h-8 rounded-lg bg-gradient-violet flex items-center justify-center">
-                <span className="text-white font-bold">W</span>
-              </div>
-              <span className="text-sm text-muted-foreground">
-                © 2024 WinMix. Minden jog fenntartva.
-              </span>
-            </div>
-            <span className="text-sm text-muted-foreground">
-              Magyar sports analytics platform
-            </span>
-          </div>
-        </div>
-      </footer>
-    </div>
+      {/* Prediction Builder Panel */}
+      <PredictionBuilderPanel 
+        isOpen={notificationPanelOpen}
+        onClose={() => setNotificationPanelOpen(false)}
+      />
+    </PageLayout>
   );
 };
 
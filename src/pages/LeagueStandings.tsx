@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import PageLayout from "@/components/PageLayout";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import EmptyState from "@/components/EmptyState";
+import TeamLink from "@/components/TeamLink";
+import SeasonSimulationCard from "@/components/SeasonSimulationCard";
+import { useLeagueStandings } from "@/hooks/use-league-standings";
+import { loadLeagues, type League, type StandingRow, type TieBreaker } from "@/services/standings";
+import type { TeamResult } from "@/services/team-profile";
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const VISIBLE_HISTORY_TEAMS = 6;
+
+const RESULT_STYLES: Record<TeamResult, { label: string; className: string }> = {
+  W: { label: 'Gy', className: 'bg-success/20 text-success border-success/30' },
+  D: { label: 'D', className: 'bg-warning/20 text-warning border-warning/30' },
+  L: { label: 'V', className: 'bg-destructive/20 text-destructive border-destructive/30' }
+};
+
+const TIE_BREAKER_LABELS: Record<TieBreaker, string> = {
+  points: 'pontszám',
+  goal_difference: 'gólkülönbség',
+  goals_for: 'lőtt gólok',
+  wins: 'győzelmek',
+  away_goals_for: 'idegenben lőtt gólok',
+  head_to_head_points: 'egymás elleni pontok',
+  head_to_head_goal_difference: 'egymás elleni gólkülönbség'
+};
+
+const axisStyle = {
+  ticks: { color: 'rgba(255,255,255,0.6)', maxTicksLimit: 10 },
+  grid: { color: 'rgba(255,255,255,0.06)' }
+};
+
+const StandingsTable = ({ rows }: { rows: StandingRow[] }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead className="w-10">#</TableHead>
+        <TableHead>Csapat</TableHead>
+        <TableHead className="text-right">M</TableHead>
+        <TableHead className="text-right">Gy</TableHead>
+        <TableHead className="text-right">D</TableHead>
+        <TableHead className="text-right">V</TableHead>
+        <TableHead className="text-right">Gólok</TableHead>
+        <TableHead className="text-right">GK</TableHead>
+        <TableHead className="text-right">Pont</TableHead>
+        <TableHead className="text-right">Forma</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.map(row => (
+        <TableRow key={row.team}>
+          <TableCell className="text-white/60">{row.position}</TableCell>
+          <TableCell className="font-medium"><TeamLink team={row.team} /></TableCell>
+          <TableCell className="text-right">{row.played}</TableCell>
+          <TableCell className="text-right">{row.wins}</TableCell>
+          <TableCell className="text-right">{row.draws}</TableCell>
+          <TableCell className="text-right">{row.losses}</TableCell>
+          <TableCell className="text-right">{row.goals_for}:{row.goals_against}</TableCell>
+          <TableCell className="text-right">{row.goal_difference > 0 ? `+${row.goal_difference}` : row.goal_difference}</TableCell>
+          <TableCell className="text-right font-semibold">{row.points}</TableCell>
+          <TableCell>
+            <div className="flex justify-end gap-1">
+              {row.form.slice(0, 5).map((result, i) => (
+                <span
+                  key={i}
+                  className={`inline-flex size-5 items-center justify-center rounded border text-[10px] font-semibold ${RESULT_STYLES[result].className}`}
+                >
+                  {RESULT_STYLES[result].label}
+                </span>
+              ))}
+            </div>
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const LeagueStandings = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const season = searchParams.get('season') ?? undefined;
+  const leagueId = id ? Number(id) : undefined;
+  const { standings, loading, error, refetch } = useLeagueStandings(leagueId, season);
+
+  useEffect(() => {
+    loadLeagues()
+      .then(list => {
+        setLeagues(list);
+        // Azonosító nélkül az első ligára ugrunk
+        if (!id && list.length > 0) navigate(`/league/${list[0].id}`, { replace: true });
+      })
+      .catch(err => console.error('Failed to load leagues:', err));
+  }, [id, navigate]);
+
+  const header = (
+    <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+      <div>
+        <h1 className="text-3xl font-semibold tracking-tight">{standings?.league.name ?? 'Tabella'}</h1>
+        <p className="text-muted-foreground mt-2">
+          {standings
+            ? `${standings.season ?? 'Szezon nélkül'} · ${standings.matches_played} lejátszott mérkőzés`
+            : 'Bajnoki tabella a lejátszott mérkőzésekből'}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Select
+          value={id ?? ''}
+          onValueChange={value => navigate(`/league/${value}`)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Liga" />
+          </SelectTrigger>
+          <SelectContent>
+            {leagues.map(league => (
+              <SelectItem key={league.id} value={String(league.id)}>{league.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {standings && standings.seasons.length > 0 && (
+          <Select
+            value={standings.season ?? ''}
+            onValueChange={value => setSearchParams({ season: value })}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue placeholder="Szezon" />
+            </SelectTrigger>
+            <SelectContent>
+              {standings.seasons.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <PageLayout>
+        {header}
+        <div className="flex justify-center py-24">
+          <LoadingSpinner />
+        </div>
+      </PageLayout>
+    );
+  }
+
+  if (error || !standings || standings.matches_played === 0) {
+    return (
+      <PageLayout>
+        {header}
+        <EmptyState
+          title="Nincs tabella"
+          description={error ?? 'A kiválasztott ligában és szezonban nincs lejátszott mérkőzés.'}
+          action={{ label: "Újratöltés", onClick: refetch }}
+        />
+      </PageLayout>
+    );
+  }
+
+  const { position_history: history } = standings;
+  const leaders = new Set(standings.overall.slice(0, VISIBLE_HISTORY_TEAMS).map(row => row.team));
+
+  const historyData = {
+    labels: history.dates,
+    datasets: standings.overall.map((row, i) => ({
+      label: row.team,
+      data: history.positions[row.team],
+      borderColor: `hsl(${(i * 360) / standings.overall.length}, 70%, 55%)`,
+      backgroundColor: `hsl(${(i * 360) / standings.overall.length}, 70%, 55%)`,
+      hidden: !leaders.has(row.team),
+      tension: 0.2,
+      borderWidth: 2,
+      pointRadius: 0,
+      spanGaps: true
+    }))
+  };
+
+  const historyOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { labels: { color: 'rgba(255,255,255,0.8)', boxWidth: 12 } },
+      tooltip: {
+        backgroundColor: 'rgba(17,17,22,0.9)',
+        titleColor: '#fff',
+        bodyColor: '#fff'
+      }
+    },
+    scales: {
+      x: axisStyle,
+      y: { ...axisStyle, reverse: true, min: 1, max: standings.overall.length, ticks: { ...axisStyle.ticks, stepSize: 1 } }
+    }
+  };
+
+  return (
+    <PageLayout>
+      {header}
+
+      <Card className="glass-card border-white/10">
+        <CardContent className="pt-6">
+          <Tabs defaultValue="overall">
+            <TabsList>
+              <TabsTrigger value="overall">Összesített</TabsTrigger>
+              <TabsTrigger value="home">Otthon</TabsTrigger>
+              <TabsTrigger value="away">Idegenben</TabsTrigger>
+              <TabsTrigger value="form">Forma (5 meccs)</TabsTrigger>
+            </TabsList>
+            <TabsContent value="overall"><StandingsTable rows={standings.overall} /></TabsContent>
+            <TabsContent value="home"><StandingsTable rows={standings.home} /></TabsContent>
+            <TabsContent value="away"><StandingsTable rows={standings.away} /></TabsContent>
+            <TabsContent value="form"><StandingsTable rows={standings.form} /></TabsContent>
+          </Tabs>
+          <p className="text-xs text-white/40 pt-3">
+            Győzelem {standings.rules.points_win}, döntetlen {standings.rules.points_draw} pont ·
+            Sorrend: {standings.rules.tie_breakers.map(b => TIE_BREAKER_LABELS[b]).join(', ')}
+          </p>
+        </CardContent>
+      </Card>
+
+      <SeasonSimulationCard
+        leagueId={standings.league.id}
+        league={standings.league.name}
+        season={standings.season}
+      />
+
+      <Card className="glass-card border-white/10">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold tracking-tight">Helyezések alakulása</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="relative h-96">
+            <Line data={historyData} options={historyOptions} />
+          </div>
+        </CardContent>
+      </Card>
+    </PageLayout>
+  );
+};
+
+export default LeagueStandings;
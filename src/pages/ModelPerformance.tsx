@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { Activity, Gauge, RefreshCw, TrendingUp } from "lucide-react";
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PageLayout from "@/components/PageLayout";
+import BarChart from "@/components/BarChart";
+import ReliabilityDiagram, { type ReliabilitySeries } from "@/components/ReliabilityDiagram";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import EmptyState from "@/components/EmptyState";
+import { useModelPerformance } from "@/hooks/use-model-performance";
+import {
+  confidenceBuckets,
+  ENSEMBLE_MODEL_NAME,
+  modelReliability,
+  summarizeModelPerformance,
+  weeklyTrend,
+  type ModelPerformanceFilters
+} from "@/services/model-performance";
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const ALL_MODELS = 'ALL';
+const MODEL_TYPES = ['ENSEMBLE', 'EMPIRICAL', 'XGBOOST', 'POISSON', 'MARKOV'];
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '–' : `${(value * 100).toFixed(1)}%`;
+
+const axisStyle = {
+  ticks: { color: 'rgba(255,255,255,0.6)', maxTicksLimit: 8 },
+  grid: { color: 'rgba(255,255,255,0.06)' }
+};
+
+const ModelPerformance = () => {
+  const [filters, setFilters] = useState<ModelPerformanceFilters>({});
+  const { rows, accuracyStats, storedPerformance, loading, error, refetch } = useModelPerformance(filters);
+
+  const summaries = summarizeModelPerformance(rows, filters.model_type);
+  const selectedModel = filters.model_type?.toLowerCase();
+  const buckets = confidenceBuckets(rows);
+  const trend = weeklyTrend(rows);
+
+  const reliabilitySeries: ReliabilitySeries[] = [
+    { label: 'Ensemble', bins: modelReliability(rows), color: 'hsl(262, 83%, 58%)' },
+    ...(selectedModel && selectedModel !== ENSEMBLE_MODEL_NAME
+      ? [{ label: filters.model_type!, bins: modelReliability(rows, selectedModel), color: 'hsl(38, 92%, 50%)' }]
+      : [])
+  ];
+
+  const updateFilter = (key: keyof ModelPerformanceFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const trendData = {
+    labels: trend.map(point => point.week_start),
+    datasets: [
+      {
+        label: 'Pontosság',
+        data: trend.map(point => point.accuracy),
+        borderColor: 'hsl(262, 83%, 58%)',
+        backgroundColor: 'hsl(262, 83%, 58%)',
+        tension: 0.3,
+        borderWidth: 2
+      },
+      {
+        label: 'Brier pontszám',
+        data: trend.map(point => point.brier_score),
+        borderColor: 'hsl(38, 92%, 50%)',
+        backgroundColor: 'hsl(38, 92%, 50%)',
+        tension: 0.3,
+        borderWidth: 2
+      }
+    ]
+  };
+
+  const trendOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { labels: { color: 'rgba(255,255,255,0.8)' } },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+        backgroundColor: 'rgba(17,17,22,0.9)',
+        titleColor: '#fff',
+        bodyColor: '#fff'
+      }
+    },
+    scales: { x: axisStyle, y: { ...axisStyle, min: 0 } }
+  };
+
+  return (
+    <PageLayout>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">Modell teljesítmény</h1>
+          <p className="text-muted-foreground mt-2">
+            Kiértékelt predikciók pontossága, kalibrációja és időbeli alakulása modellenként
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs uppercase tracking-wider text-white/50">
+            Kezdő dátum
+            <Input
+              type="date"
+              className="w-40"
+              value={filters.date_from ?? ''}
+              onChange={e => updateFilter('date_from', e.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs uppercase tracking-wider text-white/50">
+            Záró dátum
+            <Input
+              type="date"
+              className="w-40"
+              value={filters.date_to ?? ''}
+              onChange={e => updateFilter('date_to', e.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs uppercase tracking-wider text-white/50">
+            Modell
+            <Select
+              value={filters.model_type ?? ALL_MODELS}
+              onValueChange={value => updateFilter('model_type', value === ALL_MODELS ? '' : value)}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MODELS}>Összes modell</SelectItem>
+                {MODEL_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <Button variant="outline" className="winmix-btn-glass" onClick={refetch} disabled={loading}>
+            <RefreshCw className={`size-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Frissítés
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-24">
+          <LoadingSpinner />
+        </div>
+      ) : error || rows.length === 0 ? (
+        <EmptyState
+          title="Nincs kiértékelt predikció"
+          description={error ?? "A kiválasztott időszakban nincs lezárt mérkőzésre készült predikció."}
+          action={{ label: "Újratöltés", onClick: refetch }}
+        />
+      ) : (
+        <>
+          {accuracyStats.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {accuracyStats.map(stat => (
+                <Card key={stat.prediction_type} className="glass-card border-white/10">
+                  <CardContent className="p-5 space-y-1">
+                    <div className="text-xs uppercase tracking-wider text-white/50">{stat.prediction_type}</div>
+                    <div className="text-2xl font-semibold">{stat.accuracy_percentage.toFixed(1)}%</div>
+                    <div className="text-sm text-white/60">
+                      {stat.correct_predictions} / {stat.total_predictions} helyes · átlagos bizalom {formatPercent(stat.avg_confidence)}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Card className="glass-card border-white/10">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold tracking-tight flex items-center gap-2">
+                <Activity className="size-5 text-white/70" />
+                Modellenkénti mérőszámok
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Modell</TableHead>
+                    <TableHead className="text-right">Predikció</TableHead>
+                    <TableHead className="text-right">Pontosság</TableHead>
+                    <TableHead className="text-right">Precision</TableHead>
+                    <TableHead className="text-right">Recall</TableHead>
+                    <TableHead className="text-right">F1</TableHead>
+                    <TableHead className="text-right">Brier</TableHead>
+                    <TableHead className="text-right">7 nap</TableHead>
+                    <TableHead className="text-right">30 nap</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.map(summary => (
+                    <TableRow key={summary.model_name}>
+                      <TableCell className="font-medium">{summary.model_type}</TableCell>
+                      <TableCell className="text-right">{summary.metrics.matches_evaluated}</TableCell>
+                      <TableCell className="text-right">{formatPercent(summary.metrics.accuracy)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(summary.metrics.precision)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(summary.metrics.recall)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(summary.metrics.f1_score)}</TableCell>
+                      <TableCell className="text-right">{summary.metrics.brier_score.toFixed(4)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(summary.last_7_days_accuracy)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(summary.last_30_days_accuracy)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="glass-card border-white/10">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold tracking-tight flex items-center gap-2">
+                  <Gauge className="size-5 text-white/70" />
+                  Kalibrációs görbe
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="relative h-72">
+                  <ReliabilityDiagram series={reliabilitySeries} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="glass-card border-white/10">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold tracking-tight">Találati arány bizalmi sávonként</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="relative h-72">
+                  <BarChart
+                    data={{
+                      labels: buckets.map(b => `${Math.round(b.bucket_start * 100)}–${Math.round(b.bucket_end * 100)}% (${b.predictions})`),
+                      datasets: [
+                        { label: 'Találati arány', data: buckets.map(b => b.hit_rate) },
+                        { label: 'Átlagos bizalom', data: buckets.map(b => b.avg_confidence), backgroundColor: 'hsla(38, 92%, 50%, 0.6)', borderColor: 'hsl(38, 92%, 50%)' }
+                      ]
+                    }}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="glass-card border-white/10">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold tracking-tight flex items-center gap-2">
+                <TrendingUp className="size-5 text-white/70" />
+                Heti ensemble teljesítmény
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="relative h-64">
+                <Line data={trendData} options={trendOptions} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {storedPerformance.length > 0 && (
+            <Card className="glass-card border-white/10">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold tracking-tight">Mentett értékelések</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Modell</TableHead>
+                      <TableHead>Időszak</TableHead>
+                      <TableHead className="text-right">Pontosság</TableHead>
+                      <TableHead className="text-right">F1</TableHead>
+                      <TableHead className="text-right">7 nap</TableHead>
+                      <TableHead className="text-right">30 nap</TableHead>
+                      <TableHead className="text-right">Frissítve</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {storedPerformance.map(row => (
+                      <TableRow key={row.id}>
+                        <TableCell className="font-medium">{row.model_type}</TableCell>
+                        <TableCell>
+                          {row.evaluation_period_start?.slice(0, 10)} – {row.evaluation_period_end?.slice(0, 10)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.accuracy_percentage !== null ? `${row.accuracy_percentage.toFixed(1)}%` : '–'}
+                        </TableCell>
+                        <TableCell className="text-right">{formatPercent(row.f1_score)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.last_7_days_accuracy)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.last_30_days_accuracy)}</TableCell>
+                        <TableCell className="text-right">{row.updated_at?.slice(0, 10)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </PageLayout>
+  );
+};
+
+export default ModelPerformance;
@@ -0,0 +1,364 @@
+import { Link, useParams } from "react-router-dom";
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Flame, Shield, TrendingUp, Repeat } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Tooltip as HoverTooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PageLayout from "@/components/PageLayout";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import EmptyState from "@/components/EmptyState";
+import TeamLink from "@/components/TeamLink";
+import RatingChart from "@/components/RatingChart";
+import { useTeamProfile } from "@/hooks/use-team-profile";
+import { formatMomentum, formFeatureStreak, type SplitStats, type TeamResult } from "@/services/team-profile";
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const RECENT_MATCHES = 10;
+
+const RESULT_STYLES: Record<TeamResult, { label: string; className: string }> = {
+  W: { label: 'Gy', className: 'bg-success/20 text-success border-success/30' },
+  D: { label: 'D', className: 'bg-warning/20 text-warning border-warning/30' },
+  L: { label: 'V', className: 'bg-destructive/20 text-destructive border-destructive/30' }
+};
+
+const STREAK_LABELS: Record<TeamResult, string> = {
+  W: 'győzelem',
+  D: 'döntetlen',
+  L: 'vereség'
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const axisStyle = {
+  ticks: { color: 'rgba(255,255,255,0.6)', maxTicksLimit: 8 },
+  grid: { color: 'rgba(255,255,255,0.06)' }
+};
+
+const SplitRow = ({ label, stats }: { label: string; stats: SplitStats }) => (
+  <TableRow>
+    <TableCell className="font-medium">{label}</TableCell>
+    <TableCell className="text-right">{stats.matches}</TableCell>
+    <TableCell className="text-right">{stats.wins}-{stats.draws}-{stats.losses}</TableCell>
+    <TableCell className="text-right">{stats.goals_for}:{stats.goals_against}</TableCell>
+    <TableCell className="text-right">
+      {stats.matches > 0 ? (stats.goals_for / stats.matches).toFixed(2) : '–'}
+    </TableCell>
+    <TableCell className="text-right">{formatPercent(stats.win_rate)}</TableCell>
+    <TableCell className="text-right">{formatPercent(stats.btts_rate)}</TableCell>
+    <TableCell className="text-right">{formatPercent(stats.clean_sheet_rate)}</TableCell>
+  </TableRow>
+);
+
+const TeamProfile = () => {
+  const { name } = useParams<{ name: string }>();
+  const teamName = name ? decodeURIComponent(name) : undefined;
+  const { profile, loading, error, refetch } = useTeamProfile(teamName, RECENT_MATCHES);
+
+  if (loading) {
+    return (
+      <PageLayout>
+        <div className="flex justify-center py-24">
+          <LoadingSpinner />
+        </div>
+      </PageLayout>
+    );
+  }
+
+  if (error || !profile || profile.matches_analyzed === 0) {
+    return (
+      <PageLayout>
+        <EmptyState
+          title="Nincs adat a csapatról"
+          description={error ?? `${teamName ?? 'A csapat'} nem szerepel lejátszott mérkőzésben.`}
+          action={{ label: "Újratöltés", onClick: refetch }}
+        />
+      </PageLayout>
+    );
+  }
+
+  const { splits, streaks, features, team_stats, form_stats, comeback_stats } = profile;
+
+  const trendData = {
+    labels: profile.goal_trend.map(point => point.opponent),
+    datasets: [
+      {
+        label: 'Lőtt gól (5 meccs átlag)',
+        data: profile.goal_trend.map(point => point.rolling_goals_for),
+        borderColor: 'hsl(142, 71%, 45%)',
+        backgroundColor: 'hsl(142, 71%, 45%)',
+        tension: 0.3,
+        borderWidth: 2
+      },
+      {
+        label: 'Kapott gól (5 meccs átlag)',
+        data: profile.goal_trend.map(point => point.rolling_goals_against),
+        borderColor: 'hsl(0, 84%, 60%)',
+        backgroundColor: 'hsl(0, 84%, 60%)',
+        tension: 0.3,
+        borderWidth: 2
+      },
+      {
+        label: 'Lőtt gól',
+        data: profile.goal_trend.map(point => point.goals_for),
+        borderColor: 'rgba(255,255,255,0.25)',
+        backgroundColor: 'rgba(255,255,255,0.6)',
+        showLine: false,
+        pointRadius: 3
+      }
+    ]
+  };
+
+  const trendOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { labels: { color: 'rgba(255,255,255,0.8)' } },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+        backgroundColor: 'rgba(17,17,22,0.9)',
+        titleColor: '#fff',
+        bodyColor: '#fff'
+      }
+    },
+    scales: { x: axisStyle, y: { ...axisStyle, min: 0 } }
+  };
+
+  const streakCards = [
+    {
+      label: 'Aktuális sorozat',
+      value: streaks.current_type ? `${streaks.current_length} ${STREAK_LABELS[streaks.current_type]}` : '–',
+      icon: Flame
+    },
+    { label: 'Leghosszabb győzelmi sorozat', value: streaks.longest_win, icon: TrendingUp },
+    { label: 'Leghosszabb veretlenség', value: streaks.longest_unbeaten, icon: Shield },
+    { label: 'Leghosszabb nyeretlenség', value: streaks.longest_winless, icon: Repeat }
+  ];
+
+  return (
+    <PageLayout>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">{profile.team_name}</h1>
+          <p className="text-muted-foreground mt-2">
+            {profile.league ?? 'Ismeretlen liga'} · {profile.matches_analyzed} lejátszott mérkőzés alapján
+          </p>
+        </div>
+
+        {/* Last N results */}
+        <div className="flex items-center gap-1.5">
+          {profile.recent.map(result => (
+            <HoverTooltip key={result.match_id}>
+              <TooltipTrigger asChild>
+                <span
+                  className={`inline-flex size-8 items-center justify-center rounded-md border text-xs font-semibold ${RESULT_STYLES[result.result].className}`}
+                >
+                  {RESULT_STYLES[result.result].label}
+                </span>
+              </TooltipTrigger>
+              <TooltipContent>
+                {result.venue === 'home' ? 'Otthon' : 'Idegenben'} · {result.opponent} ·{' '}
+                {result.goals_for}-{result.goals_against} · {new Date(result.match_time).toLocaleDateString('hu-HU')}
+              </TooltipContent>
+            </HoverTooltip>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {streakCards.map(card => (
+          <Card key={card.label} className="glass-card border-white/10">
+            <CardContent className="p-5 space-y-1">
+              <div className="flex items-center gap-2 text-xs uppercase tracking-wider text-white/50">
+                <card.icon className="size-4" />
+                {card.label}
+              </div>
+              <div className="text-2xl font-semibold">{card.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="glass-card border-white/10">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold tracking-tight">Hazai és idegenbeli bontás</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead className="text-right">Meccs</TableHead>
+                <TableHead className="text-right">Gy-D-V</TableHead>
+                <TableHead className="text-right">Gólok</TableHead>
+                <TableHead className="text-right">Lőtt / meccs</TableHead>
+                <TableHead className="text-right">Győzelem</TableHead>
+                <TableHead className="text-right">BTTS</TableHead>
+                <TableHead className="text-right">Kapott gól nélkül</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <SplitRow label="Összesen" stats={splits.overall} />
+              <SplitRow label="Otthon" stats={splits.home} />
+              <SplitRow label="Idegenben" stats={splits.away} />
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="glass-card border-white/10 lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold tracking-tight">Gólok mérkőzésenként</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="relative h-72">
+              <Line data={trendData} options={trendOptions} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold tracking-tight">Predikciós feature-ök</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {[
+              { label: 'Aktuális sorozat', value: formFeatureStreak(features.form_features) },
+              { label: 'Lendület', value: formatMomentum(features.form_features.momentum_score) },
+              { label: 'Lőtt gól otthon', value: features.goal_features.avg_goals_scored_home.toFixed(2) },
+              { label: 'Kapott gól otthon', value: features.goal_features.avg_goals_conceded_home.toFixed(2) },
+              { label: 'Lőtt gól idegenben', value: features.goal_features.avg_goals_scored_away.toFixed(2) },
+              { label: 'Kapott gól idegenben', value: features.goal_features.avg_goals_conceded_away.toFixed(2) },
+              { label: 'BTTS otthon / idegenben', value: `${Math.round(features.goal_features.btts_percentage_home)}% / ${Math.round(features.goal_features.btts_percentage_away)}%` },
+              { label: 'Kapott gól nélkül otthon / idegenben', value: `${Math.round(features.goal_features.clean_sheet_percentage_home)}% / ${Math.round(features.goal_features.clean_sheet_percentage_away)}%` },
+              { label: 'Fordítási arány', value: `${Math.round(features.goal_features.comeback_ability)}%` },
+              { label: 'Félidei előny megtartása', value: `${Math.round(features.goal_features.lead_holding)}%` }
+            ].map(row => (
+              <div key={row.label} className="flex justify-between gap-3">
+                <span className="text-white/60">{row.label}</span>
+                <span className="font-semibold">{row.value}</span>
+              </div>
+            ))}
+            <p className="text-xs text-white/40 pt-2">
+              Az utolsó 10 hazai és 10 idegenbeli mérkőzésből, ahogy a predikciós motor számolja
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <RatingChart teams={[profile.team_name]} />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-base font-semibold">Összesített mérleg</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {team_stats ? (
+              <>
+                <div className="flex justify-between"><span className="text-white/60">Mérkőzés</span><span>{team_stats.total_matches}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Gy-D-V</span><span>{team_stats.wins}-{team_stats.draws}-{team_stats.losses}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Hazai / vendég győzelem</span><span>{team_stats.home_wins} / {team_stats.away_wins}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Gólátlag (lőtt / kapott)</span><span>{team_stats.avg_goals_scored.toFixed(2)} / {team_stats.avg_goals_conceded.toFixed(2)}</span></div>
+              </>
+            ) : (
+              <span className="text-white/50">Nem elérhető</span>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-base font-semibold">Elmúlt 90 nap a ligában</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {form_stats ? (
+              <>
+                <div className="flex justify-between"><span className="text-white/60">Gy-D-V</span><span>{form_stats.wins ?? 0}-{form_stats.draws ?? 0}-{form_stats.losses ?? 0}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Gólok</span><span>{form_stats.goals_scored ?? 0}:{form_stats.goals_conceded ?? 0}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Gólátlag (lőtt / kapott)</span><span>{(form_stats.avg_goals_scored ?? 0).toFixed(2)} / {(form_stats.avg_goals_conceded ?? 0).toFixed(2)}</span></div>
+              </>
+            ) : (
+              <span className="text-white/50">Nem elérhető</span>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-white/10">
+          <CardHeader>
+            <CardTitle className="text-base font-semibold">Fordítások</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {comeback_stats ? (
+              <>
+                <div className="flex justify-between"><span className="text-white/60">Fordítással nyert</span><span>{comeback_stats.comeback_wins}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Hátrányból döntetlen</span><span>{comeback_stats.comeback_draws}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Elvesztett vezetés</span><span>{comeback_stats.blown_leads}</span></div>
+                <div className="flex justify-between"><span className="text-white/60">Fordítási gyakoriság</span><span>{comeback_stats.comeback_frequency.toFixed(2)}</span></div>
+              </>
+            ) : (
+              <span className="text-white/50">Nem elérhető</span>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass-card border-white/10">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold tracking-tight">Utolsó mérkőzések</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableBody>
+              {profile.recent.map(result => (
+                <TableRow key={result.match_id}>
+                  <TableCell className="text-white/60">{new Date(result.match_time).toLocaleDateString('hu-HU')}</TableCell>
+                  <TableCell>{result.venue === 'home' ? 'Otthon' : 'Idegenben'}</TableCell>
+                  <TableCell><TeamLink team={result.opponent} /></TableCell>
+                  <TableCell>
+                    <Link
+                      to={`/h2h/${encodeURIComponent(profile.team_name)}/${encodeURIComponent(result.opponent)}`}
+                      className="text-xs text-white/50 hover:text-primary transition-colors"
+                    >
+                      Egymás ellen
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{result.goals_for}-{result.goals_against}</TableCell>
+                  <TableCell className="text-right">
+                    <span className={`inline-flex px-2 py-0.5 rounded border text-xs ${RESULT_STYLES[result.result].className}`}>
+                      {RESULT_STYLES[result.result].label}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </PageLayout>
+  );
+};
+
+export default TeamProfile;
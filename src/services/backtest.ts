@@ -0,0 +1,226 @@
+import { supabase, type Match } from '@/lib/supabase';
+import {
+  FINISHED_MATCH_FILTER,
+  InMemoryMatchDataSource,
+  isFinishedMatch,
+  SUPABASE_PAGE_SIZE
+} from '@/services/match-data-source';
+import { PredictionEngine } from '@/services/prediction-engine';
+import { computePerformanceMetrics, type EvaluatedPrediction } from '@/services/performance-metrics';
+import { outcomeFromScore, type Outcome, type OutcomeProbabilities } from '@/services/scoring-rules';
+import { evaluateCalibrationHoldout, fitCalibration, type CalibrationModel } from '@/services/calibration';
+import type { PoolingMethod } from '@/services/ensemble';
+import type { CalibrationMethod, PerformanceMetrics } from '@/types/prediction';
+
+/**
+ * Walk-forward backtest
+ *
+ * A történeti meccseket időrendben játssza vissza: minden mérkőzést csak a
+ * kezdési időpontja előtt már ismert adatokból jósol meg, majd összeveti a
+ * tényleges eredménnyel. Böngészőtől független, Node-ból is futtatható.
+ */
+
+export interface BacktestOptions {
+  start_date?: string;
+  end_date?: string;
+  league?: string;
+  min_history: number;           // Ennyi korábbi meccs kell csapatonként a predikcióhoz
+  refit_interval_days: number;
+  max_matches?: number;
+  pooling_method: PoolingMethod;
+  on_progress?: (completed: number, total: number) => void;
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  min_history: 5,
+  refit_interval_days: 7,
+  pooling_method: 'linear'
+};
+
+export interface BacktestPrediction {
+  match_id: number;
+  match_time: string;
+  league: string;
+  home_team: string;
+  away_team: string;
+  actual_result: Outcome;
+  ensemble: OutcomeProbabilities;   // Kalibrálás előtti ensemble
+  confidence: number;
+  models: Record<string, OutcomeProbabilities>;
+}
+
+export interface BacktestResult {
+  ensemble: PerformanceMetrics;
+  models: Record<string, PerformanceMetrics>;
+  predictions: BacktestPrediction[];
+  skipped: number;
+  failed: number;
+}
+
+const inRange = (match: Match, options: BacktestOptions) => {
+  const time = new Date(match.match_time).getTime();
+  if (options.start_date && time < new Date(options.start_date).getTime()) return false;
+  if (options.end_date && time > new Date(options.end_date).getTime()) return false;
+  if (options.league && match.league !== options.league) return false;
+  return true;
+};
+
+/**
+ * Backtest futtatása a megadott történeti meccseken
+ */
+export const runBacktest = async (
+  matches: Match[],
+  options: Partial<BacktestOptions> = {}
+): Promise<BacktestResult> => {
+  const opts = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+  const dataSource = new InMemoryMatchDataSource(matches, opts.refit_interval_days);
+  const engine = new PredictionEngine({
+    data_source: dataSource,
+    load_stored_weights: false,
+    persist_predictions: false,
+    pooling_method: opts.pooling_method
+  });
+
+  const chronological = matches
+    .filter(isFinishedMatch)
+    .sort((a, b) => new Date(a.match_time).getTime() - new Date(b.match_time).getTime());
+
+  const targets = chronological.filter(m => inRange(m, opts)).slice(0, opts.max_matches);
+
+  // Csapatonkénti korábbi meccsszám a bemelegítési feltételhez
+  const teamHistory = new Map<string, number>();
+  const predictions: BacktestPrediction[] = [];
+  let skipped = 0;
+  let failed = 0;
+  let historyIndex = 0;
+
+  for (let i = 0; i < targets.length; i++) {
+    const match = targets[i];
+    const kickoff = new Date(match.match_time).getTime();
+
+    while (
+      historyIndex < chronological.length &&
+      new Date(chronological[historyIndex].match_time).getTime() < kickoff
+    ) {
+      const past = chronological[historyIndex++];
+      teamHistory.set(past.home_team, (teamHistory.get(past.home_team) ?? 0) + 1);
+      teamHistory.set(past.away_team, (teamHistory.get(past.away_team) ?? 0) + 1);
+    }
+
+    const hasHistory =
+      (teamHistory.get(match.home_team) ?? 0) >= opts.min_history &&
+      (teamHistory.get(match.away_team) ?? 0) >= opts.min_history;
+
+    if (!hasHistory) {
+      skipped++;
+    } else {
+      dataSource.setCutoff(match.match_time);
+      try {
+        const output = await engine.predict({
+          home_team: match.home_team,
+          away_team: match.away_team,
+          match_context: { date: match.match_time, competition: match.league }
+        });
+        const raw = output.prediction_metadata.raw_ensemble;
+
+        predictions.push({
+          match_id: match.id,
+          match_time: match.match_time,
+          league: match.league,
+          home_team: match.home_team,
+          away_team: match.away_team,
+          actual_result: outcomeFromScore(match.full_time_home_goals, match.full_time_away_goals),
+          ensemble: [raw.home_win, raw.draw, raw.away_win],
+          confidence: raw.confidence,
+          models: Object.fromEntries(
+            output.model_explanations.map(m => [
+              m.model_name,
+              [m.prediction.home_win, m.prediction.draw, m.prediction.away_win] as OutcomeProbabilities
+            ])
+          )
+        });
+      } catch (error) {
+        console.error(`Backtest prediction failed (${match.home_team} - ${match.away_team}):`, error);
+        failed++;
+      }
+    }
+
+    opts.on_progress?.(i + 1, targets.length);
+  }
+
+  return { ...summarizeBacktest(predictions), predictions, skipped, failed };
+};
+
+/**
+ * Mérőszámok az ensemble-re és modellenként
+ */
+export const summarizeBacktest = (predictions: BacktestPrediction[]) => {
+  const ensembleRecords: EvaluatedPrediction[] = predictions.map(p => ({
+    probabilities: p.ensemble,
+    actual_result: p.actual_result
+  }));
+
+  const modelRecords = new Map<string, EvaluatedPrediction[]>();
+  predictions.forEach(p => {
+    Object.entries(p.models).forEach(([model, probabilities]) => {
+      if (!modelRecords.has(model)) modelRecords.set(model, []);
+      modelRecords.get(model)!.push({ probabilities, actual_result: p.actual_result });
+    });
+  });
+
+  return {
+    ensemble: computePerformanceMetrics(ensembleRecords),
+    models: Object.fromEntries(
+      [...modelRecords.entries()].map(([model, records]) => [model, computePerformanceMetrics(records)])
+    )
+  };
+};
+
+/**
+ * Kalibráció kiértékelése: illesztés az időrendben korábbi részen, mérés a későbbin.
+ * A visszaadott modell a teljes mintára illesztett változat.
+ */
+export const evaluateBacktestCalibration = (
+  predictions: BacktestPrediction[],
+  method: CalibrationMethod = 'isotonic',
+  holdoutFraction = 0.5
+): { model: CalibrationModel; holdout_before: PerformanceMetrics; holdout_after: PerformanceMetrics } => {
+  const samples = predictions.map(p => ({
+    probabilities: p.ensemble,
+    actual_result: p.actual_result,
+    confidence: p.confidence
+  }));
+  const { holdout, calibrated } = evaluateCalibrationHoldout(samples, method, holdoutFraction);
+
+  return {
+    model: fitCalibration(samples, method),
+    holdout_before: computePerformanceMetrics(holdout),
+    holdout_after: computePerformanceMetrics(calibrated)
+  };
+};
+
+/**
+ * Történeti meccsek betöltése a Supabase-ből (lapozva, időrendben)
+ */
+export const loadSupabaseMatches = async (league?: string): Promise<Match[]> => {
+  const all: Match[] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    let query = supabase
+      .from('matches')
+      .select('*')
+      .or(FINISHED_MATCH_FILTER);
+
+    if (league) query = query.eq('league', league);
+
+    const { data, error } = await query
+      .order('match_time', { ascending: true })
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    all.push(...(data || []));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  return all;
+};
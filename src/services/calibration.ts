@@ -0,0 +1,277 @@
+import { supabase } from '@/lib/supabase';
+import type { Json } from '@/integrations/supabase/types';
+import { GLOBAL_MODEL_TEAM, saveGlobalModel } from '@/services/xgboost-trainer';
+import { loadEvaluatedPredictions } from '@/services/prediction-history';
+import {
+  expectedCalibrationError,
+  reliabilityBins,
+  type EvaluatedPrediction
+} from '@/services/performance-metrics';
+import {
+  logLoss,
+  outcomeIndex,
+  predictedOutcome,
+  type OutcomeProbabilities
+} from '@/services/scoring-rules';
+import type { CalibrationMethod } from '@/types/prediction';
+
+/**
+ * Valószínűség-kalibráció az ensemble kimenetére
+ *
+ * Isotonic regresszió (kimenetelenként one-vs-rest, majd újranormálás) vagy
+ * temperature scaling (többosztályos Platt). A bizalmi pontszámot külön
+ * isotonic görbével a legvalószínűbb kimenetel tényleges találati arányára
+ * képezzük le, így a küszöbök valós gyakoriságot jelentenek.
+ */
+
+export const CALIBRATION_MODEL_TYPE = 'CALIBRATION';
+export const MIN_CALIBRATION_SAMPLES = 100;
+
+const PROBABILITY_FLOOR = 1e-4;
+// Ennyi pszeudo-megfigyeléssel húzzuk a kis blokkokat az átló (változatlan valószínűség) felé
+const CURVE_PRIOR_WEIGHT = 20;
+
+export interface CalibrationSample extends EvaluatedPrediction {
+  confidence: number;   // Kalibrálás előtti ensemble bizalom
+}
+
+// Monoton növekvő darabonként lineáris görbe
+export interface IsotonicCurve {
+  x: number[];
+  y: number[];
+}
+
+export interface CalibrationModel {
+  method: CalibrationMethod;
+  temperature: number;
+  class_curves: IsotonicCurve[];        // [H, D, A], csak isotonic esetén
+  confidence_curve: IsotonicCurve | null;
+  samples_used: number;
+  calibration_error_before: number;
+  calibration_error_after: number;
+  fitted_at: string;
+}
+
+/**
+ * Pool Adjacent Violators: súlyozott monoton regresszió rendezett pontokra.
+ * A kis blokkok értékét az átló felé húzzuk, hogy a szélső 0/1 lépcsők ne
+ * torzítsák a log-loss-t kis mintán.
+ */
+export const fitIsotonic = (points: Array<{ x: number; y: number }>): IsotonicCurve => {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const blocks: Array<{ x: number; y: number; weight: number }> = [];
+
+  sorted.forEach(point => {
+    blocks.push({ x: point.x, y: point.y, weight: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].y >= blocks[blocks.length - 1].y) {
+      const last = blocks.pop()!;
+      const prev = blocks[blocks.length - 1];
+      const weight = prev.weight + last.weight;
+      prev.x = (prev.x * prev.weight + last.x * last.weight) / weight;
+      prev.y = (prev.y * prev.weight + last.y * last.weight) / weight;
+      prev.weight = weight;
+    }
+  });
+
+  let previous = 0;
+  const y = blocks.map(b => {
+    const smoothed = (b.y * b.weight + b.x * CURVE_PRIOR_WEIGHT) / (b.weight + CURVE_PRIOR_WEIGHT);
+    previous = Math.max(previous, smoothed);
+    return previous;
+  });
+
+  return { x: blocks.map(b => b.x), y };
+};
+
+/**
+ * Görbe kiértékelése lineáris interpolációval, a széleken konstans
+ */
+export const evaluateCurve = (curve: IsotonicCurve, value: number): number => {
+  const { x, y } = curve;
+  if (x.length === 0) return value;
+  if (value <= x[0]) return y[0];
+  if (value >= x[x.length - 1]) return y[y.length - 1];
+
+  let low = 0;
+  let high = x.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (x[mid] <= value) low = mid;
+    else high = mid;
+  }
+
+  const span = x[high] - x[low];
+  const t = span > 0 ? (value - x[low]) / span : 0;
+  return y[low] + t * (y[high] - y[low]);
+};
+
+const normalize = (values: number[]): OutcomeProbabilities => {
+  const floored = values.map(v => Math.max(v, PROBABILITY_FLOOR));
+  const total = floored.reduce((sum, v) => sum + v, 0);
+  return floored.map(v => v / total) as OutcomeProbabilities;
+};
+
+const applyTemperature = (probabilities: OutcomeProbabilities, temperature: number): OutcomeProbabilities =>
+  normalize(probabilities.map(p => Math.pow(Math.max(p, PROBABILITY_FLOOR), 1 / temperature)));
+
+/**
+ * Hőmérséklet keresése a log-loss minimalizálására (aranymetszéses keresés log T-n)
+ */
+export const fitTemperature = (samples: EvaluatedPrediction[]): number => {
+  const objective = (logT: number) => {
+    const temperature = Math.exp(logT);
+    return samples.reduce(
+      (sum, s) => sum + logLoss(applyTemperature(s.probabilities, temperature), s.actual_result),
+      0
+    );
+  };
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = Math.log(0.25);
+  let b = Math.log(4);
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  for (let i = 0; i < 60; i++) {
+    if (objective(c) < objective(d)) b = d;
+    else a = c;
+    c = b - ratio * (b - a);
+    d = a + ratio * (b - a);
+  }
+  return Math.exp((a + b) / 2);
+};
+
+/**
+ * Kalibrált 1X2 valószínűségek
+ */
+export const applyCalibration = (
+  model: CalibrationModel,
+  probabilities: OutcomeProbabilities
+): OutcomeProbabilities => {
+  if (model.method === 'temperature') {
+    return applyTemperature(probabilities, model.temperature);
+  }
+  return normalize(probabilities.map((p, i) => evaluateCurve(model.class_curves[i], p)));
+};
+
+/**
+ * Nyers bizalmi pontszám → a legvalószínűbb kimenetel várható találati aránya
+ */
+export const calibrateConfidence = (model: CalibrationModel, confidence: number): number =>
+  model.confidence_curve ? evaluateCurve(model.confidence_curve, confidence) : confidence;
+
+/**
+ * Kalibráció illesztése kiértékelt mintákra
+ */
+export const fitCalibration = (
+  samples: CalibrationSample[],
+  method: CalibrationMethod = 'isotonic'
+): CalibrationModel => {
+  const classCurves = method === 'isotonic'
+    ? [0, 1, 2].map(i => fitIsotonic(samples.map(s => ({
+        x: s.probabilities[i],
+        y: outcomeIndex(s.actual_result) === i ? 1 : 0
+      }))))
+    : [];
+
+  const partial: CalibrationModel = {
+    method,
+    temperature: method === 'temperature' ? fitTemperature(samples) : 1,
+    class_curves: classCurves,
+    confidence_curve: null,
+    samples_used: samples.length,
+    calibration_error_before: 0,
+    calibration_error_after: 0,
+    fitted_at: new Date().toISOString()
+  };
+
+  const calibrated = samples.map(s => ({
+    probabilities: applyCalibration(partial, s.probabilities),
+    actual_result: s.actual_result
+  }));
+
+  const confidenceCurve = fitIsotonic(samples.map((s, i) => ({
+    x: s.confidence,
+    y: predictedOutcome(calibrated[i].probabilities) === s.actual_result ? 1 : 0
+  })));
+
+  return {
+    ...partial,
+    confidence_curve: confidenceCurve,
+    calibration_error_before: expectedCalibrationError(reliabilityBins(samples)),
+    calibration_error_after: expectedCalibrationError(reliabilityBins(calibrated))
+  };
+};
+
+/**
+ * Kalibráció kiértékelése időrendi felosztással: illesztés a korábbi mintákon,
+ * mérés a későbbieken, így a javulás nem a tanító mintán látszik.
+ * A mintáknak időrendben (legrégebbi elöl) kell érkezniük.
+ */
+export const evaluateCalibrationHoldout = (
+  samples: CalibrationSample[],
+  method: CalibrationMethod = 'isotonic',
+  holdoutFraction = 0.5
+): { fitted: CalibrationModel; holdout: CalibrationSample[]; calibrated: EvaluatedPrediction[] } => {
+  const split = Math.floor(samples.length * (1 - holdoutFraction));
+  const fitted = fitCalibration(samples.slice(0, split), method);
+  const holdout = samples.slice(split);
+
+  return {
+    fitted,
+    holdout,
+    calibrated: holdout.map(s => ({
+      probabilities: applyCalibration(fitted, s.probabilities),
+      actual_result: s.actual_result
+    }))
+  };
+};
+
+/**
+ * Kalibrációs minták a prediction_history táblából
+ */
+export const loadCalibrationSamples = async (window: number): Promise<CalibrationSample[]> => {
+  const rows = await loadEvaluatedPredictions(window);
+  return rows.map(row => ({
+    probabilities: row.raw_probabilities,
+    actual_result: row.actual_result,
+    confidence: row.raw_confidence
+  }));
+};
+
+export const loadCalibrationModel = async (): Promise<CalibrationModel | null> => {
+  const { data, error } = await supabase
+    .from('team_models')
+    .select('model_data')
+    .eq('model_type', CALIBRATION_MODEL_TYPE)
+    .eq('team_name', GLOBAL_MODEL_TEAM)
+    .eq('is_active', true)
+    .order('last_trained', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  const model = data?.model_data as unknown as CalibrationModel | null;
+  return model?.method ? model : null;
+};
+
+export const saveCalibrationModel = (model: CalibrationModel) =>
+  saveGlobalModel({
+    model_type: CALIBRATION_MODEL_TYPE,
+    model_data: model as unknown as Json,
+    training_matches: model.samples_used,
+    last_trained: model.fitted_at
+  });
+
+/**
+ * Újraillesztés a prediction_history alapján; kevés mintánál nem ment
+ */
+export const updateCalibrationModel = async (window: number, method: CalibrationMethod = 'isotonic') => {
+  const samples = await loadCalibrationSamples(window);
+  if (samples.length < MIN_CALIBRATION_SAMPLES) {
+    return { model: null, samples_used: samples.length };
+  }
+
+  const model = fitCalibration(samples, method);
+  await saveCalibrationModel(model);
+  return { model, samples_used: samples.length };
+};
@@ -0,0 +1,158 @@
+import type { Match } from '@/lib/supabase';
+import type { PredictionQuality } from '@/types/prediction';
+
+/**
+ * Predikció adatminőségének értékelése a felhasznált mérkőzésekből
+ *
+ * Szempontok: kitöltöttség (félidei eredmény, lövések), csapatonkénti és
+ * egymás elleni mintaméret, a legutóbbi mérkőzés frissessége és a modellek
+ * egyetértése. Minden hiányosság egy konkrét figyelmeztetést ad.
+ */
+
+export interface TeamSourceMatches {
+  team: string;
+  matches: Match[];
+}
+
+export interface DataQualitySources {
+  home_team: TeamSourceMatches;
+  away_team: TeamSourceMatches;
+  head_to_head: Match[];
+  reference_time: number;        // A predikált mérkőzés időpontja (ms)
+}
+
+export interface DataQualityOptions {
+  team_sample_target: number;    // Ennyi meccstől teljes a csapat minta
+  h2h_sample_target: number;
+  fresh_days: number;            // Eddig a legutóbbi meccs nem rontja a pontszámot
+  stale_days: number;            // Ennél régebbi legutóbbi meccsnél 0 a frissesség
+  min_completeness: number;
+  min_consensus: number;
+}
+
+export const DEFAULT_DATA_QUALITY_OPTIONS: DataQualityOptions = {
+  team_sample_target: 10,
+  h2h_sample_target: 4,
+  fresh_days: 30,
+  stale_days: 180,
+  min_completeness: 0.7,
+  min_consensus: 0.6
+};
+
+export interface DataQualityAssessment {
+  quality: PredictionQuality;
+  score: number;                 // 0-1, a prediction_metadata.data_quality_score értéke
+  warnings: string[];
+}
+
+const QUALITY_WEIGHTS = {
+  data_completeness: 0.25,
+  feature_reliability: 0.35,
+  sample_size_adequacy: 0.15,
+  model_consensus: 0.25
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Kitöltött félidei eredmények és lövésszámok aránya
+ */
+export const dataCompleteness = (matches: Match[]) => {
+  if (matches.length === 0) return { halftime: 0, shots: 0, overall: 0 };
+
+  const halftime = matches.filter(m => m.half_time_home_goals !== null && m.half_time_away_goals !== null).length / matches.length;
+  const shots = matches.filter(m => m.home_shots !== null && m.away_shots !== null).length / matches.length;
+  return { halftime, shots, overall: (halftime + shots) / 2 };
+};
+
+/**
+ * Frissesség: fresh_days-ig 1, onnan stale_days-ig lineárisan 0-ra csökken
+ */
+export const recencyScore = (daysSinceLatest: number, options: DataQualityOptions) => {
+  if (daysSinceLatest <= options.fresh_days) return 1;
+  return clamp01(1 - (daysSinceLatest - options.fresh_days) / (options.stale_days - options.fresh_days));
+};
+
+const daysSinceLatest = (matches: Match[], referenceTime: number) => {
+  const times = matches
+    .map(m => new Date(m.match_time).getTime())
+    .filter(time => time <= referenceTime);
+  return times.length > 0 ? (referenceTime - Math.max(...times)) / DAY_MS : Infinity;
+};
+
+const overallQuality = (score: number): PredictionQuality['overall_quality'] => {
+  if (score >= 0.8) return 'EXCELLENT';
+  if (score >= 0.65) return 'GOOD';
+  if (score >= 0.5) return 'FAIR';
+  return 'POOR';
+};
+
+/**
+ * Minőségi mutatók, összpontszám és figyelmeztetések egy predikcióhoz
+ */
+export const assessDataQuality = (
+  sources: DataQualitySources,
+  consensus: number,
+  options: Partial<DataQualityOptions> = {}
+): DataQualityAssessment => {
+  const opts = { ...DEFAULT_DATA_QUALITY_OPTIONS, ...options };
+  const warnings: string[] = [];
+
+  const allMatches = [
+    ...new Map(
+      [...sources.home_team.matches, ...sources.away_team.matches, ...sources.head_to_head].map(m => [m.id, m])
+    ).values()
+  ];
+  const completeness = dataCompleteness(allMatches);
+  if (allMatches.length > 0 && completeness.halftime < opts.min_completeness) {
+    warnings.push(`Hiányos félidei eredmények (${formatPercent(completeness.halftime)} kitöltött)`);
+  }
+  if (allMatches.length > 0 && completeness.shots < opts.min_completeness) {
+    warnings.push(`Hiányos lövésstatisztika (${formatPercent(completeness.shots)} kitöltött)`);
+  }
+
+  const teamReliability = [sources.home_team, sources.away_team].map(({ team, matches }) => {
+    const adequacy = clamp01(matches.length / opts.team_sample_target);
+    if (matches.length < opts.team_sample_target) {
+      warnings.push(`Kevés mérkőzés: ${team} (${matches.length}/${opts.team_sample_target})`);
+    }
+
+    const days = daysSinceLatest(matches, sources.reference_time);
+    const recency = recencyScore(days, opts);
+    if (Number.isFinite(days) && days > opts.fresh_days) {
+      warnings.push(`${team} legutóbbi mérkőzése ${Math.round(days)} napja volt`);
+    }
+
+    return adequacy * recency;
+  });
+
+  const h2hAdequacy = clamp01(sources.head_to_head.length / opts.h2h_sample_target);
+  if (sources.head_to_head.length === 0) {
+    warnings.push('Nincs egymás elleni mérkőzés');
+  } else if (sources.head_to_head.length < opts.h2h_sample_target) {
+    warnings.push(`Kevés egymás elleni mérkőzés (${sources.head_to_head.length}/${opts.h2h_sample_target})`);
+  }
+
+  if (consensus < opts.min_consensus) {
+    warnings.push(`A modellek eltérően látják a mérkőzést (egyetértés: ${formatPercent(consensus)})`);
+  }
+
+  const metrics = {
+    data_completeness: completeness.overall,
+    feature_reliability: teamReliability.reduce((sum, r) => sum + r, 0) / teamReliability.length,
+    sample_size_adequacy: h2hAdequacy,
+    model_consensus: clamp01(consensus)
+  };
+  const score = (Object.keys(QUALITY_WEIGHTS) as Array<keyof typeof QUALITY_WEIGHTS>)
+    .reduce((sum, key) => sum + QUALITY_WEIGHTS[key] * metrics[key], 0);
+
+  return {
+    quality: { ...metrics, overall_quality: overallQuality(score) },
+    score,
+    warnings
+  };
+};
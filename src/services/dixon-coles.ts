@@ -0,0 +1,279 @@
+/**
+ * Dixon-Coles gólmodell
+ *
+ * Csapatonkénti támadó/védekező erősség és hazai pálya előny illesztése
+ * időben súlyozott Poisson maximum likelihood becsléssel, opcionális
+ * alacsony gólszámú korrekcióval (rho).
+ */
+
+export interface GoalModelMatch {
+  home_team: string;
+  away_team: string;
+  home_goals: number;
+  away_goals: number;
+  match_time: string;
+}
+
+export interface DixonColesOptions {
+  time_decay: number;          // Napi bomlási ráta (xi), 0 = nincs súlyozás
+  use_low_score_correction: boolean;
+  prior_strength: number;      // Pszeudo-meccsek száma, az átlag felé húz
+  max_iterations: number;
+  tolerance: number;
+  reference_date?: string;     // Ehhez képest számoljuk a meccsek korát
+}
+
+export interface DixonColesParams {
+  attack: Record<string, number>;
+  defence: Record<string, number>;
+  home_advantage: number;
+  rho: number;
+  matches_used: number;
+  team_matches: Record<string, number>;
+  fitted_at: string;
+}
+
+export const DEFAULT_DIXON_COLES_OPTIONS: DixonColesOptions = {
+  time_decay: 0.0019,
+  use_low_score_correction: true,
+  prior_strength: 2,
+  max_iterations: 100,
+  tolerance: 1e-6
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RHO_SEARCH_RANGE: [number, number] = [-0.3, 0.3];
+
+/**
+ * Dixon-Coles tau korrekció az alacsony gólszámú eredményekre
+ */
+export const lowScoreCorrection = (
+  homeGoals: number,
+  awayGoals: number,
+  lambda: number,
+  mu: number,
+  rho: number
+): number => {
+  if (homeGoals === 0 && awayGoals === 0) return 1 - lambda * mu * rho;
+  if (homeGoals === 0 && awayGoals === 1) return 1 + lambda * rho;
+  if (homeGoals === 1 && awayGoals === 0) return 1 + mu * rho;
+  if (homeGoals === 1 && awayGoals === 1) return 1 - rho;
+  return 1;
+};
+
+/**
+ * Paraméterek illesztése lezárt mérkőzésekből
+ */
+export const fitDixonColes = (
+  matches: GoalModelMatch[],
+  options: Partial<DixonColesOptions> = {}
+): DixonColesParams => {
+  const opts = { ...DEFAULT_DIXON_COLES_OPTIONS, ...options };
+  const reference = opts.reference_date
+    ? new Date(opts.reference_date).getTime()
+    : Math.max(...matches.map(m => new Date(m.match_time).getTime()), 0);
+
+  const weights = matches.map(m => {
+    const ageDays = Math.max(0, (reference - new Date(m.match_time).getTime()) / DAY_MS);
+    return Math.exp(-opts.time_decay * ageDays);
+  });
+
+  const teams = Array.from(new Set(matches.flatMap(m => [m.home_team, m.away_team])));
+  const attack: Record<string, number> = {};
+  const defence: Record<string, number> = {};
+  const teamMatches: Record<string, number> = {};
+  teams.forEach(team => {
+    attack[team] = 1;
+    defence[team] = 1;
+    teamMatches[team] = 0;
+  });
+  matches.forEach(m => {
+    teamMatches[m.home_team]++;
+    teamMatches[m.away_team]++;
+  });
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (matches.length === 0 || totalWeight === 0) {
+    return {
+      attack,
+      defence,
+      home_advantage: 1,
+      rho: 0,
+      matches_used: 0,
+      team_matches: teamMatches,
+      fitted_at: new Date().toISOString()
+    };
+  }
+
+  // Átlagos gólszám a prior számára (meccsenként, csapatonként)
+  const avgGoals = matches.reduce((sum, m, i) => sum + weights[i] * (m.home_goals + m.away_goals), 0) / (2 * totalWeight);
+  let homeAdvantage = 1;
+
+  for (let iteration = 0; iteration < opts.max_iterations; iteration++) {
+    const scored: Record<string, number> = {};
+    const conceded: Record<string, number> = {};
+    const attackExposure: Record<string, number> = {};
+    const defenceExposure: Record<string, number> = {};
+    teams.forEach(team => {
+      scored[team] = 0;
+      conceded[team] = 0;
+      attackExposure[team] = 0;
+      defenceExposure[team] = 0;
+    });
+
+    matches.forEach((m, i) => {
+      const w = weights[i];
+      scored[m.home_team] += w * m.home_goals;
+      scored[m.away_team] += w * m.away_goals;
+      conceded[m.home_team] += w * m.away_goals;
+      conceded[m.away_team] += w * m.home_goals;
+      attackExposure[m.home_team] += w * defence[m.away_team] * homeAdvantage;
+      attackExposure[m.away_team] += w * defence[m.home_team];
+      defenceExposure[m.home_team] += w * attack[m.away_team];
+      defenceExposure[m.away_team] += w * attack[m.home_team] * homeAdvantage;
+    });
+
+    let maxChange = 0;
+    const k = opts.prior_strength;
+    teams.forEach(team => {
+      const nextAttack = (scored[team] + k * avgGoals) / (attackExposure[team] + k * avgGoals);
+      const nextDefence = (conceded[team] + k * avgGoals) / (defenceExposure[team] + k * avgGoals);
+      maxChange = Math.max(maxChange, Math.abs(nextAttack - attack[team]), Math.abs(nextDefence - defence[team]));
+      attack[team] = nextAttack;
+      defence[team] = nextDefence;
+    });
+
+    // Normalizálás: a támadó erősségek geometriai átlaga 1
+    const logMean = teams.reduce((sum, team) => sum + Math.log(attack[team]), 0) / teams.length;
+    const scale = Math.exp(logMean);
+    teams.forEach(team => {
+      attack[team] /= scale;
+      defence[team] *= scale;
+    });
+
+    let homeGoals = 0;
+    let homeExposure = 0;
+    matches.forEach((m, i) => {
+      homeGoals += weights[i] * m.home_goals;
+      homeExposure += weights[i] * attack[m.home_team] * defence[m.away_team];
+    });
+    const nextHomeAdvantage = homeExposure > 0 ? homeGoals / homeExposure : 1;
+    maxChange = Math.max(maxChange, Math.abs(nextHomeAdvantage - homeAdvantage));
+    homeAdvantage = nextHomeAdvantage;
+
+    if (maxChange < opts.tolerance) break;
+  }
+
+  const rho = opts.use_low_score_correction
+    ? fitRho(matches, weights, attack, defence, homeAdvantage)
+    : 0;
+
+  return {
+    attack,
+    defence,
+    home_advantage: homeAdvantage,
+    rho,
+    matches_used: matches.length,
+    team_matches: teamMatches,
+    fitted_at: new Date().toISOString()
+  };
+};
+
+/**
+ * Rho becslése aranymetszéses kereséssel a súlyozott log-likelihood-on
+ */
+const fitRho = (
+  matches: GoalModelMatch[],
+  weights: number[],
+  attack: Record<string, number>,
+  defence: Record<string, number>,
+  homeAdvantage: number
+): number => {
+  const lowScoring = matches
+    .map((m, i) => ({
+      m,
+      w: weights[i],
+      lambda: attack[m.home_team] * defence[m.away_team] * homeAdvantage,
+      mu: attack[m.away_team] * defence[m.home_team]
+    }))
+    .filter(({ m }) => m.home_goals <= 1 && m.away_goals <= 1);
+
+  if (lowScoring.length === 0) return 0;
+
+  // A tau minden alacsony eredményre pozitív kell maradjon
+  let lower = RHO_SEARCH_RANGE[0];
+  let upper = RHO_SEARCH_RANGE[1];
+  lowScoring.forEach(({ lambda, mu }) => {
+    lower = Math.max(lower, -1 / Math.max(lambda, 1e-9) + 1e-6, -1 / Math.max(mu, 1e-9) + 1e-6);
+    upper = Math.min(upper, 1 / Math.max(lambda * mu, 1e-9) - 1e-6, 1 - 1e-6);
+  });
+  if (lower >= upper) return 0;
+
+  const logLikelihood = (rho: number) =>
+    lowScoring.reduce(
+      (sum, { m, w, lambda, mu }) => sum + w * Math.log(lowScoreCorrection(m.home_goals, m.away_goals, lambda, mu, rho)),
+      0
+    );
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = lower;
+  let b = upper;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  for (let i = 0; i < 60 && b - a > 1e-5; i++) {
+    if (logLikelihood(c) > logLikelihood(d)) {
+      b = d;
+    } else {
+      a = c;
+    }
+    c = b - ratio * (b - a);
+    d = a + ratio * (b - a);
+  }
+  return (a + b) / 2;
+};
+
+/**
+ * Várható gólok egy párosításra; ismeretlen csapat esetén átlagos erősség
+ */
+export const expectedGoals = (params: DixonColesParams, homeTeam: string, awayTeam: string) => ({
+  home: (params.attack[homeTeam] ?? 1) * (params.defence[awayTeam] ?? 1) * params.home_advantage,
+  away: (params.attack[awayTeam] ?? 1) * (params.defence[homeTeam] ?? 1)
+});
+
+const poissonPmf = (k: number, rate: number): number => {
+  let p = Math.exp(-rate);
+  for (let i = 1; i <= k; i++) p *= rate / i;
+  return p;
+};
+
+/**
+ * Eredmény valószínűségi mátrix: matrix[hazai gól][vendég gól]
+ */
+export const scorelineMatrix = (lambda: number, mu: number, rho = 0, maxGoals = 10): number[][] => {
+  const matrix: number[][] = [];
+  let total = 0;
+  for (let h = 0; h <= maxGoals; h++) {
+    matrix[h] = [];
+    for (let a = 0; a <= maxGoals; a++) {
+      const p = poissonPmf(h, lambda) * poissonPmf(a, mu) * lowScoreCorrection(h, a, lambda, mu, rho);
+      matrix[h][a] = Math.max(p, 0);
+      total += matrix[h][a];
+    }
+  }
+  return matrix.map(row => row.map(p => (total > 0 ? p / total : 0)));
+};
+
+/**
+ * 1X2 valószínűségek a mátrixból
+ */
+export const outcomeProbabilities = (matrix: number[][]) => {
+  let homeWin = 0;
+  let draw = 0;
+  let awayWin = 0;
+  matrix.forEach((row, h) => row.forEach((p, a) => {
+    if (h > a) homeWin += p;
+    else if (h === a) draw += p;
+    else awayWin += p;
+  }));
+  return { home_win: homeWin, draw, away_win: awayWin };
+};
@@ -0,0 +1,92 @@
+/**
+ * Ensemble kombinálás
+ *
+ * A modellek 1X2 valószínűségeit súlyozottan vonjuk össze lineáris
+ * (számtani) vagy log-lineáris (geometriai) poolinggal, majd újranormalizáljuk.
+ */
+
+export type PoolingMethod = 'linear' | 'log_linear';
+
+export interface WeightedOutcome {
+  weight: number;
+  home_win: number;
+  draw: number;
+  away_win: number;
+  confidence: number;
+}
+
+export interface PooledOutcome {
+  home_win: number;
+  draw: number;
+  away_win: number;
+}
+
+const EPSILON = 1e-9;
+
+const normalize = (values: [number, number, number]): PooledOutcome => {
+  const total = values[0] + values[1] + values[2];
+  if (total <= 0) return { home_win: 1 / 3, draw: 1 / 3, away_win: 1 / 3 };
+  return { home_win: values[0] / total, draw: values[1] / total, away_win: values[2] / total };
+};
+
+const toVector = (o: PooledOutcome): [number, number, number] => [o.home_win, o.draw, o.away_win];
+
+/**
+ * Súlyozott pooling; a súlyokat a ténylegesen lefutott modellekre normalizáljuk
+ */
+export const poolOutcomes = (outcomes: WeightedOutcome[], method: PoolingMethod = 'linear'): PooledOutcome => {
+  const totalWeight = outcomes.reduce((sum, o) => sum + Math.max(o.weight, 0), 0);
+  if (outcomes.length === 0 || totalWeight <= 0) {
+    return { home_win: 1 / 3, draw: 1 / 3, away_win: 1 / 3 };
+  }
+
+  if (method === 'log_linear') {
+    const logs: [number, number, number] = [0, 0, 0];
+    outcomes.forEach(o => {
+      const w = Math.max(o.weight, 0) / totalWeight;
+      toVector(normalize(toVector(o))).forEach((p, i) => {
+        logs[i] += w * Math.log(Math.max(p, EPSILON));
+      });
+    });
+    const max = Math.max(...logs);
+    return normalize(logs.map(l => Math.exp(l - max)) as [number, number, number]);
+  }
+
+  const pooled: [number, number, number] = [0, 0, 0];
+  outcomes.forEach(o => {
+    const w = Math.max(o.weight, 0) / totalWeight;
+    toVector(normalize(toVector(o))).forEach((p, i) => {
+      pooled[i] += w * p;
+    });
+  });
+  return normalize(pooled);
+};
+
+/**
+ * Modellek közötti egyetértés (0-1): 1 - a pooled eloszlástól mért
+ * súlyozott átlagos total variation távolság
+ */
+export const modelConsensus = (outcomes: WeightedOutcome[], pooled: PooledOutcome): number => {
+  const totalWeight = outcomes.reduce((sum, o) => sum + Math.max(o.weight, 0), 0);
+  // Egyetlen modellnél nincs mit összevetni: semleges érték
+  if (outcomes.length < 2 || totalWeight <= 0) return outcomes.length === 1 ? 0.5 : 0;
+
+  const target = toVector(pooled);
+  const distance = outcomes.reduce((sum, o) => {
+    const p = toVector(normalize(toVector(o)));
+    const tv = 0.5 * p.reduce((acc, v, i) => acc + Math.abs(v - target[i]), 0);
+    return sum + (Math.max(o.weight, 0) / totalWeight) * tv;
+  }, 0);
+
+  return Math.max(0, Math.min(1, 1 - distance));
+};
+
+/**
+ * Ensemble bizalom: egyetértés a modellek saját (súlyozott) bizalmával skálázva
+ */
+export const ensembleConfidence = (outcomes: WeightedOutcome[], consensus: number): number => {
+  const totalWeight = outcomes.reduce((sum, o) => sum + Math.max(o.weight, 0), 0);
+  if (totalWeight <= 0) return 0;
+  const modelConfidence = outcomes.reduce((sum, o) => sum + (Math.max(o.weight, 0) / totalWeight) * o.confidence, 0);
+  return consensus * (0.5 + 0.5 * modelConfidence);
+};
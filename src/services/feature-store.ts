@@ -0,0 +1,236 @@
+import { supabase, type Match } from '@/lib/supabase';
+import { SupabaseMatchDataSource, type MatchDataSource } from '@/services/match-data-source';
+import { buildTeamFeatures } from '@/services/team-features';
+import type { TeamFeatures } from '@/types/prediction';
+
+/**
+ * Csapat feature-tár
+ *
+ * A csapat feature-öket csapat és időpont (as-of) szerint cache-eli memóriában,
+ * böngészőben IndexedDB-ben is, TTL-lel. Új vagy módosított `matches` sor
+ * érkezésekor az érintett csapatok bejegyzései törlődnek. Egy mérkőzéslista
+ * összes csapatát egyetlen lekérdezéssel is elő lehet tölteni.
+ */
+
+export interface FeatureStoreOptions {
+  ttl_ms: number;                // 0: nincs cache, csak a párhuzamos kérések osztoznak
+  window: number;                // Hazai és idegenbeli meccsek száma csapatonként
+  persist: boolean;              // IndexedDB használata, ha elérhető
+}
+
+export const DEFAULT_FEATURE_STORE_OPTIONS: FeatureStoreOptions = {
+  ttl_ms: 15 * 60 * 1000,
+  window: 10,
+  persist: true
+};
+
+export interface TeamFeatureEntry {
+  team: string;
+  as_of: string | null;
+  features: TeamFeatures;
+  matches: Match[];              // A feature-ök alapjául szolgáló meccsek, legfrissebb elöl
+  computed_at: number;
+}
+
+const MAX_MEMORY_ENTRIES = 500;
+// Batch előtöltésnél csapatonként ennyiszer window sort kérünk le
+const BATCH_ROWS_PER_TEAM = 4;
+
+const DB_NAME = 'winmix-feature-store';
+const DB_STORE = 'team_features';
+
+const cacheKey = (team: string, asOf: string | null) => `${team}|${asOf ?? 'latest'}`;
+
+const uniqueTeams = (teams: string[]) => [...new Set(teams.filter(Boolean))];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  dbPromise ??= new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(DB_STORE);
+      store.createIndex('team', 'team');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Feature store IndexedDB error:', request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+// IndexedDB kérés Promise-ként; hiba esetén a cache egyszerűen kimarad
+const idbRequest = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Feature store IndexedDB error:', request.error);
+      resolve(null);
+    };
+  });
+};
+
+export class FeatureStore {
+  private memory: Map<string, TeamFeatureEntry> = new Map();
+  private pending: Map<string, Promise<TeamFeatureEntry>> = new Map();
+  private options: FeatureStoreOptions;
+
+  constructor(private dataSource: MatchDataSource, options: Partial<FeatureStoreOptions> = {}) {
+    this.options = { ...DEFAULT_FEATURE_STORE_OPTIONS, ...options };
+  }
+
+  /**
+   * Egy csapat feature-ei; asOf megadásakor csak az annál korábbi meccsekből
+   */
+  async getTeamFeatures(team: string, asOf: string | null = null): Promise<TeamFeatureEntry> {
+    const key = cacheKey(team, asOf);
+    const cached = await this.lookup(key);
+    if (cached) return cached;
+
+    const pending = this.pending.get(key);
+    if (pending) return pending;
+
+    const request = this.fetchTeam(team, asOf).finally(() => this.pending.delete(key));
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Mérkőzéslista összes csapatának előtöltése egyetlen lekérdezéssel. Ha a
+   * lekérdezés elérte a sorlimitet, a hiányos csapatok egyenként töltődnek később.
+   */
+  async prefetch(teams: string[], asOf: string | null = null): Promise<void> {
+    if (this.options.ttl_ms <= 0) return;
+
+    const cached = await Promise.all(uniqueTeams(teams).map(async team => ({
+      team,
+      cached: await this.lookup(cacheKey(team, asOf))
+    })));
+    const missing = cached.filter(c => !c.cached).map(c => c.team);
+    if (missing.length === 0) return;
+
+    const limit = missing.length * this.options.window * BATCH_ROWS_PER_TEAM;
+    const matches = await this.dataSource.getMatches({ teams: missing, before: asOf ?? undefined, limit });
+    const truncated = matches.length >= limit;
+
+    await Promise.all(missing.map(team => {
+      const home = matches.filter(m => m.home_team === team).slice(0, this.options.window);
+      const away = matches.filter(m => m.away_team === team).slice(0, this.options.window);
+      if (truncated && (home.length < this.options.window || away.length < this.options.window)) return null;
+      return this.store(this.toEntry(team, asOf, home, away));
+    }));
+  }
+
+  /**
+   * Csapatok (vagy a teljes tár) bejegyzéseinek törlése
+   */
+  async invalidate(teams?: string[]): Promise<void> {
+    if (!teams) {
+      this.memory.clear();
+      if (this.options.persist) await idbRequest('readwrite', store => store.clear());
+      return;
+    }
+
+    const affected = new Set(teams);
+    [...this.memory.values()]
+      .filter(entry => affected.has(entry.team))
+      .forEach(entry => this.memory.delete(cacheKey(entry.team, entry.as_of)));
+
+    if (this.options.persist) {
+      await Promise.all([...affected].map(async team => {
+        const keys = await idbRequest('readonly', store => store.index('team').getAllKeys(team));
+        await Promise.all((keys ?? []).map(key => idbRequest('readwrite', store => store.delete(key))));
+      }));
+    }
+  }
+
+  /**
+   * Érvénytelenítés a `matches` tábla változásaira (Supabase realtime)
+   */
+  subscribeToMatchChanges(): () => void {
+    const channel = supabase
+      .channel('feature-store-matches')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'matches' }, payload => {
+        // Törlésnél csak a régi sor érhető el
+        const row = { ...payload.old, ...payload.new } as Partial<Match>;
+        const teams = [row.home_team, row.away_team].filter((team): team is string => !!team);
+        this.invalidate(teams.length > 0 ? teams : undefined);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  private isFresh(entry: TeamFeatureEntry) {
+    return Date.now() - entry.computed_at < this.options.ttl_ms;
+  }
+
+  private async lookup(key: string): Promise<TeamFeatureEntry | null> {
+    if (this.options.ttl_ms <= 0) return null;
+
+    const cached = this.memory.get(key);
+    if (cached && this.isFresh(cached)) return cached;
+
+    if (!this.options.persist) return null;
+    const persisted = await idbRequest<TeamFeatureEntry | undefined>('readonly', store => store.get(key));
+    if (!persisted || !this.isFresh(persisted)) return null;
+
+    this.remember(key, persisted);
+    return persisted;
+  }
+
+  private async fetchTeam(team: string, asOf: string | null): Promise<TeamFeatureEntry> {
+    const before = asOf ?? undefined;
+    const [home, away] = await Promise.all([
+      this.dataSource.getMatches({ home_team: team, before, limit: this.options.window }),
+      this.dataSource.getMatches({ away_team: team, before, limit: this.options.window })
+    ]);
+
+    const entry = this.toEntry(team, asOf, home, away);
+    await this.store(entry);
+    return entry;
+  }
+
+  private toEntry(team: string, asOf: string | null, home: Match[], away: Match[]): TeamFeatureEntry {
+    return {
+      team,
+      as_of: asOf,
+      features: buildTeamFeatures(team, home, away, asOf),
+      matches: [...home, ...away],
+      computed_at: Date.now()
+    };
+  }
+
+  private remember(key: string, entry: TeamFeatureEntry) {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    // A legrégebben tárolt bejegyzés kiesik
+    if (this.memory.size > MAX_MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+
+  private async store(entry: TeamFeatureEntry) {
+    if (this.options.ttl_ms <= 0) return;
+
+    const key = cacheKey(entry.team, entry.as_of);
+    this.remember(key, entry);
+    if (this.options.persist) await idbRequest('readwrite', store => store.put(entry, key));
+  }
+}
+
+// Megosztott, cache-elt tár az éles Supabase adatokhoz; a realtime érvénytelenítést
+// az alkalmazás indítja (subscribeToMatchChanges)
+export const featureStore = new FeatureStore(new SupabaseMatchDataSource());
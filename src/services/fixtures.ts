@@ -0,0 +1,269 @@
+import { supabase, type Match } from '@/lib/supabase';
+import type { PredictionInput } from '@/types/prediction';
+import { SUPABASE_PAGE_SIZE } from '@/services/match-data-source';
+
+/**
+ * Közelgő mérkőzések (match_status = 'scheduled') lekérése és importálása
+ */
+
+export interface FixtureFilters {
+  league?: string;
+  date_from?: string;
+  date_to?: string;
+  days_ahead?: number;   // date_to hiányában ennyi napos ablak
+  limit?: number;
+}
+
+export interface FixtureImportRow {
+  home_team: string;
+  away_team: string;
+  match_time: string;
+  league: string;
+  season?: string;
+  venue?: string;
+}
+
+export interface FixtureParseResult {
+  fixtures: FixtureImportRow[];
+  errors: string[];
+}
+
+export interface FixtureImportResult {
+  inserted: number;
+  skipped: number;
+}
+
+export type FixtureFileFormat = 'csv' | 'json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS_AHEAD = 7;
+const DEFAULT_LIMIT = 50;
+const REQUIRED_FIELDS = ['home_team', 'away_team', 'match_time', 'league'] as const;
+
+/**
+ * Ütemezett mérkőzések a megadott ligára és időablakra, kezdési idő szerint
+ */
+export const loadUpcomingFixtures = async (filters: FixtureFilters = {}): Promise<Match[]> => {
+  const from = filters.date_from ? new Date(filters.date_from) : new Date();
+  const to = filters.date_to
+    ? new Date(filters.date_to)
+    : new Date(from.getTime() + (filters.days_ahead ?? DEFAULT_DAYS_AHEAD) * DAY_MS);
+
+  let query = supabase
+    .from('matches')
+    .select('*')
+    .eq('match_status', 'scheduled')
+    .gte('match_time', from.toISOString())
+    .lte('match_time', to.toISOString());
+
+  if (filters.league) query = query.eq('league', filters.league);
+
+  const { data, error } = await query
+    .order('match_time', { ascending: true })
+    .limit(filters.limit ?? DEFAULT_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Ligák, amelyekben van ütemezett mérkőzés
+ */
+export const loadFixtureLeagues = async (): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('matches')
+    .select('league')
+    .eq('match_status', 'scheduled')
+    .gte('match_time', new Date().toISOString());
+
+  if (error) throw error;
+  return [...new Set((data || []).map(row => row.league))].sort();
+};
+
+/**
+ * Ütemezett mérkőzésből predikciós bemenet
+ */
+export const fixtureToPredictionInput = (fixture: Match): PredictionInput => ({
+  home_team: fixture.home_team,
+  away_team: fixture.away_team,
+  match_id: fixture.id,
+  match_context: {
+    date: fixture.match_time,
+    competition: fixture.league,
+    ...(fixture.season && { season: fixture.season }),
+    ...(fixture.venue && { home_venue: fixture.venue })
+  }
+});
+
+// Egy CSV sor mezői; idézőjeles mezőben az elválasztó és a "" megengedett
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+};
+
+/**
+ * CSV tartalom fejléc szerinti sorokká (',' vagy ';' elválasztó)
+ */
+export const parseCsv = (content: string): Record<string, string>[] => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(h => h.toLowerCase());
+
+  return lines.slice(1).map(line => {
+    const values = splitCsvLine(line, delimiter);
+    return Object.fromEntries(header.map((key, i) => [key, values[i] ?? '']));
+  });
+};
+
+const parseJson = (content: string): Record<string, unknown>[] => {
+  const parsed: unknown = JSON.parse(content);
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { fixtures?: unknown })?.fixtures;
+
+  if (!Array.isArray(rows)) throw new Error('A JSON fájlnak tömböt vagy { fixtures: [...] } objektumot kell tartalmaznia');
+  return rows as Record<string, unknown>[];
+};
+
+/**
+ * Import fájl feldolgozása és soronkénti ellenőrzése
+ */
+export const parseFixturesFile = (content: string, format: FixtureFileFormat): FixtureParseResult => {
+  const rows = format === 'csv' ? parseCsv(content) : parseJson(content);
+  const fixtures: FixtureImportRow[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const value = (key: string) => {
+      const field = row[key];
+      return field === undefined || field === null ? '' : String(field).trim();
+    };
+    const missing = REQUIRED_FIELDS.filter(key => !value(key));
+    const time = new Date(value('match_time'));
+
+    if (missing.length > 0) {
+      errors.push(`${index + 1}. sor: hiányzó mező (${missing.join(', ')})`);
+    } else if (Number.isNaN(time.getTime())) {
+      errors.push(`${index + 1}. sor: érvénytelen időpont (${value('match_time')})`);
+    } else if (value('home_team') === value('away_team')) {
+      errors.push(`${index + 1}. sor: azonos hazai és vendég csapat`);
+    } else {
+      fixtures.push({
+        home_team: value('home_team'),
+        away_team: value('away_team'),
+        match_time: time.toISOString(),
+        league: value('league'),
+        ...(value('season') && { season: value('season') }),
+        ...(value('venue') && { venue: value('venue') })
+      });
+    }
+  });
+
+  return { fixtures, errors };
+};
+
+/**
+ * Liga nevek → leagues.id; az ismeretlen nevek kimaradnak
+ */
+export const resolveLeagueIds = async (names: string[]): Promise<Map<string, number>> => {
+  const unique = [...new Set(names)];
+  if (unique.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('leagues')
+    .select('id, name')
+    .in('name', unique);
+
+  if (error) throw error;
+  return new Map((data || []).map(league => [league.name, league.id]));
+};
+
+const fixtureKey = (fixture: Pick<Match, 'home_team' | 'away_team' | 'match_time'>) =>
+  `${fixture.home_team}|${fixture.away_team}|${new Date(fixture.match_time).toISOString()}`;
+
+/**
+ * Már meglévő mérkőzések kulcsai az import időszakában és csapataira, lapozva
+ */
+const loadExistingFixtureKeys = async (fixtures: FixtureImportRow[]): Promise<Set<string>> => {
+  const times = fixtures.map(f => new Date(f.match_time).getTime());
+  const homeTeams = [...new Set(fixtures.map(f => f.home_team))];
+  const awayTeams = [...new Set(fixtures.map(f => f.away_team))];
+  const keys = new Set<string>();
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('home_team, away_team, match_time')
+      .in('home_team', homeTeams)
+      .in('away_team', awayTeams)
+      .gte('match_time', new Date(Math.min(...times)).toISOString())
+      .lte('match_time', new Date(Math.max(...times)).toISOString())
+      .order('id')
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    (data || []).forEach(match => keys.add(fixtureKey(match)));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) return keys;
+  }
+};
+
+/**
+ * Ütemezett mérkőzések beszúrása; a már meglévő (csapatok + időpont) sorokat kihagyja
+ */
+export const importFixtures = async (fixtures: FixtureImportRow[]): Promise<FixtureImportResult> => {
+  if (fixtures.length === 0) return { inserted: 0, skipped: 0 };
+
+  const seen = await loadExistingFixtureKeys(fixtures);
+  const fresh = fixtures.filter(fixture => {
+    const key = fixtureKey(fixture);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (fresh.length > 0) {
+    const leagueIds = await resolveLeagueIds(fresh.map(fixture => fixture.league));
+
+    // A végeredmény oszlopok kötelezőek; lejátszásig 0, a match_status jelzi az ütemezettséget
+    const { error } = await supabase.from('matches').insert(
+      fresh.map(fixture => ({
+        ...fixture,
+        league_id: leagueIds.get(fixture.league) ?? null,
+        match_status: 'scheduled' as const,
+        full_time_home_goals: 0,
+        full_time_away_goals: 0
+      }))
+    );
+
+    if (error) throw error;
+  }
+
+  return { inserted: fresh.length, skipped: fixtures.length - fresh.length };
+};
@@ -0,0 +1,288 @@
+/**
+ * Gradiens boosting döntési fák (XGBoost-stílusú, tisztán TypeScriptben)
+ *
+ * Többosztályos softmax célfüggvény, másodrendű (gradiens + hessian) fa
+ * építés, hisztogram alapú vágáskereséssel. A modell JSON-ként
+ * szerializálható, így a `team_models.model_data` oszlopban tárolható.
+ */
+
+export interface GradientBoostingOptions {
+  num_rounds: number;
+  learning_rate: number;
+  max_depth: number;
+  min_child_weight: number;   // Minimális hessian összeg egy levélben
+  lambda: number;             // L2 regularizáció a levélsúlyokon
+  gamma: number;              // Minimális nyereség egy vágáshoz
+  max_bins: number;
+  validation_fraction: number;
+  early_stopping_rounds: number;
+}
+
+export const DEFAULT_BOOSTING_OPTIONS: GradientBoostingOptions = {
+  num_rounds: 150,
+  learning_rate: 0.08,
+  max_depth: 3,
+  min_child_weight: 2,
+  lambda: 1,
+  gamma: 0,
+  max_bins: 32,
+  validation_fraction: 0.15,
+  early_stopping_rounds: 15
+};
+
+// Lapos fa reprezentáció: vágás csomópont vagy levél
+export type TreeNode =
+  | { feature: number; threshold: number; left: number; right: number }
+  | { value: number };
+
+export interface GradientBoostingModel {
+  format_version: 1;
+  num_classes: number;
+  feature_names: string[];
+  base_scores: number[];
+  trees: TreeNode[][][];        // [kör][osztály][csomópont]
+  feature_importance: number[]; // Normalizált összesített nyereség
+  training_samples: number;
+  validation_log_loss: number | null;
+  trained_at: string;
+}
+
+interface SplitCandidate {
+  feature: number;
+  bin: number;
+  gain: number;
+}
+
+const softmax = (scores: number[]): number[] => {
+  const max = Math.max(...scores);
+  const exps = scores.map(s => Math.exp(s - max));
+  const total = exps.reduce((sum, e) => sum + e, 0);
+  return exps.map(e => e / total);
+};
+
+const logLoss = (probabilities: number[][], labels: number[]): number =>
+  labels.reduce((sum, label, i) => sum - Math.log(Math.max(probabilities[i][label], 1e-15)), 0) /
+  Math.max(labels.length, 1);
+
+/**
+ * Kvantilis alapú vágási pontok jellemzőnként
+ */
+const computeBinEdges = (X: number[][], featureCount: number, maxBins: number): number[][] =>
+  Array.from({ length: featureCount }, (_, f) => {
+    const values = Array.from(new Set(X.map(row => row[f]))).sort((a, b) => a - b);
+    if (values.length <= maxBins) {
+      return values.slice(0, -1).map((v, i) => (v + values[i + 1]) / 2);
+    }
+    const edges: number[] = [];
+    for (let b = 1; b < maxBins; b++) {
+      const edge = values[Math.floor((b * values.length) / maxBins)];
+      if (edges[edges.length - 1] !== edge) edges.push(edge);
+    }
+    return edges;
+  });
+
+const binIndex = (edges: number[], value: number): number => {
+  let lo = 0;
+  let hi = edges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (value <= edges[mid]) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+};
+
+/**
+ * Egy regressziós fa építése a gradiensekre
+ */
+const buildTree = (
+  binned: number[][],
+  binEdges: number[][],
+  gradients: number[],
+  hessians: number[],
+  rows: number[],
+  opts: GradientBoostingOptions,
+  importance: number[]
+): TreeNode[] => {
+  const nodes: TreeNode[] = [];
+
+  const grow = (nodeRows: number[], depth: number): number => {
+    const index = nodes.length;
+    let G = 0;
+    let H = 0;
+    nodeRows.forEach(r => {
+      G += gradients[r];
+      H += hessians[r];
+    });
+    const leafValue = (-G / (H + opts.lambda)) * opts.learning_rate;
+    nodes.push({ value: leafValue });
+
+    if (depth >= opts.max_depth || H < 2 * opts.min_child_weight) return index;
+
+    const parentScore = (G * G) / (H + opts.lambda);
+    let best: SplitCandidate | null = null;
+
+    binEdges.forEach((edges, f) => {
+      if (edges.length === 0) return;
+      const gradHist = new Float64Array(edges.length + 1);
+      const hessHist = new Float64Array(edges.length + 1);
+      nodeRows.forEach(r => {
+        gradHist[binned[r][f]] += gradients[r];
+        hessHist[binned[r][f]] += hessians[r];
+      });
+
+      let GL = 0;
+      let HL = 0;
+      for (let b = 0; b < edges.length; b++) {
+        GL += gradHist[b];
+        HL += hessHist[b];
+        const GR = G - GL;
+        const HR = H - HL;
+        if (HL < opts.min_child_weight || HR < opts.min_child_weight) continue;
+        const gain = 0.5 * ((GL * GL) / (HL + opts.lambda) + (GR * GR) / (HR + opts.lambda) - parentScore) - opts.gamma;
+        if (gain > 0 && (!best || gain > best.gain)) {
+          best = { feature: f, bin: b, gain };
+        }
+      }
+    });
+
+    if (!best) return index;
+
+    const split: SplitCandidate = best;
+    importance[split.feature] += split.gain;
+    const leftRows = nodeRows.filter(r => binned[r][split.feature] <= split.bin);
+    const rightRows = nodeRows.filter(r => binned[r][split.feature] > split.bin);
+    const left = grow(leftRows, depth + 1);
+    const right = grow(rightRows, depth + 1);
+    nodes[index] = { feature: split.feature, threshold: binEdges[split.feature][split.bin], left, right };
+    return index;
+  };
+
+  grow(rows, 0);
+  return nodes;
+};
+
+const evaluateTree = (nodes: TreeNode[], x: number[]): number => {
+  let node = nodes[0];
+  while (!('value' in node)) {
+    node = nodes[x[node.feature] <= node.threshold ? node.left : node.right];
+  }
+  return node.value;
+};
+
+/**
+ * Modell tanítása. A címkék osztály indexek (0..numClasses-1); a minták
+ * végéből leválasztott validációs halmazon korai leállítást alkalmazunk,
+ * ezért időrendben rendezett mintákat érdemes átadni.
+ */
+export const trainGradientBoosting = (
+  X: number[][],
+  y: number[],
+  featureNames: string[],
+  numClasses: number,
+  options: Partial<GradientBoostingOptions> = {}
+): GradientBoostingModel => {
+  const opts = { ...DEFAULT_BOOSTING_OPTIONS, ...options };
+  const featureCount = featureNames.length;
+
+  const validationSize = X.length >= 50 ? Math.floor(X.length * opts.validation_fraction) : 0;
+  const trainSize = X.length - validationSize;
+  const trainRows = Array.from({ length: trainSize }, (_, i) => i);
+
+  // Kezdő pontszámok: osztály gyakoriságok logaritmusa
+  const classCounts = Array(numClasses).fill(1);
+  trainRows.forEach(r => classCounts[y[r]]++);
+  const totalCount = classCounts.reduce((sum, c) => sum + c, 0);
+  const baseScores = classCounts.map(c => Math.log(c / totalCount));
+
+  const binEdges = computeBinEdges(X.slice(0, trainSize), featureCount, opts.max_bins);
+  const binned = X.map(row => row.map((v, f) => binIndex(binEdges[f], v)));
+
+  const scores = X.map(() => [...baseScores]);
+  const roundImportances: number[][] = [];
+  const trees: TreeNode[][][] = [];
+
+  let bestValidationLoss = Infinity;
+  let bestRoundCount = 0;
+  let roundsWithoutImprovement = 0;
+
+  for (let round = 0; round < opts.num_rounds; round++) {
+    const probabilities = scores.map(softmax);
+    const roundTrees: TreeNode[][] = [];
+    const importance = Array(featureCount).fill(0);
+
+    for (let k = 0; k < numClasses; k++) {
+      const gradients = new Array(X.length).fill(0);
+      const hessians = new Array(X.length).fill(0);
+      trainRows.forEach(r => {
+        const p = probabilities[r][k];
+        gradients[r] = p - (y[r] === k ? 1 : 0);
+        hessians[r] = Math.max(p * (1 - p), 1e-6);
+      });
+      roundTrees.push(buildTree(binned, binEdges, gradients, hessians, trainRows, opts, importance));
+    }
+
+    trees.push(roundTrees);
+    roundImportances.push(importance);
+    X.forEach((x, r) => {
+      roundTrees.forEach((tree, k) => {
+        scores[r][k] += evaluateTree(tree, x);
+      });
+    });
+
+    if (validationSize > 0) {
+      const validationLoss = logLoss(scores.slice(trainSize).map(softmax), y.slice(trainSize));
+      if (validationLoss < bestValidationLoss - 1e-6) {
+        bestValidationLoss = validationLoss;
+        bestRoundCount = trees.length;
+        roundsWithoutImprovement = 0;
+      } else if (++roundsWithoutImprovement >= opts.early_stopping_rounds) {
+        break;
+      }
+    } else {
+      bestRoundCount = trees.length;
+    }
+  }
+
+  // Csak a megtartott körök nyeresége számít a fontosságba
+  const importance = Array(featureCount).fill(0);
+  roundImportances.slice(0, bestRoundCount).forEach(round => {
+    round.forEach((gain, f) => {
+      importance[f] += gain;
+    });
+  });
+  const totalImportance = importance.reduce((sum, v) => sum + v, 0);
+
+  return {
+    format_version: 1,
+    num_classes: numClasses,
+    feature_names: featureNames,
+    base_scores: baseScores,
+    trees: trees.slice(0, bestRoundCount),
+    feature_importance: importance.map(v => (totalImportance > 0 ? v / totalImportance : 0)),
+    training_samples: trainSize,
+    validation_log_loss: validationSize > 0 ? bestValidationLoss : null,
+    trained_at: new Date().toISOString()
+  };
+};
+
+/**
+ * Osztály valószínűségek egy feature vektorra
+ */
+export const predictProbabilities = (model: GradientBoostingModel, x: number[]): number[] => {
+  const scores = [...model.base_scores];
+  model.trees.forEach(roundTrees => {
+    roundTrees.forEach((tree, k) => {
+      scores[k] += evaluateTree(tree, x);
+    });
+  });
+  return softmax(scores);
+};
+
+/**
+ * Feature fontosságok csökkenő sorrendben
+ */
+export const featureImportances = (model: GradientBoostingModel) =>
+  model.feature_names
+    .map((name, index) => ({ name, index, importance: model.feature_importance[index] }))
+    .sort((a, b) => b.importance - a.importance);
@@ -0,0 +1,108 @@
+import { supabase, type Match } from '@/lib/supabase';
+import type { Database } from '@/integrations/supabase/types';
+import { SupabaseMatchDataSource } from '@/services/match-data-source';
+import {
+  loadTeamFeatures,
+  rpcFirstRow,
+  settledValue,
+  splitStats,
+  toTeamResult,
+  type SplitStats,
+  type TeamMatchResult
+} from '@/services/team-profile';
+import type { TeamFeatures } from '@/types/prediction';
+
+/**
+ * Két csapat egymás elleni összevetése mindkét pályaválasztással
+ */
+
+type Functions = Database['public']['Functions'];
+export type H2HRecordRow = Functions['get_h2h_record']['Returns'][number];
+export type H2HStatsRow = Functions['get_h2h_stats']['Returns'][number];
+
+export interface HeadToHeadComparison {
+  team_a: string;
+  team_b: string;
+  history: TeamMatchResult[];          // Az A csapat szemszögéből, legfrissebb elöl
+  overall: SplitStats;
+  team_a_home: SplitStats;             // A otthon, B vendégként
+  team_a_away: SplitStats;             // B otthon, A vendégként
+  dominance_score: number;             // -1 (B uralja) .. 1 (A uralja)
+  avg_goals_a: number;
+  avg_goals_b: number;
+  ht_ft_matrix: number[][];            // [félidő A/D/B][végeredmény A/D/B] darabszámok
+  ht_ft_matches: number;
+  features: { team_a: TeamFeatures; team_b: TeamFeatures };
+  record: H2HRecordRow | null;
+  stats: H2HStatsRow | null;
+}
+
+const H2H_LIMIT = 200;
+
+const dataSource = new SupabaseMatchDataSource();
+
+// 0 = A vezet/nyer, 1 = döntetlen, 2 = B vezet/nyer
+const sideIndex = (goalsA: number, goalsB: number) => (goalsA > goalsB ? 0 : goalsA === goalsB ? 1 : 2);
+
+/**
+ * Félidő → végeredmény darabszámok az A csapat szemszögéből
+ */
+export const halftimeFulltimeMatrix = (matches: Match[], teamA: string) => {
+  const matrix = Array.from({ length: 3 }, () => [0, 0, 0]);
+  let counted = 0;
+
+  matches.forEach(m => {
+    if (m.half_time_home_goals === null || m.half_time_away_goals === null) return;
+    const aHome = m.home_team === teamA;
+    const ht = aHome
+      ? sideIndex(m.half_time_home_goals, m.half_time_away_goals)
+      : sideIndex(m.half_time_away_goals, m.half_time_home_goals);
+    const ft = aHome
+      ? sideIndex(m.full_time_home_goals, m.full_time_away_goals)
+      : sideIndex(m.full_time_away_goals, m.full_time_home_goals);
+    matrix[ht][ft]++;
+    counted++;
+  });
+
+  return { matrix, counted };
+};
+
+/**
+ * Egymás elleni adatok, RPC összesítések és a két csapat aktuális feature-jei
+ */
+export const loadHeadToHeadComparison = async (teamA: string, teamB: string): Promise<HeadToHeadComparison> => {
+  const [matches, featuresA, featuresB] = await Promise.all([
+    dataSource.getMatches({ pair: [teamA, teamB], limit: H2H_LIMIT }),
+    loadTeamFeatures(teamA),
+    loadTeamFeatures(teamB)
+  ]);
+
+  const [record, stats] = await Promise.allSettled([
+    rpcFirstRow(supabase.rpc('get_h2h_record', { team1: teamA, team2: teamB })),
+    rpcFirstRow(supabase.rpc('get_h2h_stats', { p_team1_name: teamA, p_team2_name: teamB, p_h2h_matches_limit: H2H_LIMIT }))
+  ]);
+
+  const history = matches.map(m => toTeamResult(m, teamA));
+  const overall = splitStats(history);
+  const { matrix, counted } = halftimeFulltimeMatrix(matches, teamA);
+  const statsRow = settledValue(stats, 'get_h2h_stats');
+
+  return {
+    team_a: teamA,
+    team_b: teamB,
+    history,
+    overall,
+    team_a_home: splitStats(history.filter(r => r.venue === 'home')),
+    team_a_away: splitStats(history.filter(r => r.venue === 'away')),
+    // Az RPC pontszámát használjuk, ha elérhető; különben a győzelmi különbség aránya
+    dominance_score: statsRow?.h2h_dominance_score ??
+      (overall.matches > 0 ? (overall.wins - overall.losses) / overall.matches : 0),
+    avg_goals_a: overall.matches > 0 ? overall.goals_for / overall.matches : 0,
+    avg_goals_b: overall.matches > 0 ? overall.goals_against / overall.matches : 0,
+    ht_ft_matrix: matrix,
+    ht_ft_matches: counted,
+    features: { team_a: featuresA, team_b: featuresB },
+    record: settledValue(record, 'get_h2h_record'),
+    stats: statsRow
+  };
+};
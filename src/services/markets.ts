@@ -0,0 +1,245 @@
+import type { PredictionOutput } from '@/types/prediction';
+
+/**
+ * Fogadási piacok levezetése a pontos eredmény valószínűségi rácsából
+ *
+ * A rács [hazai gól][vendég gól] indexelésű, normalizált (összege 1).
+ */
+
+export type ScoreGrid = number[][];
+
+// Ázsiai (negyedes) vonalak elszámolása: a tét két fele külön elszámolt
+export interface LineSettlement {
+  win: number;
+  half_win: number;
+  push: number;
+  half_loss: number;
+  loss: number;
+}
+
+export interface LineMarket {
+  line: number;
+  over: LineSettlement;            // Totalnál "felett", hendikepnél a hazai oldal
+  under: LineSettlement;           // Totalnál "alatt", hendikepnél a vendég oldal
+}
+
+export interface MarketSelection {
+  label: string;
+  probability: number;
+}
+
+export type HalftimeFulltimeKey = `${'H' | 'D' | 'A'}/${'H' | 'D' | 'A'}`;
+
+export interface MarketSet {
+  match_result: { home: number; draw: number; away: number };
+  totals: LineMarket[];
+  btts: { yes: number; no: number };
+  double_chance: { home_or_draw: number; home_or_away: number; draw_or_away: number };
+  draw_no_bet: { home: number; away: number };
+  asian_handicap: LineMarket[];
+  correct_score: MarketSelection[];
+  team_totals: { home: LineMarket[]; away: LineMarket[] };
+  winning_margin: MarketSelection[];
+  halftime_fulltime: Record<HalftimeFulltimeKey, number>;
+}
+
+export interface MarketOptions {
+  total_lines: number[];
+  handicap_lines: number[];        // A hazai csapatra értve (-0.5 = hazai ad fél gólt)
+  team_total_lines: number[];
+  correct_scores: number;          // Ennyi legvalószínűbb eredmény, a többi "Egyéb"
+  first_half_goal_share: number;   // Egy gól első félidőbe esésének valószínűsége
+}
+
+export const DEFAULT_MARKET_OPTIONS: MarketOptions = {
+  total_lines: [0.5, 1.5, 2.5, 3.5, 4.5],
+  handicap_lines: [-2, -1.5, -1, -0.75, -0.5, -0.25, 0, 0.25, 0.5, 0.75, 1, 1.5],
+  team_total_lines: [0.5, 1.5, 2.5],
+  correct_scores: 10,
+  first_half_goal_share: 0.45
+};
+
+const HTFT_OUTCOMES = ['H', 'D', 'A'] as const;
+
+const emptySettlement = (): LineSettlement => ({ win: 0, half_win: 0, push: 0, half_loss: 0, loss: 0 });
+
+const outcomeOf = (home: number, away: number) => (home > away ? 'H' : home === away ? 'D' : 'A');
+
+const cells = (grid: ScoreGrid) =>
+  grid.flatMap((row, home) => row.map((probability, away) => ({ home, away, probability })));
+
+const sumWhere = (grid: ScoreGrid, predicate: (home: number, away: number) => boolean) =>
+  cells(grid).reduce((sum, c) => (predicate(c.home, c.away) ? sum + c.probability : sum), 0);
+
+/**
+ * Rács a predikció score_probabilities listájából, normalizálva
+ */
+export const scoreGridFromPrediction = (prediction: PredictionOutput): ScoreGrid | null => {
+  const scores = prediction.scoreline_predictions?.score_probabilities;
+  if (!scores || scores.length === 0) return null;
+
+  const size = Math.max(...scores.flatMap(s => [s.home_goals, s.away_goals])) + 1;
+  const grid = Array.from({ length: size }, () => new Array(size).fill(0));
+  scores.forEach(s => { grid[s.home_goals][s.away_goals] += s.probability; });
+
+  const total = scores.reduce((sum, s) => sum + s.probability, 0);
+  return total > 0 ? grid.map(row => row.map(p => p / total)) : null;
+};
+
+/**
+ * Egy oldal elszámolása: margin = eredmény - vonal az oldal szemszögéből; negyedes vonalnál
+ * a tét fele line - 0.25, fele line + 0.25 vonalon megy
+ */
+export const settleLine = (
+  grid: ScoreGrid,
+  margin: (home: number, away: number, line: number) => number,
+  line: number
+): LineSettlement => {
+  const settlement = emptySettlement();
+  const quarter = Math.abs((line * 4) % 2) === 1;
+  const halves = quarter ? [line - 0.25, line + 0.25] : [line, line];
+
+  cells(grid).forEach(({ home, away, probability }) => {
+    const results = halves.map(half => Math.sign(margin(home, away, half)));
+    const score = results[0] + results[1];   // 2 = nyer, 1 = félig nyer, 0 = visszajár, -1 / -2 = félig / teljesen veszít
+
+    if (score === 2) settlement.win += probability;
+    else if (score === 1) settlement.half_win += probability;
+    else if (score === 0) settlement.push += probability;
+    else if (score === -1) settlement.half_loss += probability;
+    else settlement.loss += probability;
+  });
+
+  return settlement;
+};
+
+/**
+ * Méltányos szorzó, amelynél a várható nyereség nulla
+ */
+export const fairOdds = (settlement: LineSettlement): number | null => {
+  const winning = settlement.win + settlement.half_win / 2;
+  if (winning <= 0) return null;
+  return 1 + (settlement.loss + settlement.half_loss / 2) / winning;
+};
+
+/**
+ * Gólszám felett/alatt tetszőleges (negyedes) vonalra
+ */
+export const totalsMarket = (grid: ScoreGrid, line: number): LineMarket => ({
+  line,
+  over: settleLine(grid, (h, a, l) => h + a - l, line),
+  under: settleLine(grid, (h, a, l) => l - (h + a), line)
+});
+
+/**
+ * Csapat gólszám felett/alatt
+ */
+export const teamTotalsMarket = (grid: ScoreGrid, team: 'home' | 'away', line: number): LineMarket => {
+  const goals = (h: number, a: number) => (team === 'home' ? h : a);
+  return {
+    line,
+    over: settleLine(grid, (h, a, l) => goals(h, a) - l, line),
+    under: settleLine(grid, (h, a, l) => l - goals(h, a), line)
+  };
+};
+
+/**
+ * Ázsiai hendikep; a vonal a hazai csapatra értendő, a vendég oldal az ellentettje
+ */
+export const asianHandicapMarket = (grid: ScoreGrid, line: number): LineMarket => ({
+  line,
+  over: settleLine(grid, (h, a, l) => h - a + l, line),
+  under: settleLine(grid, (h, a, l) => a - h + l, -line)
+});
+
+/**
+ * Legvalószínűbb pontos eredmények, a maradék "Egyéb" tételként
+ */
+export const correctScoreMarket = (grid: ScoreGrid, count: number): MarketSelection[] => {
+  const sorted = cells(grid).sort((a, b) => b.probability - a.probability);
+  const top = sorted.slice(0, count).map(c => ({ label: `${c.home}-${c.away}`, probability: c.probability }));
+  const rest = sorted.slice(count).reduce((sum, c) => sum + c.probability, 0);
+  return rest > 0 ? [...top, { label: 'Egyéb', probability: rest }] : top;
+};
+
+/**
+ * Győzelmi különbség: hazai / vendég 1, 2, 3+ góllal, gólos és gól nélküli döntetlen
+ */
+export const winningMarginMarket = (grid: ScoreGrid): MarketSelection[] => [
+  { label: 'Hazai 3+', probability: sumWhere(grid, (h, a) => h - a >= 3) },
+  { label: 'Hazai 2', probability: sumWhere(grid, (h, a) => h - a === 2) },
+  { label: 'Hazai 1', probability: sumWhere(grid, (h, a) => h - a === 1) },
+  { label: 'Gól nélküli döntetlen', probability: grid[0]?.[0] ?? 0 },
+  { label: 'Gólos döntetlen', probability: sumWhere(grid, (h, a) => h === a && h > 0) },
+  { label: 'Vendég 1', probability: sumWhere(grid, (h, a) => a - h === 1) },
+  { label: 'Vendég 2', probability: sumWhere(grid, (h, a) => a - h === 2) },
+  { label: 'Vendég 3+', probability: sumWhere(grid, (h, a) => a - h >= 3) }
+];
+
+const binomial = (n: number, k: number, p: number) => {
+  let coefficient = 1;
+  for (let i = 1; i <= k; i++) coefficient = (coefficient * (n - k + i)) / i;
+  return coefficient * Math.pow(p, k) * Math.pow(1 - p, n - k);
+};
+
+/**
+ * Félidő/végeredmény (9 kimenetel): a végeredmény minden gólja egymástól függetlenül
+ * first_half_share valószínűséggel esik az első félidőbe
+ */
+export const halftimeFulltimeMarket = (grid: ScoreGrid, firstHalfShare: number): Record<HalftimeFulltimeKey, number> => {
+  const market = Object.fromEntries(
+    HTFT_OUTCOMES.flatMap(ht => HTFT_OUTCOMES.map(ft => [`${ht}/${ft}`, 0]))
+  ) as Record<HalftimeFulltimeKey, number>;
+
+  cells(grid).forEach(({ home, away, probability }) => {
+    if (probability === 0) return;
+    const fulltime = outcomeOf(home, away);
+    for (let htHome = 0; htHome <= home; htHome++) {
+      for (let htAway = 0; htAway <= away; htAway++) {
+        const split = binomial(home, htHome, firstHalfShare) * binomial(away, htAway, firstHalfShare);
+        market[`${outcomeOf(htHome, htAway)}/${fulltime}`] += probability * split;
+      }
+    }
+  });
+
+  return market;
+};
+
+/**
+ * Minden piac egy rácsból
+ */
+export const deriveMarkets = (grid: ScoreGrid, options: Partial<MarketOptions> = {}): MarketSet => {
+  const settings = { ...DEFAULT_MARKET_OPTIONS, ...options };
+  const home = sumWhere(grid, (h, a) => h > a);
+  const draw = sumWhere(grid, (h, a) => h === a);
+  const away = sumWhere(grid, (h, a) => h < a);
+  const btts = sumWhere(grid, (h, a) => h > 0 && a > 0);
+  const decisive = home + away;
+
+  return {
+    match_result: { home, draw, away },
+    totals: settings.total_lines.map(line => totalsMarket(grid, line)),
+    btts: { yes: btts, no: 1 - btts },
+    double_chance: { home_or_draw: home + draw, home_or_away: home + away, draw_or_away: draw + away },
+    draw_no_bet: { home: decisive > 0 ? home / decisive : 0, away: decisive > 0 ? away / decisive : 0 },
+    asian_handicap: settings.handicap_lines.map(line => asianHandicapMarket(grid, line)),
+    correct_score: correctScoreMarket(grid, settings.correct_scores),
+    team_totals: {
+      home: settings.team_total_lines.map(line => teamTotalsMarket(grid, 'home', line)),
+      away: settings.team_total_lines.map(line => teamTotalsMarket(grid, 'away', line))
+    },
+    winning_margin: winningMarginMarket(grid),
+    halftime_fulltime: halftimeFulltimeMarket(grid, settings.first_half_goal_share)
+  };
+};
+
+/**
+ * Piacok közvetlenül a predikcióból (null, ha nincs eredmény-rács)
+ */
+export const marketsFromPrediction = (
+  prediction: PredictionOutput,
+  options: Partial<MarketOptions> = {}
+): MarketSet | null => {
+  const grid = scoreGridFromPrediction(prediction);
+  return grid ? deriveMarkets(grid, options) : null;
+};
@@ -0,0 +1,204 @@
+import type { Match } from '@/lib/supabase';
+import type { TransitionMatrix, TransitionModel } from '@/types/prediction';
+
+/**
+ * Félidő → végeredmény átmeneti modell
+ *
+ * A félidei gólkülönbséget öt állapotba soroljuk (-2 vagy kevesebb, -1, 0,
+ * +1, +2 vagy több), és minden állapothoz egy [H, D, A] végeredmény eloszlást
+ * becslünk. A ritka párosításokat hierarchikus Dirichlet priorral simítjuk:
+ * alapértelmezés → liga → csapatok → egymás elleni meccsek.
+ */
+
+export type TransitionSourceMatch = Pick<
+  Match,
+  | 'home_team'
+  | 'away_team'
+  | 'half_time_home_goals'
+  | 'half_time_away_goals'
+  | 'full_time_home_goals'
+  | 'full_time_away_goals'
+>;
+
+export interface TransitionCounts {
+  rows: number[][];       // [állapot][H, D, A] darabszámok
+  halftime: number[];     // [állapot] darabszámok
+  total: number;
+}
+
+export interface TransitionSources {
+  pair: TransitionSourceMatch[];
+  home_team: TransitionSourceMatch[];
+  away_team: TransitionSourceMatch[];
+  league: TransitionSourceMatch[];
+  home_team_name: string;
+}
+
+export interface TransitionSmoothing {
+  league_strength: number;   // Pszeudo-meccsek az alapértelmezett prior felé
+  team_strength: number;     // Pszeudo-meccsek a liga prior felé
+  pair_strength: number;     // Pszeudo-meccsek a csapat prior felé
+}
+
+export const DEFAULT_TRANSITION_SMOOTHING: TransitionSmoothing = {
+  league_strength: 10,
+  team_strength: 12,
+  pair_strength: 8
+};
+
+export const STATE_COUNT = 5;
+
+const DEFAULT_ROWS: number[][] = [
+  [0.04, 0.10, 0.86],
+  [0.14, 0.28, 0.58],
+  [0.35, 0.30, 0.35],
+  [0.58, 0.28, 0.14],
+  [0.86, 0.10, 0.04]
+];
+
+const DEFAULT_HALFTIME: number[] = [0.05, 0.19, 0.42, 0.23, 0.11];
+
+/**
+ * Félidei gólkülönbség → állapot index (0..4)
+ */
+export const halftimeStateIndex = (homeGoals: number, awayGoals: number): number =>
+  Math.max(-2, Math.min(2, homeGoals - awayGoals)) + 2;
+
+const outcomeIndex = (homeGoals: number, awayGoals: number): number => {
+  if (homeGoals > awayGoals) return 0;
+  if (homeGoals === awayGoals) return 1;
+  return 2;
+};
+
+const emptyCounts = (): TransitionCounts => ({
+  rows: Array.from({ length: STATE_COUNT }, () => [0, 0, 0]),
+  halftime: Array(STATE_COUNT).fill(0),
+  total: 0
+});
+
+/**
+ * Átmenetek megszámolása; ha a mérkőzésben a `homeTeam` vendég volt,
+ * a meccset megfordítjuk, hogy a hazai nézőpont egységes legyen
+ */
+export const countTransitions = (matches: TransitionSourceMatch[], homeTeam?: string): TransitionCounts => {
+  const counts = emptyCounts();
+
+  matches.forEach(m => {
+    if (m.half_time_home_goals === null || m.half_time_away_goals === null) return;
+
+    const flip = homeTeam !== undefined && m.away_team === homeTeam;
+    const htHome = flip ? m.half_time_away_goals : m.half_time_home_goals;
+    const htAway = flip ? m.half_time_home_goals : m.half_time_away_goals;
+    const ftHome = flip ? m.full_time_away_goals : m.full_time_home_goals;
+    const ftAway = flip ? m.full_time_home_goals : m.full_time_away_goals;
+
+    const state = halftimeStateIndex(htHome, htAway);
+    counts.rows[state][outcomeIndex(ftHome, ftAway)]++;
+    counts.halftime[state]++;
+    counts.total++;
+  });
+
+  return counts;
+};
+
+const mergeCounts = (a: TransitionCounts, b: TransitionCounts): TransitionCounts => ({
+  rows: a.rows.map((row, state) => row.map((count, outcome) => count + b.rows[state][outcome])),
+  halftime: a.halftime.map((count, state) => count + b.halftime[state]),
+  total: a.total + b.total
+});
+
+/**
+ * Dirichlet poszterior átlag: (megfigyelt + erősség × prior) / (n + erősség)
+ */
+const smooth = (
+  counts: TransitionCounts,
+  priorRows: number[][],
+  priorHalftime: number[],
+  strength: number
+) => {
+  const rows = counts.rows.map((row, state) => {
+    const n = row.reduce((sum, c) => sum + c, 0);
+    return row.map((c, outcome) => (c + strength * priorRows[state][outcome]) / (n + strength));
+  });
+  const halftime = counts.halftime.map(
+    (c, state) => (c + strength * priorHalftime[state]) / (counts.total + strength)
+  );
+  return { rows, halftime };
+};
+
+/**
+ * Hierarchikusan simított átmeneti modell becslése
+ */
+export const estimateTransitionModel = (
+  sources: TransitionSources,
+  smoothing: Partial<TransitionSmoothing> = {}
+): TransitionModel => {
+  const opts = { ...DEFAULT_TRANSITION_SMOOTHING, ...smoothing };
+
+  const leagueCounts = countTransitions(sources.league);
+  const league = smooth(leagueCounts, DEFAULT_ROWS, DEFAULT_HALFTIME, opts.league_strength);
+
+  // A hazai csapat hazai és a vendég csapat idegenbeli meccsei közösen írják le a párosítást
+  const homeCounts = countTransitions(sources.home_team);
+  const awayCounts = countTransitions(sources.away_team);
+  const team = smooth(mergeCounts(homeCounts, awayCounts), league.rows, league.halftime, opts.team_strength);
+
+  const pairCounts = countTransitions(sources.pair, sources.home_team_name);
+  const pair = smooth(pairCounts, team.rows, team.halftime, opts.pair_strength);
+
+  return {
+    goal_difference_rows: pair.rows,
+    halftime_distribution: pair.halftime,
+    sample_sizes: {
+      pair: pairCounts.total,
+      home_team: homeCounts.total,
+      away_team: awayCounts.total,
+      league: leagueCounts.total
+    }
+  };
+};
+
+/**
+ * Az ötállapotú modell összevonása a klasszikus 3×3 mátrixszá
+ */
+export const toTransitionMatrix = (model: TransitionModel): TransitionMatrix => {
+  const collapse = (states: number[]) => {
+    const weight = states.reduce((sum, s) => sum + model.halftime_distribution[s], 0);
+    return [0, 1, 2].map(outcome =>
+      weight > 0
+        ? states.reduce((sum, s) => sum + model.halftime_distribution[s] * model.goal_difference_rows[s][outcome], 0) / weight
+        : model.goal_difference_rows[states[0]][outcome]
+    );
+  };
+
+  const [hh, hd, ha] = collapse([3, 4]);
+  const [dh, dd, da] = collapse([2]);
+  const [ah, ad, aa] = collapse([0, 1]);
+
+  return {
+    ht_h_to_ft_h: hh, ht_h_to_ft_d: hd, ht_h_to_ft_a: ha,
+    ht_d_to_ft_h: dh, ht_d_to_ft_d: dd, ht_d_to_ft_a: da,
+    ht_a_to_ft_h: ah, ht_a_to_ft_d: ad, ht_a_to_ft_a: aa
+  };
+};
+
+/**
+ * Végeredmény eloszlás; ismert félidei állással az adott állapot sorát adja vissza
+ */
+export const fulltimeDistribution = (
+  model: TransitionModel,
+  halftime?: { home_goals: number; away_goals: number } | null
+): [number, number, number] => {
+  if (halftime) {
+    const [h, d, a] = model.goal_difference_rows[halftimeStateIndex(halftime.home_goals, halftime.away_goals)];
+    return [h, d, a];
+  }
+
+  const result: [number, number, number] = [0, 0, 0];
+  model.goal_difference_rows.forEach((row, state) => {
+    row.forEach((p, outcome) => {
+      result[outcome] += model.halftime_distribution[state] * p;
+    });
+  });
+  return result;
+};
@@ -0,0 +1,147 @@
+import { supabase, type Match } from '@/lib/supabase';
+
+/**
+ * Mérkőzés adatforrás a predikciós motor számára
+ *
+ * Éles használatban a Supabase `matches` táblát kérdezi le, backtesthez
+ * memóriában tartott történeti meccseken dolgozik egy mozgó időhatárral.
+ * Mindkét megvalósítás csak lezárt mérkőzéseket ad vissza, legfrissebb elöl.
+ */
+
+export interface MatchQuery {
+  home_team?: string;
+  away_team?: string;
+  pair?: [string, string];      // Mindkét pályaválasztással
+  teams?: string[];             // Bármelyik csapat meccsei, bármelyik oldalon
+  league?: string;
+  require_halftime?: boolean;
+  before?: string;              // Csak az ennél korábbi meccsek
+  limit: number;
+}
+
+export interface MatchDataSource {
+  getMatches(query: MatchQuery): Promise<Match[]>;
+  // Amíg a kulcs nem változik, a modellek újrahasználhatják az illesztett paramétereiket
+  snapshotKey(): string;
+  // Használhatók-e a team_models táblában tárolt (teljes adaton tanított) modellek
+  readonly supportsStoredModels: boolean;
+}
+
+export const isFinishedMatch = (match: Pick<Match, 'match_status'>): boolean =>
+  !match.match_status || match.match_status === 'completed';
+
+// PostgREST `or` szűrő az isFinishedMatch feltételhez
+export const FINISHED_MATCH_FILTER = 'match_status.is.null,match_status.eq.completed';
+
+// A PostgREST alapértelmezett max-rows értéke
+export const SUPABASE_PAGE_SIZE = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export class SupabaseMatchDataSource implements MatchDataSource {
+  readonly supportsStoredModels = true;
+
+  async getMatches(query: MatchQuery): Promise<Match[]> {
+    const matches: Match[] = [];
+
+    // PostgREST kérésenként legfeljebb max-rows sort ad, ezért a limitig lapozunk
+    for (let from = 0; from < query.limit; from += SUPABASE_PAGE_SIZE) {
+      const to = Math.min(from + SUPABASE_PAGE_SIZE, query.limit) - 1;
+      const { data, error } = await this.buildRequest(query)
+        .order('match_time', { ascending: false })
+        .order('id', { ascending: false })
+        .range(from, to);
+
+      if (error) throw error;
+      matches.push(...(data || []));
+      if (!data || data.length < to - from + 1) break;
+    }
+
+    return matches;
+  }
+
+  private buildRequest(query: MatchQuery) {
+    let request = supabase
+      .from('matches')
+      .select('*')
+      .or(FINISHED_MATCH_FILTER);
+
+    if (query.home_team) request = request.eq('home_team', query.home_team);
+    if (query.away_team) request = request.eq('away_team', query.away_team);
+    if (query.pair) {
+      const [a, b] = query.pair;
+      request = request.or(
+        `and(home_team.eq."${a}",away_team.eq."${b}"),and(home_team.eq."${b}",away_team.eq."${a}")`
+      );
+    }
+    if (query.teams) {
+      const list = query.teams.map(team => `"${team}"`).join(',');
+      request = request.or(`home_team.in.(${list}),away_team.in.(${list})`);
+    }
+    if (query.league) request = request.eq('league', query.league);
+    if (query.require_halftime) request = request.not('half_time_home_goals', 'is', null);
+    if (query.before) request = request.lt('match_time', query.before);
+
+    return request;
+  }
+
+  // Óránként frissülő kulcs: a modellek legfeljebb óránként illesztenek újra
+  snapshotKey(): string {
+    return `live:${Math.floor(Date.now() / HOUR_MS)}`;
+  }
+}
+
+export class InMemoryMatchDataSource implements MatchDataSource {
+  readonly supportsStoredModels = false;
+
+  private matches: Match[];
+  private cutoff: number = Infinity;
+  private refitIntervalMs: number;
+
+  /**
+   * @param refitIntervalDays A modellek ennyi naponként illesztenek újra a mozgó időhatárral
+   */
+  constructor(matches: Match[], refitIntervalDays = 7) {
+    this.matches = matches
+      .filter(isFinishedMatch)
+      .sort((a, b) => new Date(b.match_time).getTime() - new Date(a.match_time).getTime());
+    this.refitIntervalMs = refitIntervalDays * DAY_MS;
+  }
+
+  /**
+   * Időhatár beállítása: ezután csak a szigorúan korábbi meccsek látszanak
+   */
+  setCutoff(time: string | null) {
+    this.cutoff = time ? new Date(time).getTime() : Infinity;
+  }
+
+  async getMatches(query: MatchQuery): Promise<Match[]> {
+    const before = Math.min(this.cutoff, query.before ? new Date(query.before).getTime() : Infinity);
+    const result: Match[] = [];
+
+    for (const m of this.matches) {
+      if (result.length >= query.limit) break;
+      if (new Date(m.match_time).getTime() >= before) continue;
+      if (query.home_team && m.home_team !== query.home_team) continue;
+      if (query.away_team && m.away_team !== query.away_team) continue;
+      if (query.pair) {
+        const [a, b] = query.pair;
+        const isPair = (m.home_team === a && m.away_team === b) || (m.home_team === b && m.away_team === a);
+        if (!isPair) continue;
+      }
+      if (query.teams && !query.teams.includes(m.home_team) && !query.teams.includes(m.away_team)) continue;
+      if (query.league && m.league !== query.league) continue;
+      if (query.require_halftime && m.half_time_home_goals === null) continue;
+      result.push(m);
+    }
+
+    return result;
+  }
+
+  snapshotKey(): string {
+    return Number.isFinite(this.cutoff)
+      ? `cutoff:${Math.floor(this.cutoff / this.refitIntervalMs)}`
+      : 'cutoff:none';
+  }
+}
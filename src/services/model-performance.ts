@@ -0,0 +1,292 @@
+import { supabase } from '@/lib/supabase';
+import {
+  computePerformanceMetrics,
+  reliabilityBins,
+  type EvaluatedPrediction
+} from '@/services/performance-metrics';
+import { predictedOutcome, type Outcome, type OutcomeProbabilities } from '@/services/scoring-rules';
+import { keepLatestPreMatch, type PreMatchCandidate } from '@/services/prediction-history';
+import type {
+  PerformanceMetrics,
+  ReliabilityBin,
+  StoredPredictionFeatures
+} from '@/types/prediction';
+
+/**
+ * Modell teljesítmény a kiértékelt predikciókból (prediction_analysis nézet),
+ * a model_performance tábla és a get_prediction_accuracy_stats RPC
+ */
+
+export interface ModelPerformanceFilters {
+  date_from?: string;
+  date_to?: string;
+  model_type?: string;
+}
+
+export interface EvaluatedAnalysisRow {
+  match_date: string;
+  actual_result: Outcome;
+  probabilities: OutcomeProbabilities;
+  confidence: number;
+  model_predictions: Record<string, OutcomeProbabilities>;
+}
+
+export interface ModelPerformanceSummary {
+  model_name: string;
+  model_type: string;
+  metrics: PerformanceMetrics;
+  last_7_days_accuracy: number | null;
+  last_30_days_accuracy: number | null;
+}
+
+export interface ConfidenceBucket {
+  bucket_start: number;
+  bucket_end: number;
+  predictions: number;
+  hit_rate: number;
+  avg_confidence: number;
+}
+
+export interface PerformanceTrendPoint {
+  week_start: string;
+  predictions: number;
+  accuracy: number;
+  brier_score: number;
+}
+
+export const ENSEMBLE_MODEL_NAME = 'ensemble';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ANALYSIS_ROWS = 2000;
+
+export const modelTypeOf = (modelName: string) => modelName.toUpperCase();
+
+/**
+ * Kiértékelt predikciók a prediction_analysis nézetből; a tanító mintákhoz hasonlóan
+ * mérkőzésenként csak a legutolsó félidő nélküli, kezdés előtti predikció számít
+ */
+export const loadEvaluatedAnalysis = async (
+  filters: ModelPerformanceFilters = {}
+): Promise<EvaluatedAnalysisRow[]> => {
+  let query = supabase
+    .from('prediction_analysis')
+    .select('match_id, home_team, away_team, match_date, predicted_at, actual_result, home_win_probability, draw_probability, away_win_probability, confidence_score, features_used')
+    .not('actual_result', 'is', null);
+
+  if (filters.date_from) query = query.gte('match_date', filters.date_from);
+  if (filters.date_to) query = query.lte('match_date', filters.date_to);
+
+  const { data, error } = await query
+    .order('match_date', { ascending: false })
+    .limit(MAX_ANALYSIS_ROWS);
+
+  if (error) throw error;
+
+  const candidates = (data || []).flatMap((row): Array<PreMatchCandidate & { row: EvaluatedAnalysisRow }> => {
+    if (!['H', 'D', 'A'].includes(row.actual_result ?? '') || !row.match_date) return [];
+    if (!row.home_team || !row.away_team || !row.predicted_at) return [];
+    const stored = row.features_used as unknown as StoredPredictionFeatures | null;
+
+    return [{
+      match_id: row.match_id,
+      home_team: row.home_team,
+      away_team: row.away_team,
+      match_date: row.match_date,
+      predicted_at: row.predicted_at,
+      features: stored,
+      row: {
+        match_date: row.match_date,
+        actual_result: row.actual_result as Outcome,
+        probabilities: [row.home_win_probability ?? 0, row.draw_probability ?? 0, row.away_win_probability ?? 0],
+        confidence: row.confidence_score ?? 0,
+        model_predictions: Object.fromEntries(
+          Object.entries(stored?.model_predictions ?? {}).map(([model, p]) => [
+            model,
+            [p.home_win, p.draw, p.away_win] as OutcomeProbabilities
+          ])
+        )
+      }
+    }];
+  });
+
+  return [...keepLatestPreMatch(new Map(), candidates).values()]
+    .map(candidate => candidate.row)
+    .sort((a, b) => b.match_date.localeCompare(a.match_date));
+};
+
+// Modellenkénti kiértékelhető rekordok; az ensemble a mentett végső valószínűség
+const recordsByModel = (rows: EvaluatedAnalysisRow[]) => {
+  const byModel = new Map<string, Array<EvaluatedPrediction & { match_date: string }>>();
+  const add = (model: string, probabilities: OutcomeProbabilities, row: EvaluatedAnalysisRow) => {
+    if (!byModel.has(model)) byModel.set(model, []);
+    byModel.get(model)!.push({ probabilities, actual_result: row.actual_result, match_date: row.match_date });
+  };
+
+  rows.forEach(row => {
+    add(ENSEMBLE_MODEL_NAME, row.probabilities, row);
+    Object.entries(row.model_predictions).forEach(([model, probabilities]) => add(model, probabilities, row));
+  });
+
+  return byModel;
+};
+
+const accuracySince = (records: Array<EvaluatedPrediction & { match_date: string }>, since: number) => {
+  const recent = records.filter(r => new Date(r.match_date).getTime() >= since);
+  if (recent.length === 0) return null;
+  return recent.filter(r => predictedOutcome(r.probabilities) === r.actual_result).length / recent.length;
+};
+
+/**
+ * Modellenkénti mérőszámok és gördülő 7/30 napos pontosság
+ */
+export const summarizeModelPerformance = (
+  rows: EvaluatedAnalysisRow[],
+  modelType?: string,
+  now = Date.now()
+): ModelPerformanceSummary[] =>
+  [...recordsByModel(rows).entries()]
+    .filter(([model]) => !modelType || modelTypeOf(model) === modelType)
+    .map(([model, records]) => ({
+      model_name: model,
+      model_type: modelTypeOf(model),
+      metrics: computePerformanceMetrics(records),
+      last_7_days_accuracy: accuracySince(records, now - 7 * DAY_MS),
+      last_30_days_accuracy: accuracySince(records, now - 30 * DAY_MS)
+    }))
+    .sort((a, b) => (a.model_name === ENSEMBLE_MODEL_NAME ? -1 : b.model_name === ENSEMBLE_MODEL_NAME ? 1 : 0));
+
+/**
+ * Reliability sávok egy modellre (alapértelmezés: ensemble)
+ */
+export const modelReliability = (rows: EvaluatedAnalysisRow[], model = ENSEMBLE_MODEL_NAME): ReliabilityBin[] =>
+  reliabilityBins(recordsByModel(rows).get(model) ?? []);
+
+/**
+ * Bizalmi sávok találati aránya: mennyire indokolt a bizalmi pontszám
+ */
+export const confidenceBuckets = (rows: EvaluatedAnalysisRow[], bucketCount = 5): ConfidenceBucket[] => {
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    bucket_start: i / bucketCount,
+    bucket_end: (i + 1) / bucketCount,
+    predictions: 0,
+    hits: 0,
+    confidence_sum: 0
+  }));
+
+  rows.forEach(row => {
+    const bucket = buckets[Math.min(bucketCount - 1, Math.floor(row.confidence * bucketCount))];
+    bucket.predictions++;
+    bucket.confidence_sum += row.confidence;
+    if (predictedOutcome(row.probabilities) === row.actual_result) bucket.hits++;
+  });
+
+  return buckets.map(b => ({
+    bucket_start: b.bucket_start,
+    bucket_end: b.bucket_end,
+    predictions: b.predictions,
+    hit_rate: b.predictions > 0 ? b.hits / b.predictions : 0,
+    avg_confidence: b.predictions > 0 ? b.confidence_sum / b.predictions : 0
+  }));
+};
+
+/**
+ * Heti ensemble pontosság és Brier pontszám a drift követéséhez
+ */
+export const weeklyTrend = (rows: EvaluatedAnalysisRow[]): PerformanceTrendPoint[] => {
+  const weeks = new Map<string, EvaluatedPrediction[]>();
+
+  rows.forEach(row => {
+    const date = new Date(row.match_date);
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+    const key = monday.toISOString().slice(0, 10);
+    if (!weeks.has(key)) weeks.set(key, []);
+    weeks.get(key)!.push({ probabilities: row.probabilities, actual_result: row.actual_result });
+  });
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, records]) => {
+      const metrics = computePerformanceMetrics(records);
+      return {
+        week_start: week,
+        predictions: records.length,
+        accuracy: metrics.accuracy,
+        brier_score: metrics.brier_score
+      };
+    });
+};
+
+/**
+ * get_prediction_accuracy_stats RPC predikció típusonként
+ */
+export const loadAccuracyStats = async (filters: ModelPerformanceFilters = {}) => {
+  const { data, error } = await supabase.rpc('get_prediction_accuracy_stats', {
+    ...(filters.date_from && { date_from: filters.date_from }),
+    ...(filters.date_to && { date_to: filters.date_to }),
+    ...(filters.model_type && { model_type: filters.model_type })
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * model_performance tábla legfrissebb sorai modellenként
+ */
+export const loadStoredModelPerformance = async (filters: ModelPerformanceFilters = {}) => {
+  let query = supabase.from('model_performance').select('*');
+
+  if (filters.model_type) query = query.eq('model_type', filters.model_type);
+  if (filters.date_from) query = query.gte('evaluation_period_end', filters.date_from);
+  if (filters.date_to) query = query.lte('evaluation_period_end', filters.date_to);
+
+  const { data, error } = await query.order('updated_at', { ascending: false }).limit(200);
+  if (error) throw error;
+
+  const latest = new Map<string, NonNullable<typeof data>[number]>();
+  (data || []).forEach(row => {
+    if (!latest.has(row.model_name)) latest.set(row.model_name, row);
+  });
+  return [...latest.values()];
+};
+
+/**
+ * Aktuális mérőszámok mentése a model_performance táblába modellenként
+ */
+export const refreshModelPerformance = async () => {
+  const rows = await loadEvaluatedAnalysis();
+  if (rows.length === 0) return 0;
+
+  const summaries = summarizeModelPerformance(rows);
+  const dates = rows.map(r => new Date(r.match_date).getTime());
+  const periodStart = new Date(Math.min(...dates)).toISOString();
+  const periodEnd = new Date(Math.max(...dates)).toISOString();
+  const recordsPerModel = recordsByModel(rows);
+  const avgConfidence = rows.reduce((sum, r) => sum + r.confidence, 0) / rows.length;
+
+  const { error } = await supabase.from('model_performance').insert(
+    summaries.map(summary => {
+      const records = recordsPerModel.get(summary.model_name) ?? [];
+      const correct = records.filter(r => predictedOutcome(r.probabilities) === r.actual_result).length;
+      return {
+        model_name: summary.model_name,
+        model_type: summary.model_type,
+        accuracy_percentage: summary.metrics.accuracy * 100,
+        precision: summary.metrics.precision,
+        recall: summary.metrics.recall,
+        f1_score: summary.metrics.f1_score,
+        avg_probability_accuracy: 1 - summary.metrics.brier_score / 2,
+        avg_confidence: summary.model_name === ENSEMBLE_MODEL_NAME ? avgConfidence : null,
+        correct_predictions: correct,
+        total_predictions: records.length,
+        last_7_days_accuracy: summary.last_7_days_accuracy,
+        last_30_days_accuracy: summary.last_30_days_accuracy,
+        evaluation_period_start: periodStart,
+        evaluation_period_end: periodEnd
+      };
+    })
+  );
+
+  if (error) throw error;
+  return summaries.length;
+};
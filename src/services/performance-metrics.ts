@@ -0,0 +1,133 @@
+import {
+  OUTCOMES,
+  brierScore,
+  logLoss,
+  rankedProbabilityScore,
+  predictedOutcome,
+  outcomeIndex,
+  type Outcome,
+  type OutcomeProbabilities
+} from '@/services/scoring-rules';
+import type { PerformanceMetrics, ReliabilityBin } from '@/types/prediction';
+
+/**
+ * Predikciós teljesítmény mérőszámok kiértékelt 1X2 predikciókra
+ */
+
+export interface EvaluatedPrediction {
+  probabilities: OutcomeProbabilities;
+  actual_result: Outcome;
+}
+
+const DEFAULT_BIN_COUNT = 10;
+
+/**
+ * Osztályonkénti reliability sávok: minden (kimenetel, valószínűség) pár egy megfigyelés
+ */
+export const reliabilityBins = (
+  records: EvaluatedPrediction[],
+  binCount = DEFAULT_BIN_COUNT
+): ReliabilityBin[] => {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    bin_start: i / binCount,
+    bin_end: (i + 1) / binCount,
+    predicted_sum: 0,
+    observed_sum: 0,
+    count: 0
+  }));
+
+  records.forEach(record => {
+    const actual = outcomeIndex(record.actual_result);
+    record.probabilities.forEach((p, i) => {
+      const bin = bins[Math.min(binCount - 1, Math.floor(p * binCount))];
+      bin.predicted_sum += p;
+      bin.observed_sum += i === actual ? 1 : 0;
+      bin.count++;
+    });
+  });
+
+  return bins.map(bin => ({
+    bin_start: bin.bin_start,
+    bin_end: bin.bin_end,
+    mean_predicted: bin.count > 0 ? bin.predicted_sum / bin.count : 0,
+    observed_frequency: bin.count > 0 ? bin.observed_sum / bin.count : 0,
+    count: bin.count
+  }));
+};
+
+/**
+ * Várható kalibrációs hiba (ECE) a reliability sávokból
+ */
+export const expectedCalibrationError = (bins: ReliabilityBin[]): number => {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return 0;
+  return bins.reduce(
+    (sum, bin) => sum + (bin.count / total) * Math.abs(bin.mean_predicted - bin.observed_frequency),
+    0
+  );
+};
+
+/**
+ * Összes mérőszám egy PerformanceMetrics objektumba
+ * (precision/recall/F1 makró átlag a három kimenetelre)
+ */
+export const computePerformanceMetrics = (records: EvaluatedPrediction[]): PerformanceMetrics => {
+  const n = records.length;
+  const evaluatedAt = new Date().toISOString();
+
+  if (n === 0) {
+    return {
+      accuracy: 0,
+      precision: 0,
+      recall: 0,
+      f1_score: 0,
+      log_loss: 0,
+      brier_score: 0,
+      calibration_error: 0,
+      ranked_probability_score: 0,
+      last_evaluated: evaluatedAt,
+      matches_evaluated: 0
+    };
+  }
+
+  let correct = 0;
+  let brier = 0;
+  let loss = 0;
+  let rps = 0;
+  const truePositives: Record<Outcome, number> = { H: 0, D: 0, A: 0 };
+  const predictedCounts: Record<Outcome, number> = { H: 0, D: 0, A: 0 };
+  const actualCounts: Record<Outcome, number> = { H: 0, D: 0, A: 0 };
+
+  records.forEach(({ probabilities, actual_result }) => {
+    const predicted = predictedOutcome(probabilities);
+    predictedCounts[predicted]++;
+    actualCounts[actual_result]++;
+    if (predicted === actual_result) {
+      correct++;
+      truePositives[predicted]++;
+    }
+    brier += brierScore(probabilities, actual_result);
+    loss += logLoss(probabilities, actual_result);
+    rps += rankedProbabilityScore(probabilities, actual_result);
+  });
+
+  const perClass = OUTCOMES.map(outcome => {
+    const precision = predictedCounts[outcome] > 0 ? truePositives[outcome] / predictedCounts[outcome] : 0;
+    const recall = actualCounts[outcome] > 0 ? truePositives[outcome] / actualCounts[outcome] : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { precision, recall, f1 };
+  });
+
+  return {
+    accuracy: correct / n,
+    precision: perClass.reduce((sum, c) => sum + c.precision, 0) / OUTCOMES.length,
+    recall: perClass.reduce((sum, c) => sum + c.recall, 0) / OUTCOMES.length,
+    f1_score: perClass.reduce((sum, c) => sum + c.f1, 0) / OUTCOMES.length,
+    log_loss: loss / n,
+    brier_score: brier / n,
+    calibration_error: expectedCalibrationError(reliabilityBins(records)),
+    ranked_probability_score: rps / n,
+    last_evaluated: evaluatedAt,
+    matches_evaluated: n
+  };
+};
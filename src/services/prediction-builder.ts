@@ -0,0 +1,115 @@
+import { supabase } from '@/lib/supabase';
+import { predictionEngine } from '@/services/prediction-engine';
+import { FINISHED_MATCH_FILTER, SupabaseMatchDataSource } from '@/services/match-data-source';
+import { marketsFromPrediction, type MarketSet } from '@/services/markets';
+import type { PredictionOutput } from '@/types/prediction';
+
+/**
+ * Predikció készítő: a motor kimenete és a valós egymás elleni adatok párosításonként
+ */
+
+export interface HeadToHeadSummary {
+  matches: number;
+  home_team_wins: number;     // A párosítás hazai csapatának győzelmei, pályától függetlenül
+  draws: number;
+  away_team_wins: number;
+  btts_matches: number;
+  comeback_matches: number;
+  avg_goals: number;
+}
+
+export interface BuilderPrediction {
+  prediction: PredictionOutput;
+  head_to_head: HeadToHeadSummary;
+  btts_probability: number | null;
+  top_scores: Array<{ score: string; probability: number }>;
+  markets: MarketSet | null;
+  sample_sizes: {
+    home_team: number;
+    away_team: number;
+    head_to_head: number;
+  };
+}
+
+const H2H_LIMIT = 100;
+const TOP_SCORES = 6;
+
+const dataSource = new SupabaseMatchDataSource();
+
+/**
+ * Egymás elleni mérleg a párosítás hazai csapatának szemszögéből
+ */
+export const loadHeadToHead = async (homeTeam: string, awayTeam: string): Promise<HeadToHeadSummary> => {
+  const matches = await dataSource.getMatches({ pair: [homeTeam, awayTeam], limit: H2H_LIMIT });
+
+  const homeTeamWins = matches.filter(m =>
+    (m.home_team === homeTeam && m.result_computed === 'H') ||
+    (m.away_team === homeTeam && m.result_computed === 'A')
+  ).length;
+  const draws = matches.filter(m => m.result_computed === 'D').length;
+
+  return {
+    matches: matches.length,
+    home_team_wins: homeTeamWins,
+    draws,
+    away_team_wins: matches.length - homeTeamWins - draws,
+    btts_matches: matches.filter(m => m.btts_computed).length,
+    comeback_matches: matches.filter(m => m.comeback_computed).length,
+    avg_goals: matches.length > 0
+      ? matches.reduce((sum, m) => sum + m.full_time_home_goals + m.full_time_away_goals, 0) / matches.length
+      : 0
+  };
+};
+
+// Lezárt mérkőzések száma a csapatnak
+const countTeamMatches = async (team: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('matches')
+    .select('id', { count: 'exact', head: true })
+    .or(`home_team.eq."${team}",away_team.eq."${team}"`)
+    .or(FINISHED_MATCH_FILTER);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * BTTS valószínűség a pontos eredmény mátrixból
+ */
+export const bttsProbability = (prediction: PredictionOutput): number | null => {
+  const scores = prediction.scoreline_predictions?.score_probabilities;
+  if (!scores || scores.length === 0) return null;
+  return scores
+    .filter(s => s.home_goals > 0 && s.away_goals > 0)
+    .reduce((sum, s) => sum + s.probability, 0);
+};
+
+/**
+ * Egy párosítás teljes predikciója a készítő panelhez
+ */
+export const buildPairingPrediction = async (homeTeam: string, awayTeam: string): Promise<BuilderPrediction> => {
+  const [prediction, headToHead, homeMatches, awayMatches] = await Promise.all([
+    predictionEngine.predict({ home_team: homeTeam, away_team: awayTeam }),
+    loadHeadToHead(homeTeam, awayTeam),
+    countTeamMatches(homeTeam),
+    countTeamMatches(awayTeam)
+  ]);
+
+  const topScores = [...(prediction.scoreline_predictions?.score_probabilities ?? [])]
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, TOP_SCORES)
+    .map(s => ({ score: `${s.home_goals}-${s.away_goals}`, probability: s.probability }));
+
+  return {
+    prediction,
+    head_to_head: headToHead,
+    btts_probability: bttsProbability(prediction),
+    top_scores: topScores,
+    markets: marketsFromPrediction(prediction),
+    sample_sizes: {
+      home_team: homeMatches,
+      away_team: awayMatches,
+      head_to_head: headToHead.matches
+    }
+  };
+};
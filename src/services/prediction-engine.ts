@@ -1,12 +1,99 @@
-import { supabase } from '@/lib/supabase';
+import {
+  SupabaseMatchDataSource,
+  type MatchDataSource
+} from '@/services/match-data-source';
+import {
+  fitDixonColes,
+  expectedGoals,
+  scorelineMatrix,
+  outcomeProbabilities,
+  type DixonColesParams,
+  type GoalModelMatch
+} from '@/services/dixon-coles';
+import {
+  estimateTransitionModel,
+  toTransitionMatrix,
+  fulltimeDistribution,
+  type TransitionSourceMatch
+} from '@/services/markov-transitions';
+import { FeatureStore, featureStore } from '@/services/feature-store';
+import {
+  computeRatings,
+  ratingExpectedScore,
+  ratingOutcomeProbabilities,
+  RATING_MATCH_LIMIT,
+  type RatingSystem,
+  type RatingTable
+} from '@/services/team-ratings';
+import { assessDataQuality, type DataQualityAssessment, type DataQualitySources } from '@/services/data-quality';
+import { predictProbabilities, featureImportances, type GradientBoostingModel } from '@/services/gradient-boosting';
+import {
+  FEATURE_DEFINITIONS,
+  toFeatureVector,
+  trainOutcomeModel,
+  loadOutcomeModel,
+  isOutcomeModelStale,
+  OUTCOME_TRAINING_LIMIT
+} from '@/services/xgboost-trainer';
+import {
+  poolOutcomes,
+  modelConsensus,
+  ensembleConfidence,
+  type PoolingMethod,
+  type WeightedOutcome
+} from '@/services/ensemble';
+import {
+  loadEnsembleWeights,
+  updateEnsembleWeights,
+  DEFAULT_CONFIDENCE_THRESHOLDS,
+  type WeightOptimizerOptions
+} from '@/services/weight-optimizer';
+import {
+  applyCalibration,
+  calibrateConfidence,
+  loadCalibrationModel,
+  updateCalibrationModel,
+  type CalibrationModel
+} from '@/services/calibration';
+import { buildCacheKey, findCachedPrediction, savePrediction } from '@/services/prediction-store';
 import type { 
   PredictionInput, 
   PredictionOutput, 
+  PredictionFeatures,
   TeamFeatures,
-  TransitionMatrix,
+  HeadToHeadFeatures,
   ModelExplanation,
-  PredictionMetadata 
+  PredictionMetadata,
+  EnsembleWeights,
+  FeatureImportance,
+  ScoreProbability,
+  CalibrationMethod,
+  RawEnsemblePrediction
 } from '@/types/prediction';
+import type { Match } from '@/lib/supabase';
+
+export interface PredictionEngineOptions {
+  pooling_method: PoolingMethod;
+  model_timeout_ms: number;
+  load_stored_weights: boolean;
+  performance_window: number;
+  data_source?: MatchDataSource;
+  feature_store?: FeatureStore;   // Alapértelmezés: cache nélküli tár a data_source fölött
+  calibration?: CalibrationModel | null;
+  persist_predictions: boolean;   // Mentés a predictions táblába és kiszolgálás onnan
+  rating_system: RatingSystem;    // Az értékszám modell rendszere
+}
+
+const DEFAULT_ENGINE_OPTIONS: PredictionEngineOptions = {
+  pooling_method: 'linear',
+  model_timeout_ms: 15000,
+  load_stored_weights: true,
+  performance_window: 200,
+  persist_predictions: true,
+  rating_system: 'elo'
+};
+
+export const MODEL_VERSION = 'v1.0';
 
 /**
  * WinMix Predikciós Motor
@@ -17,8 +104,22 @@ import type {
 export class PredictionEngine {
   private models: Map<string, PredictionModel> = new Map();
   private ensembleWeights: Map<string, number> = new Map();
+  private leagueTransitionCache: Map<string, TransitionSourceMatch[]> = new Map();
+  private leagueTransitionSnapshot: string | null = null;
+  private dataSource: MatchDataSource;
+  private featureStore: FeatureStore;
+  private confidenceThresholds: EnsembleWeights['confidence_thresholds'] = { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+  private weightsUpdatedAt: string = new Date().toISOString();
+  private calibration: CalibrationModel | null;
+  private weightsReady: Promise<void> | null = null;
+  private pendingPredictions: Map<string, Promise<PredictionOutput>> = new Map();
+  private options: PredictionEngineOptions;
 
-  constructor() {
+  constructor(options: Partial<PredictionEngineOptions> = {}) {
+    this.options = { ...DEFAULT_ENGINE_OPTIONS, ...options };
+    this.dataSource = this.options.data_source ?? new SupabaseMatchDataSource();
+    this.featureStore = this.options.feature_store ?? new FeatureStore(this.dataSource, { ttl_ms: 0, persist: false });
+    this.calibration = this.options.calibration ?? null;
     this.initializeModels();
   }
 
@@ -27,31 +128,19 @@ export class PredictionEngine {
    */
   async predict(input: PredictionInput): Promise<PredictionOutput> {
     try {
-      // 1. Feature előkészítés
-      const features = await this.prepareFeatures(input);
-      
-      // 2. Adatminőség ellenőrzés
-      const qualityScore = this.assessDataQuality(features);
-      
-      // 3. Model predikciók futtatása
-      const modelPredictions = await this.runAllModels(features);
-      
-      // 4. Ensemble kombinálás
-      const finalPrediction = this.combineModels(modelPredictions);
-      
-      // 5. Eredmény összeállítás
-      return {
-        predictions: finalPrediction,
-        model_explanations: modelPredictions,
-        prediction_metadata: {
-          model_version: 'v1.0',
-          prediction_timestamp: new Date().toISOString(),
-          data_quality_score: qualityScore,
-          prediction_confidence: this.getConfidenceLevel(finalPrediction.confidence_score),
-          warning_flags: this.generateWarnings(features, qualityScore)
-        }
-      };
-      
+      await this.ensureStoredState();
+      if (!this.options.persist_predictions) return await this.computePrediction(input);
+
+      // Azonos kulcsú, párhuzamos kérések egyetlen számítást osztanak meg
+      const cacheKey = buildCacheKey(input, MODEL_VERSION);
+      const pending = this.pendingPredictions.get(cacheKey);
+      if (pending) return await pending;
+
+      const prediction = this.predictAndStore(input, cacheKey)
+        .finally(() => this.pendingPredictions.delete(cacheKey));
+      this.pendingPredictions.set(cacheKey, prediction);
+      return await prediction;
+
     } catch (error) {
       console.error('Prediction error:', error);
       throw new Error('Predikciós hiba történt');
@@ -59,121 +148,150 @@ export class PredictionEngine {
   }
 
   /**
-   * Feature-ök előkészítése a meglévő matches táblából
+   * Több mérkőzés predikciója; a csapat feature-öket egyetlen lekérdezéssel előtölti
    */
-  private async prepareFeatures(input: PredictionInput) {
-    const [homeFeatures, awayFeatures, h2hFeatures] = await Promise.all([
-      this.getTeamFeatures(input.home_team),
-      this.getTeamFeatures(input.away_team),
-      this.getHeadToHeadFeatures(input.home_team, input.away_team)
-    ]);
+  async predictBatch(inputs: PredictionInput[]): Promise<PredictionOutput[]> {
+    // Időpontonként külön előtöltés, mert a feature-ök az as-of időponttól függnek
+    const teamsByAsOf = new Map<string | null, string[]>();
+    inputs.forEach(input => {
+      const asOf = featureAsOf(input);
+      teamsByAsOf.set(asOf, [...(teamsByAsOf.get(asOf) ?? []), input.home_team, input.away_team]);
+    });
 
-    return {
-      home_team: homeFeatures,
-      away_team: awayFeatures,
-      head_to_head: h2hFeatures,
-      halftime_state: input.halftime_home_goals !== undefined ? {
-        home_goals: input.halftime_home_goals,
-        away_goals: input.halftime_away_goals || 0,
-        goal_difference: input.halftime_home_goals - (input.halftime_away_goals || 0)
-      } : null
-    };
+    try {
+      await Promise.all([...teamsByAsOf].map(([asOf, teams]) => this.featureStore.prefetch(teams, asOf)));
+    } catch (error) {
+      // Sikertelen előtöltésnél a predikciók csapatonként kérdeznek le
+      console.error('Feature prefetch error:', error);
+    }
+    return Promise.all(inputs.map(input => this.predict(input)));
   }
 
   /**
-   * Csapat feature-ök kinyerése a matches táblából
+   * Mentett predikció kiszolgálása, vagy számítás és mentés.
+   * A tábla elérhetetlensége nem akadályozza a predikciót.
    */
-  private async getTeamFeatures(teamName: string): Promise<TeamFeatures> {
-    // Utolsó 10 meccs lekérése home és away-ként
-    const [homeMatches, awayMatches] = await Promise.all([
-      supabase
-        .from('matches')
-        .select('*')
-        .eq('home_team', teamName)
-        .order('match_time', { ascending: false })
-        .limit(10),
-      supabase
-        .from('matches')
-        .select('*')
-        .eq('away_team', teamName)
-        .order('match_time', { ascending: false })
-        .limit(10)
-    ]);
+  private async predictAndStore(input: PredictionInput, cacheKey: string): Promise<PredictionOutput> {
+    const cached = await findCachedPrediction(cacheKey).catch(error => {
+      console.error('Prediction cache lookup error:', error);
+      return null;
+    });
+    if (cached) return cached;
 
-    const homeData = homeMatches.data || [];
-    const awayData = awayMatches.data || [];
+    const output = await this.computePrediction(input);
+    try {
+      return await savePrediction(input, output, cacheKey);
+    } catch (error) {
+      console.error('Prediction save error:', error);
+      return output;
+    }
+  }
+
+  private async computePrediction(input: PredictionInput): Promise<PredictionOutput> {
+    // 1. Feature előkészítés
+    const { features, sources } = await this.prepareFeatures(input);
     
-    // Form feature-ök számítása
-    const homeForm = homeData.slice(0, 5).map(m => {
-      if (m.result_computed === 'H') return 1;
-      if (m.result_computed === 'D') return 0.5;
-      return 0;
-    });
+    // 2. Model predikciók futtatása
+    const modelPredictions = await this.runAllModels(features);
+    
+    // 3. Ensemble kombinálás és kalibráció
+    const { prediction: finalPrediction, raw, consensus } = this.combineModels(modelPredictions);
 
-    const awayForm = awayData.slice(0, 5).map(m => {
-      if (m.result_computed === 'A') return 1;
-      if (m.result_computed === 'D') return 0.5;
-      return 0;
-    });
+    // 4. Adatminőség ellenőrzés
+    const quality = assessDataQuality(sources, consensus);
 
-    // Gól statisztikák
-    const homeGoalsScored = homeData.reduce((sum, m) => sum + m.full_time_home_goals, 0);
-    const homeGoalsConceded = homeData.reduce((sum, m) => sum + m.full_time_away_goals, 0);
-    const awayGoalsScored = awayData.reduce((sum, m) => sum + m.full_time_away_goals, 0);
-    const awayGoalsConceded = awayData.reduce((sum, m) => sum + m.full_time_home_goals, 0);
+    // 5. Eredmény-eloszlás a gólmodellből
+    const scorelinePredictions = await this.getScorelinePredictions(features);
+    
+    // 6. Eredmény összeállítás
+    return {
+      predictions: finalPrediction,
+      scoreline_predictions: scorelinePredictions,
+      model_explanations: modelPredictions,
+      prediction_metadata: {
+        model_version: MODEL_VERSION,
+        prediction_timestamp: new Date().toISOString(),
+        data_quality_score: quality.score,
+        data_quality: quality.quality,
+        prediction_confidence: this.getConfidenceLevel(finalPrediction.confidence_score),
+        warning_flags: this.generateWarnings(quality),
+        calibration_method: this.calibration?.method ?? null,
+        raw_ensemble: raw
+      }
+    };
+  }
+
+  /**
+   * Feature-ök előkészítése a meglévő matches táblából, a felhasznált
+   * mérkőzésekkel együtt az adatminőség értékeléséhez. Múltbeli mérkőzésnél
+   * csak a kezdés előtt lejátszott meccsek számítanak.
+   */
+  private async prepareFeatures(input: PredictionInput): Promise<{ features: PredictionFeatures; sources: DataQualitySources }> {
+    const asOf = featureAsOf(input);
+    const [home, away, h2h] = await Promise.all([
+      this.getTeamFeatures(input.home_team, asOf),
+      this.getTeamFeatures(input.away_team, asOf),
+      this.getHeadToHeadFeatures(input.home_team, input.away_team, asOf)
+    ]);
 
     return {
-      team_id: teamName,
-      team_name: teamName,
-      last_updated: new Date().toISOString(),
-      form_features: {
-        recent_form_home: homeForm,
-        recent_form_away: awayForm,
-        recent_form_overall: [...homeForm, ...awayForm].slice(0, 5),
-        current_streak: this.calculateStreak([...homeData, ...awayData], teamName),
-        streak_type: this.getStreakType([...homeData, ...awayData], teamName),
-        momentum_score: this.calculateMomentum([...homeData, ...awayData], teamName)
-      },
-      goal_features: {
-        avg_goals_scored_home: homeData.length > 0 ? homeGoalsScored / homeData.length : 0,
-        avg_goals_scored_away: awayData.length > 0 ? awayGoalsScored / awayData.length : 0,
-        avg_goals_conceded_home: homeData.length > 0 ? homeGoalsConceded / homeData.length : 0,
-        avg_goals_conceded_away: awayData.length > 0 ? awayGoalsConceded / awayData.length : 0,
-        btts_percentage_home: homeData.filter(m => m.btts_computed).length / Math.max(homeData.length, 1) * 100,
-        btts_percentage_away: awayData.filter(m => m.btts_computed).length / Math.max(awayData.length, 1) * 100,
-        clean_sheet_percentage_home: homeData.filter(m => m.full_time_away_goals === 0).length / Math.max(homeData.length, 1) * 100,
-        clean_sheet_percentage_away: awayData.filter(m => m.full_time_home_goals === 0).length / Math.max(awayData.length, 1) * 100,
-        comeback_ability: [...homeData, ...awayData].filter(m => m.comeback_computed).length / Math.max([...homeData, ...awayData].length, 1) * 100,
-        lead_holding: this.calculateLeadHolding([...homeData, ...awayData], teamName)
+      features: {
+        home_team: home.features,
+        away_team: away.features,
+        head_to_head: h2h.features,
+        halftime_state: input.halftime_home_goals !== undefined ? {
+          home_goals: input.halftime_home_goals,
+          away_goals: input.halftime_away_goals || 0,
+          goal_difference: input.halftime_home_goals - (input.halftime_away_goals || 0)
+        } : null,
+        as_of: asOf
       },
-      historical_features: {
-        total_matches_played: homeData.length + awayData.length,
-        home_win_percentage: homeData.filter(m => m.result_computed === 'H').length / Math.max(homeData.length, 1) * 100,
-        away_win_percentage: awayData.filter(m => m.result_computed === 'A').length / Math.max(awayData.length, 1) * 100,
-        draw_percentage: [...homeData, ...awayData].filter(m => m.result_computed === 'D').length / Math.max([...homeData, ...awayData].length, 1) * 100,
-        head_to_head_record: [] // This will be filled separately
+      sources: {
+        home_team: { team: input.home_team, matches: home.matches },
+        away_team: { team: input.away_team, matches: away.matches },
+        head_to_head: h2h.matches,
+        reference_time: input.match_context?.date ? new Date(input.match_context.date).getTime() : Date.now()
       }
     };
   }
 
+  /**
+   * Csapat feature-ök kinyerése a matches táblából
+   */
+  private async getTeamFeatures(
+    teamName: string,
+    asOf: string | null
+  ): Promise<{ features: TeamFeatures; matches: Match[] }> {
+    // Az időpont előtti utolsó 10 hazai és 10 idegenbeli meccs a feature-tárból
+    const { features, matches } = await this.featureStore.getTeamFeatures(teamName, asOf);
+    return { features, matches };
+  }
+
   /**
    * Head-to-head feature-ök számítása
    */
-  private async getHeadToHeadFeatures(homeTeam: string, awayTeam: string) {
-    const { data: h2hMatches } = await supabase
-      .from('matches')
-      .select('*')
-      .or(`and(home_team.eq.${homeTeam},away_team.eq.${awayTeam}),and(home_team.eq.${awayTeam},away_team.eq.${homeTeam})`)
-      .order('match_time', { ascending: false })
-      .limit(10);
-
-    if (!h2hMatches || h2hMatches.length === 0) {
+  private async getHeadToHeadFeatures(
+    homeTeam: string,
+    awayTeam: string,
+    asOf: string | null
+  ): Promise<{ features: HeadToHeadFeatures; matches: Match[] }> {
+    const before = asOf ?? undefined;
+    const h2hMatches = await this.dataSource.getMatches({ pair: [homeTeam, awayTeam], before, limit: 10 });
+
+    const transitionModel = await this.calculateTransitionModel(h2hMatches, homeTeam, awayTeam, asOf);
+    const transitionMatrix = toTransitionMatrix(transitionModel);
+
+    if (h2hMatches.length === 0) {
       return {
-        matches_played: 0,
-        home_advantage: 0,
-        avg_goals: 0,
-        btts_rate: 0,
-        transition_matrix: this.getDefaultTransitionMatrix()
+        matches: h2hMatches,
+        features: {
+          matches_played: 0,
+          home_advantage: 0,
+          avg_goals: 0,
+          btts_rate: 0,
+          transition_matrix: transitionMatrix,
+          transition_model: transitionModel
+        }
       };
     }
 
@@ -184,11 +302,15 @@ export class PredictionEngine {
     ).length;
 
     return {
-      matches_played: h2hMatches.length,
-      home_advantage: homeWins / h2hMatches.length,
-      avg_goals: h2hMatches.reduce((sum, m) => sum + m.full_time_home_goals + m.full_time_away_goals, 0) / h2hMatches.length,
-      btts_rate: h2hMatches.filter(m => m.btts_computed).length / h2hMatches.length,
-      transition_matrix: this.calculateTransitionMatrix(h2hMatches)
+      matches: h2hMatches,
+      features: {
+        matches_played: h2hMatches.length,
+        home_advantage: homeWins / h2hMatches.length,
+        avg_goals: h2hMatches.reduce((sum, m) => sum + m.full_time_home_goals + m.full_time_away_goals, 0) / h2hMatches.length,
+        btts_rate: h2hMatches.filter(m => m.btts_computed).length / h2hMatches.length,
+        transition_matrix: transitionMatrix,
+        transition_model: transitionModel
+      }
     };
   }
 
@@ -197,145 +319,744 @@ export class PredictionEngine {
    */
   private initializeModels() {
     this.models.set('empirical', new EmpiricalModel());
-    this.models.set('xgboost', new XGBoostModel());
-    this.models.set('poisson', new PoissonModel());
+    this.models.set('xgboost', new XGBoostModel(this.dataSource));
+    this.models.set('poisson', new PoissonModel(this.dataSource));
     this.models.set('markov', new MarkovModel());
+    this.models.set('rating', new RatingModel(this.dataSource, this.options.rating_system));
 
-    // Kezdeti súlyok
-    this.ensembleWeights.set('empirical', 0.3);
-    this.ensembleWeights.set('xgboost', 0.35);
-    this.ensembleWeights.set('poisson', 0.2);
+    // Kezdeti súlyok; a boosting modell a backtestben a leggyengébb, ezért kis súlyt kap
+    this.ensembleWeights.set('empirical', 0.25);
+    this.ensembleWeights.set('xgboost', 0.1);
+    this.ensembleWeights.set('poisson', 0.3);
     this.ensembleWeights.set('markov', 0.15);
+    this.ensembleWeights.set('rating', 0.2);
+  }
+
+  /**
+   * Aktuális ensemble súlyok
+   */
+  getEnsembleWeights(): EnsembleWeights {
+    return {
+      model_weights: Object.fromEntries(this.ensembleWeights),
+      confidence_thresholds: { ...this.confidenceThresholds },
+      last_updated: this.weightsUpdatedAt,
+      performance_window: this.options.performance_window
+    };
   }
 
-  // Helper methods...
-  private calculateStreak(matches: any[], teamName: string): number {
-    // Implementálás...
-    return 0;
+  /**
+   * Súlyok alkalmazása; csak a regisztrált modellekre vonatkozó értékeket vesszük át
+   */
+  applyEnsembleWeights(weights: EnsembleWeights) {
+    Object.entries(weights.model_weights).forEach(([model, weight]) => {
+      if (this.models.has(model) && Number.isFinite(weight) && weight >= 0) {
+        this.ensembleWeights.set(model, weight);
+      }
+    });
+    this.confidenceThresholds = { ...DEFAULT_CONFIDENCE_THRESHOLDS, ...weights.confidence_thresholds };
+    this.weightsUpdatedAt = weights.last_updated;
   }
 
-  private getStreakType(matches: any[], teamName: string): 'WIN' | 'DRAW' | 'LOSS' | 'MIXED' {
-    return 'MIXED';
+  /**
+   * Súlyok újratanulása a kiértékelt predikciókból és mentése
+   */
+  async refreshEnsembleWeights(options: Partial<WeightOptimizerOptions> = {}) {
+    await this.ensureStoredState();
+    const result = await updateEnsembleWeights(this.getEnsembleWeights(), {
+      pooling_method: this.options.pooling_method,
+      ...options
+    });
+    this.applyEnsembleWeights(result.weights);
+    return result;
   }
 
-  private calculateMomentum(matches: any[], teamName: string): number {
-    return 0;
+  /**
+   * Aktuális kalibrációs modell (null: kalibrálatlan kimenet)
+   */
+  async getCalibration(): Promise<CalibrationModel | null> {
+    await this.ensureStoredState();
+    return this.calibration;
   }
 
-  private calculateLeadHolding(matches: any[], teamName: string): number {
-    return 50; // Placeholder
+  setCalibration(model: CalibrationModel | null) {
+    this.calibration = model;
   }
 
-  private getDefaultTransitionMatrix(): TransitionMatrix {
-    return {
-      ht_h_to_ft_h: 0.65, ht_h_to_ft_d: 0.25, ht_h_to_ft_a: 0.10,
-      ht_d_to_ft_h: 0.35, ht_d_to_ft_d: 0.30, ht_d_to_ft_a: 0.35,
-      ht_a_to_ft_h: 0.10, ht_a_to_ft_d: 0.25, ht_a_to_ft_a: 0.65
-    };
+  /**
+   * Kalibráció újraillesztése a kiértékelt predikciókból és mentése
+   */
+  async refreshCalibration(method: CalibrationMethod = 'isotonic') {
+    await this.ensureStoredState();
+    const result = await updateCalibrationModel(this.options.performance_window, method);
+    if (result.model) this.calibration = result.model;
+    return result;
   }
 
-  private calculateTransitionMatrix(matches: any[]): TransitionMatrix {
-    // HT→FT átmeneti mátrix számítása a mérkőzésekből
-    return this.getDefaultTransitionMatrix(); // Placeholder
+  // A tárolt súlyokat és kalibrációt az első predikció előtt töltjük be, nem importáláskor
+  private ensureStoredState(): Promise<void> {
+    if (!this.options.load_stored_weights) return Promise.resolve();
+    this.weightsReady ??= this.loadStoredState();
+    return this.weightsReady;
   }
 
-  private assessDataQuality(features: any): number {
-    return 0.85; // Placeholder
+  private async loadStoredState() {
+    const [weights, calibration] = await Promise.allSettled([loadEnsembleWeights(), loadCalibrationModel()]);
+
+    if (weights.status === 'fulfilled') {
+      if (weights.value) this.applyEnsembleWeights(weights.value);
+    } else {
+      console.error('Ensemble weight load error:', weights.reason);
+    }
+
+    if (calibration.status === 'fulfilled') {
+      if (calibration.value && !this.options.calibration) this.calibration = calibration.value;
+    } else {
+      console.error('Calibration load error:', calibration.reason);
+    }
   }
 
-  private async runAllModels(features: any): Promise<ModelExplanation[]> {
-    // Model futtatások...
-    return [];
+  /**
+   * HT→FT átmeneti modell: egymás elleni, csapat- és ligaszintű meccsekből
+   */
+  private async calculateTransitionModel(
+    h2hMatches: TransitionSourceMatch[],
+    homeTeam: string,
+    awayTeam: string,
+    asOf: string | null
+  ) {
+    const before = asOf ?? undefined;
+    const [homeData, awayData] = await Promise.all([
+      this.dataSource.getMatches({ home_team: homeTeam, require_halftime: true, before, limit: 40 }),
+      this.dataSource.getMatches({ away_team: awayTeam, require_halftime: true, before, limit: 40 })
+    ]);
+
+    const league = homeData[0]?.league ?? awayData[0]?.league;
+
+    return estimateTransitionModel({
+      pair: h2hMatches,
+      home_team: homeData,
+      away_team: awayData,
+      league: league ? await this.getLeagueTransitionMatches(league, asOf) : [],
+      home_team_name: homeTeam
+    });
+  }
+
+  private async getLeagueTransitionMatches(league: string, asOf: string | null): Promise<TransitionSourceMatch[]> {
+    // Új adat-pillanatkép esetén az összes liga mintát újratöltjük
+    const snapshot = this.dataSource.snapshotKey();
+    if (snapshot !== this.leagueTransitionSnapshot) {
+      this.leagueTransitionCache.clear();
+      this.leagueTransitionSnapshot = snapshot;
+    }
+
+    // A liga minta a modellekkel azonos tanítási ablakból jön
+    const window = trainingWindow(this.dataSource, asOf, 'latest');
+    const key = `${league}|${window.key}`;
+    const cached = this.leagueTransitionCache.get(key);
+    if (cached) return cached;
+
+    const matches = await this.dataSource.getMatches({
+      league,
+      require_halftime: true,
+      before: window.before,
+      limit: 2000
+    });
+    this.leagueTransitionCache.set(key, matches);
+    return matches;
+  }
+
+  /**
+   * Összes regisztrált modell futtatása modellenkénti időkorláttal.
+   * Egy modell hibája nem dönti be a predikciót, csak kimarad az ensemble-ből.
+   */
+  private async runAllModels(features: PredictionFeatures): Promise<ModelExplanation[]> {
+    // Ismert félidei állásnál csak az azt figyelembe vevő modellek relevánsak
+    const entries = Array.from(this.models.entries()).filter(([, model]) =>
+      !features.halftime_state || model.supportsHalftime
+    );
+
+    const results = await Promise.all(entries.map(async ([name, model]) => {
+      try {
+        const prediction = await this.withTimeout(model.predict(features), name);
+        return { name, prediction };
+      } catch (error) {
+        console.error(`Model error (${name}):`, error);
+        return null;
+      }
+    }));
+
+    const successful = results.filter((r): r is { name: string; prediction: ModelPrediction } => r !== null);
+    if (successful.length === 0) {
+      throw new Error('Egyik modell sem adott predikciót');
+    }
+
+    // Súlyok újranormalizálása a sikeresen lefutott modellekre
+    const totalWeight = successful.reduce((sum, r) => sum + (this.ensembleWeights.get(r.name) ?? 0), 0);
+
+    return successful.map(({ name, prediction }) => ({
+      model_name: name,
+      weight: totalWeight > 0 ? (this.ensembleWeights.get(name) ?? 0) / totalWeight : 1 / successful.length,
+      prediction: {
+        home_win: prediction.home_win,
+        draw: prediction.draw,
+        away_win: prediction.away_win
+      },
+      confidence: prediction.confidence,
+      key_features: prediction.key_features
+    }));
+  }
+
+  private withTimeout<T>(promise: Promise<T>, modelName: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Model timeout (${modelName}) after ${this.options.model_timeout_ms}ms`)),
+        this.options.model_timeout_ms
+      );
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private toWeightedOutcomes(predictions: ModelExplanation[]): WeightedOutcome[] {
+    return predictions.map(p => ({
+      weight: p.weight,
+      home_win: p.prediction.home_win,
+      draw: p.prediction.draw,
+      away_win: p.prediction.away_win,
+      confidence: p.confidence ?? 0.5
+    }));
+  }
+
+  /**
+   * Ensemble kombinálás: súlyozott pooling, bizalom a modellek egyetértéséből,
+   * majd kalibráció, ha van illesztett modell
+   */
+  private combineModels(predictions: ModelExplanation[]): {
+    prediction: PredictionOutput['predictions'];
+    raw: RawEnsemblePrediction;
+    consensus: number;
+  } {
+    const outcomes = this.toWeightedOutcomes(predictions);
+    const pooled = poolOutcomes(outcomes, this.options.pooling_method);
+    const consensus = modelConsensus(outcomes, pooled);
+    const raw: RawEnsemblePrediction = {
+      home_win: pooled.home_win,
+      draw: pooled.draw,
+      away_win: pooled.away_win,
+      confidence: ensembleConfidence(outcomes, consensus)
+    };
+
+    const [homeWin, draw, awayWin] = this.calibration
+      ? applyCalibration(this.calibration, [raw.home_win, raw.draw, raw.away_win])
+      : [raw.home_win, raw.draw, raw.away_win];
+
+    const probabilities = { H: homeWin, D: draw, A: awayWin };
+    const mostLikely = (Object.keys(probabilities) as Array<'H' | 'D' | 'A'>)
+      .reduce((best, outcome) => probabilities[outcome] > probabilities[best] ? outcome : best, 'H');
+
+    return {
+      prediction: {
+        home_win_probability: homeWin,
+        draw_probability: draw,
+        away_win_probability: awayWin,
+        most_likely_outcome: mostLikely,
+        confidence_score: this.calibration ? calibrateConfidence(this.calibration, raw.confidence) : raw.confidence
+      },
+      raw,
+      consensus
+    };
   }
 
-  private combineModels(predictions: ModelExplanation[]) {
-    // Ensemble kombinálás...
+  /**
+   * Teljes eredmény-rács a Poisson / Dixon-Coles modellből.
+   * A modellekhez hasonlóan időkorláttal fut; hibánál a kimenetből csak a rács marad el.
+   */
+  private async getScorelinePredictions(features: PredictionFeatures): Promise<PredictionOutput['scoreline_predictions']> {
+    const poisson = this.models.get('poisson');
+    if (!(poisson instanceof PoissonModel)) return undefined;
+
+    let matrix: number[][];
+    try {
+      matrix = await this.withTimeout(poisson.predictScoreMatrix(features), 'poisson');
+    } catch (error) {
+      console.error('Scoreline prediction error:', error);
+      return undefined;
+    }
+
+    const scoreProbabilities: ScoreProbability[] = [];
+    matrix.forEach((row, homeGoals) => row.forEach((probability, awayGoals) => {
+      scoreProbabilities.push({ home_goals: homeGoals, away_goals: awayGoals, probability });
+    }));
+
+    const mostLikely = scoreProbabilities.reduce((best, score) =>
+      score.probability > best.probability ? score : best
+    );
+
     return {
-      home_win_probability: 0.5,
-      draw_probability: 0.25,
-      away_win_probability: 0.25,
-      most_likely_outcome: 'H' as const,
-      confidence_score: 0.75
+      most_likely_score: `${mostLikely.home_goals}-${mostLikely.away_goals}`,
+      score_probabilities: scoreProbabilities,
+      expected_goals: {
+        home: scoreProbabilities.reduce((sum, s) => sum + s.home_goals * s.probability, 0),
+        away: scoreProbabilities.reduce((sum, s) => sum + s.away_goals * s.probability, 0)
+      }
     };
   }
 
   private getConfidenceLevel(score: number): 'LOW' | 'MEDIUM' | 'HIGH' {
-    if (score >= 0.8) return 'HIGH';
-    if (score >= 0.6) return 'MEDIUM';
+    if (score >= this.confidenceThresholds.high_confidence) return 'HIGH';
+    if (score >= this.confidenceThresholds.medium_confidence) return 'MEDIUM';
     return 'LOW';
   }
 
-  private generateWarnings(features: any, qualityScore: number): string[] {
+  private generateWarnings(quality: DataQualityAssessment): string[] {
     const warnings: string[] = [];
-    if (qualityScore < 0.7) warnings.push('Limitált történeti adat');
-    return warnings;
+    if (quality.score < 0.7) warnings.push('Limitált történeti adat');
+    return [...warnings, ...quality.warnings];
   }
 }
 
+/**
+ * Feature-ök időpontja: múltbeli mérkőzésnél a kezdés, egyébként null (legfrissebb adat),
+ * így a jövőbeli mérkőzések osztoznak a cache-elt feature-ökön
+ */
+const featureAsOf = (input: PredictionInput): string | null => {
+  const kickoff = input.match_context?.date ? new Date(input.match_context.date).getTime() : NaN;
+  return Number.isFinite(kickoff) && kickoff <= Date.now() ? new Date(kickoff).toISOString() : null;
+};
+
+/**
+ * Modell tanítási ablak. Backtestben az adatforrás mozgó időhatára dönt; élő adaton
+ * múltbeli mérkőzésnél a mérkőzés hetének kezdete (hétfő, UTC) előtti meccsekre
+ * tanítunk, hogy ne tanítsunk újra predikciónként vagy naponta.
+ */
+const trainingWindow = (
+  dataSource: MatchDataSource,
+  asOf: string | null,
+  latestKey: string
+): { key: string; before: string | undefined } => {
+  if (!dataSource.supportsStoredModels) return { key: dataSource.snapshotKey(), before: undefined };
+  if (!asOf) return { key: latestKey, before: undefined };
+
+  const week = new Date(asOf);
+  week.setUTCHours(0, 0, 0, 0);
+  week.setUTCDate(week.getUTCDate() - (week.getUTCDay() + 6) % 7);
+  return { key: `asof:${week.toISOString()}`, before: week.toISOString() };
+};
+
+/**
+ * Tanítási ablakonként illesztett modellek; a legutóbb használt néhány ablakot tartja meg,
+ * így a felváltva érkező élő és múltbeli predikciók nem tanítanak újra egymás után
+ */
+class TrainingCache<T> {
+  private entries: Map<string, Promise<T>> = new Map();
+
+  constructor(private maxEntries = 4) {}
+
+  get(key: string, load: () => Promise<T>): Promise<T> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // A Map beszúrási sorrendje adja a használati sorrendet
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    const value = load().catch(error => {
+      if (this.entries.get(key) === value) this.entries.delete(key);
+      throw error;
+    });
+    this.entries.set(key, value);
+
+    const oldest = this.entries.keys().next().value;
+    if (this.entries.size > this.maxEntries && oldest !== undefined) this.entries.delete(oldest);
+    return value;
+  }
+}
+
+const meanOr = (values: number[], fallback: number) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : fallback;
+
+// Egységnyi összegre skálázás; csupa nulla bemenetnél a tartalék eloszlás
+const normalizeOutcome = (
+  values: [number, number, number],
+  fallback: [number, number, number]
+): [number, number, number] => {
+  const total = values[0] + values[1] + values[2];
+  return total > 0 ? [values[0] / total, values[1] / total, values[2] / total] : fallback;
+};
+
 // Abstract base class for models
+interface ModelPrediction {
+  home_win: number;
+  draw: number;
+  away_win: number;
+  confidence: number;
+  key_features: FeatureImportance[];
+}
+
 abstract class PredictionModel {
-  abstract predict(features: any): Promise<{
-    home_win: number;
-    draw: number;
-    away_win: number;
-    confidence: number;
-    key_features: any[];
-  }>;
+  // Képes-e a modell ismert félidei állásra feltételezni
+  readonly supportsHalftime: boolean = false;
+
+  abstract predict(features: PredictionFeatures): Promise<ModelPrediction>;
 }
 
 // Empirical baseline model
 class EmpiricalModel extends PredictionModel {
-  async predict(features: any) {
-    // Egyszerű statisztikai modell implementáció
+  // Ligaszintű alapeloszlás (H, D, A), ha kevés a csapatadat
+  private static readonly PRIOR: [number, number, number] = [0.45, 0.27, 0.28];
+  // Ennyi mérkőzésnyi súlyt kap az alapeloszlás a csapat- és H2H arányokkal szemben
+  private static readonly PRIOR_MATCHES = 10;
+  // Teljes formakülönbség (±1) ekkora valószínűséget mozgat a hazai és vendég győzelem között
+  private static readonly FORM_SHIFT = 0.1;
+
+  async predict(features: PredictionFeatures): Promise<ModelPrediction> {
+    const home = features.home_team;
+    const away = features.away_team;
+    const h2h = features.head_to_head;
+    const prior = EmpiricalModel.PRIOR;
+
+    // Hazai csapat otthoni, vendég csapat idegenbeli arányai az alapeloszlás felé húzva
+    const sample = Math.min(home.historical_features.total_matches_played, away.historical_features.total_matches_played);
+    const teamWeight = sample / (sample + EmpiricalModel.PRIOR_MATCHES);
+    const teamRates = normalizeOutcome([
+      home.historical_features.home_win_percentage / 100,
+      (home.historical_features.draw_percentage + away.historical_features.draw_percentage) / 200,
+      away.historical_features.away_win_percentage / 100
+    ], prior);
+    let [homeWin, draw, awayWin] = prior.map((p, i) => p * (1 - teamWeight) + teamRates[i] * teamWeight);
+
+    // Otthoni és idegenbeli forma különbsége
+    const formEdge = meanOr(home.form_features.recent_form_home, 0.5) - meanOr(away.form_features.recent_form_away, 0.5);
+    const formShift = EmpiricalModel.FORM_SHIFT * formEdge;
+    homeWin = Math.max(0.02, homeWin + formShift);
+    awayWin = Math.max(0.02, awayWin - formShift);
+
+    // Egymás elleni győzelmi arány; a maradékot a döntetlen és a vendég győzelem arányában osztjuk
+    const h2hWeight = h2h.matches_played / (h2h.matches_played + EmpiricalModel.PRIOR_MATCHES);
+    [homeWin, draw, awayWin] = normalizeOutcome([homeWin, draw, awayWin], prior);
+    const rest = draw + awayWin;
+    const h2hRates = [h2h.home_advantage, draw / rest * (1 - h2h.home_advantage), awayWin / rest * (1 - h2h.home_advantage)];
+    [homeWin, draw, awayWin] = [homeWin, draw, awayWin].map((p, i) => p * (1 - h2hWeight) + h2hRates[i] * h2hWeight);
+
     return {
-      home_win: 0.45,
-      draw: 0.27,
-      away_win: 0.28,
-      confidence: 0.6,
-      key_features: []
+      home_win: homeWin,
+      draw,
+      away_win: awayWin,
+      confidence: 0.35 + 0.3 * teamWeight + 0.1 * h2hWeight,
+      key_features: [
+        {
+          feature_name: 'venue_win_rates',
+          importance: 0.5,
+          value: teamRates[0] - teamRates[2],
+          description: 'Hazai otthoni és vendég idegenbeli győzelmi arány különbsége'
+        },
+        {
+          feature_name: 'venue_form_difference',
+          importance: 0.3,
+          value: formEdge,
+          description: 'Otthoni és idegenbeli forma különbsége'
+        },
+        {
+          feature_name: 'h2h_home_win_rate',
+          importance: 0.2,
+          value: h2h.home_advantage,
+          description: 'Hazai csapat egymás elleni győzelmi aránya'
+        }
+      ]
     };
   }
 }
 
-// XGBoost model (placeholder)
+// Gradiens boosting fa modell (XGBoost-stílusú)
 class XGBoostModel extends PredictionModel {
-  async predict(features: any) {
-    // XGBoost implementáció (később)
+  private trained = new TrainingCache<GradientBoostingModel>();
+
+  constructor(private dataSource: MatchDataSource) {
+    super();
+  }
+
+  async predict(features: PredictionFeatures): Promise<ModelPrediction> {
+    const model = await this.getModel(features.as_of);
+    const vector = toFeatureVector(features.home_team, features.away_team);
+    const [homeWin, draw, awayWin] = predictProbabilities(model, vector);
+
+    // Bizalom a tanító minta méretéből
+    const confidence = 0.45 + 0.4 * Math.min(1, model.training_samples / 1500);
+
     return {
-      home_win: 0.52,
-      draw: 0.25,
-      away_win: 0.23,
-      confidence: 0.8,
-      key_features: []
+      home_win: homeWin,
+      draw,
+      away_win: awayWin,
+      confidence,
+      key_features: featureImportances(model)
+        .slice(0, 5)
+        .map(({ name, index, importance }) => ({
+          feature_name: name,
+          importance,
+          value: vector[index],
+          description: FEATURE_DEFINITIONS[index]?.description ?? name
+        }))
     };
   }
+
+  private getModel(asOf: string | null): Promise<GradientBoostingModel> {
+    // Élő adatnál a pillanatkép váltásakor újratöltjük a közben újratanított tárolt modellt;
+    // backtestben és múltbeli meccsnél a tanítási ablakra tanítunk
+    const window = trainingWindow(this.dataSource, asOf, this.dataSource.snapshotKey());
+    return this.trained.get(window.key, () => this.loadOrTrain(window.before));
+  }
+
+  /**
+   * Élő adaton a tárolt modellt használjuk, akkor is, ha elavult: az újratanítás
+   * az `npm run settle` feladata, a böngésző fő szálán nem tanítunk. Időhatárral a
+   * tanítási ablakra tanítunk, és az eredményt nem mentjük.
+   */
+  private async loadOrTrain(before: string | undefined): Promise<GradientBoostingModel> {
+    if (this.dataSource.supportsStoredModels && !before) {
+      const stored = await loadOutcomeModel();
+      if (!stored) throw new Error('Nincs tárolt XGBoost modell');
+      if (isOutcomeModelStale(stored)) {
+        console.warn(`XGBoost model is stale (trained ${stored.trained_at})`);
+      }
+      return stored;
+    }
+
+    const matches = await this.dataSource.getMatches({ before, limit: OUTCOME_TRAINING_LIMIT });
+    return trainOutcomeModel(matches).model;
+  }
 }
 
-// Poisson model (placeholder)
+// Poisson / Dixon-Coles gólmodell
 class PoissonModel extends PredictionModel {
-  async predict(features: any) {
+  private static readonly TRAINING_LIMIT = 3000;
+  private static readonly MAX_GOALS = 8;
+  // A gólok nagyjából 55%-a a második félidőben esik
+  private static readonly SECOND_HALF_SHARE = 0.55;
+
+  readonly supportsHalftime = true;
+
+  private fitted = new TrainingCache<DixonColesParams>();
+
+  constructor(private dataSource: MatchDataSource) {
+    super();
+  }
+
+  async predict(features: PredictionFeatures): Promise<ModelPrediction> {
+    const params = await this.getParams(features.as_of);
+    const homeTeam = features.home_team.team_name;
+    const awayTeam = features.away_team.team_name;
+    const goals = expectedGoals(params, homeTeam, awayTeam);
+    const outcome = outcomeProbabilities(this.buildMatrix(params, goals, features));
+
+    // Bizalom a két csapat mintanagyságából
+    const sample = Math.min(params.team_matches[homeTeam] ?? 0, params.team_matches[awayTeam] ?? 0);
+    const confidence = 0.4 + 0.45 * Math.min(1, sample / 30);
+
     return {
-      home_win: 0.48,
-      draw: 0.26,
-      away_win: 0.26,
-      confidence: 0.7,
-      key_features: []
+      ...outcome,
+      confidence,
+      key_features: [
+        {
+          feature_name: 'expected_home_goals',
+          importance: 0.35,
+          value: goals.home,
+          description: 'Várható hazai gólok'
+        },
+        {
+          feature_name: 'expected_away_goals',
+          importance: 0.35,
+          value: goals.away,
+          description: 'Várható vendég gólok'
+        },
+        {
+          feature_name: 'home_advantage',
+          importance: 0.2,
+          value: params.home_advantage,
+          description: 'Hazai pálya előny szorzó'
+        },
+        {
+          feature_name: 'low_score_rho',
+          importance: 0.1,
+          value: params.rho,
+          description: 'Dixon-Coles alacsony gólszám korrekció'
+        }
+      ]
     };
   }
+
+  /**
+   * Eredmény valószínűségi mátrix (hazai gól × vendég gól)
+   */
+  async predictScoreMatrix(features: PredictionFeatures): Promise<number[][]> {
+    const params = await this.getParams(features.as_of);
+    const goals = expectedGoals(params, features.home_team.team_name, features.away_team.team_name);
+    return this.buildMatrix(params, goals, features);
+  }
+
+  /**
+   * Félidei állásnál a második félidő gólmátrixát toljuk el az aktuális eredménnyel
+   */
+  private buildMatrix(
+    params: DixonColesParams,
+    goals: { home: number; away: number },
+    features: PredictionFeatures
+  ): number[][] {
+    const halftime = features.halftime_state;
+    if (!halftime) {
+      return scorelineMatrix(goals.home, goals.away, params.rho, PoissonModel.MAX_GOALS);
+    }
+
+    const secondHalf = scorelineMatrix(
+      goals.home * PoissonModel.SECOND_HALF_SHARE,
+      goals.away * PoissonModel.SECOND_HALF_SHARE,
+      0,
+      PoissonModel.MAX_GOALS
+    );
+    const size = PoissonModel.MAX_GOALS + Math.max(halftime.home_goals, halftime.away_goals) + 1;
+    const matrix = Array.from({ length: size }, () => Array(size).fill(0));
+    secondHalf.forEach((row, h) => row.forEach((p, a) => {
+      const finalHome = h + halftime.home_goals;
+      const finalAway = a + halftime.away_goals;
+      if (finalHome < size && finalAway < size) matrix[finalHome][finalAway] += p;
+    }));
+    return matrix;
+  }
+
+  private getParams(asOf: string | null): Promise<DixonColesParams> {
+    const window = trainingWindow(this.dataSource, asOf, this.dataSource.snapshotKey());
+    return this.fitted.get(window.key, () => this.fit(window.before));
+  }
+
+  private async fit(before: string | undefined): Promise<DixonColesParams> {
+    const matches = await this.dataSource.getMatches({ before, limit: PoissonModel.TRAINING_LIMIT });
+
+    const trainingMatches: GoalModelMatch[] = matches.map(m => ({
+      home_team: m.home_team,
+      away_team: m.away_team,
+      home_goals: m.full_time_home_goals,
+      away_goals: m.full_time_away_goals,
+      match_time: m.match_time
+    }));
+
+    // Az időbeli súlyozás a legfrissebb elérhető meccshez viszonyít
+    return fitDixonColes(trainingMatches);
+  }
+}
+
+// Elo / Glicko-2 értékszám modell
+class RatingModel extends PredictionModel {
+  private computed = new TrainingCache<RatingTable>();
+
+  constructor(private dataSource: MatchDataSource, private system: RatingSystem) {
+    super();
+  }
+
+  async predict(features: PredictionFeatures): Promise<ModelPrediction> {
+    const table = await this.getRatings(features.as_of);
+    const homeTeam = features.home_team.team_name;
+    const awayTeam = features.away_team.team_name;
+    const [homeWin, draw, awayWin] = ratingOutcomeProbabilities(table, homeTeam, awayTeam);
+    const home = table.teams.get(homeTeam);
+    const away = table.teams.get(awayTeam);
+
+    // Bizalom a kevesebb meccset játszott csapat mintájából
+    const sample = Math.min(home?.matches ?? 0, away?.matches ?? 0);
+    const confidence = 0.4 + 0.4 * Math.min(1, sample / 40);
+    const homeRating = home?.rating ?? table.options.initial_rating;
+    const awayRating = away?.rating ?? table.options.initial_rating;
+
+    return {
+      home_win: homeWin,
+      draw,
+      away_win: awayWin,
+      confidence,
+      key_features: [
+        {
+          feature_name: 'rating_difference',
+          importance: 0.5,
+          value: homeRating + table.options.home_advantage - awayRating,
+          description: 'Értékszám különbség hazai előnnyel'
+        },
+        {
+          feature_name: 'expected_score',
+          importance: 0.3,
+          value: ratingExpectedScore(table, homeTeam, awayTeam),
+          description: 'Hazai várható pontszám'
+        },
+        {
+          feature_name: 'home_rating',
+          importance: 0.1,
+          value: homeRating,
+          description: 'Hazai csapat értékszáma'
+        },
+        {
+          feature_name: 'away_rating',
+          importance: 0.1,
+          value: awayRating,
+          description: 'Vendég csapat értékszáma'
+        }
+      ]
+    };
+  }
+
+  private getRatings(asOf: string | null): Promise<RatingTable> {
+    const window = trainingWindow(this.dataSource, asOf, this.dataSource.snapshotKey());
+    return this.computed.get(window.key, () => this.dataSource
+      .getMatches({ before: window.before, limit: RATING_MATCH_LIMIT })
+      .then(matches => computeRatings(matches, this.system)));
+  }
 }
 
 // Markov transition model
 class MarkovModel extends PredictionModel {
-  async predict(features: any) {
+  readonly supportsHalftime = true;
+
+  async predict(features: PredictionFeatures): Promise<ModelPrediction> {
+    const model = features.head_to_head.transition_model;
+    const [homeWin, draw, awayWin] = fulltimeDistribution(model, features.halftime_state);
+    const { pair, home_team, away_team, league } = model.sample_sizes;
+
+    // Félidei állással a modell sokkal informatívabb
+    const sampleConfidence = Math.min(1, (pair * 3 + home_team + away_team + league / 20) / 120);
+    const confidence = (features.halftime_state ? 0.6 : 0.35) + 0.3 * sampleConfidence;
+
     return {
-      home_win: 0.46,
-      draw: 0.28,
-      away_win: 0.26,
-      confidence: 0.65,
-      key_features: []
+      home_win: homeWin,
+      draw,
+      away_win: awayWin,
+      confidence,
+      key_features: [
+        {
+          feature_name: 'h2h_transition_sample',
+          importance: 0.4,
+          value: pair,
+          description: 'Egymás elleni HT→FT minták'
+        },
+        {
+          feature_name: 'team_transition_sample',
+          importance: 0.35,
+          value: home_team + away_team,
+          description: 'Csapatszintű HT→FT minták'
+        },
+        {
+          feature_name: 'league_transition_sample',
+          importance: 0.25,
+          value: league,
+          description: 'Ligaszintű HT→FT minták'
+        }
+      ]
     };
   }
 }
 
 // Export singleton instance
-export const predictionEngine = new PredictionEngine();
\ No newline at end of file
+export const predictionEngine = new PredictionEngine({ feature_store: featureStore });
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { supabase } from '@/lib/supabase';
+import type { Outcome, OutcomeProbabilities } from '@/services/scoring-rules';
+import type { StoredPredictionFeatures } from '@/types/prediction';
+
+/**
+ * Kiértékelt predikciók betöltése (prediction_history + predictions)
+ */
+
+export interface EvaluatedPredictionRow {
+  prediction_id: string;
+  evaluated_at: string;
+  actual_result: Outcome;
+  // Kalibrálás előtti ensemble valószínűségek; régi soroknál a mentett oszlopok
+  raw_probabilities: OutcomeProbabilities;
+  raw_confidence: number;
+  features: StoredPredictionFeatures | null;
+}
+
+const isOutcome = (value: string | null): value is Outcome =>
+  value === 'H' || value === 'D' || value === 'A';
+
+export interface PreMatchCandidate {
+  match_id: number | null;
+  home_team: string;
+  away_team: string;
+  match_date: string;
+  predicted_at: string;
+  features: StoredPredictionFeatures | null;
+}
+
+// Mérkőzés azonosítása; match_id nélküli soroknál csapatok és nap alapján
+const matchKey = (prediction: PreMatchCandidate) =>
+  prediction.match_id !== null
+    ? `id:${prediction.match_id}`
+    : `${prediction.home_team}|${prediction.away_team}|${prediction.match_date.slice(0, 10)}`;
+
+/**
+ * Mérkőzésenként egy kiértékelhető predikció: a félidő nélküli, kezdés előtti
+ * predikciók közül a legutolsó (a cache lejárta után ugyanarra a meccsre újak készülnek).
+ * A `latest` térképbe gyűjt, így lapozott betöltésnél oldalanként hívható.
+ */
+export const keepLatestPreMatch = <T extends PreMatchCandidate>(latest: Map<string, T>, candidates: T[]) => {
+  candidates.forEach(candidate => {
+    if (candidate.features?.halftime) return;
+    if (new Date(candidate.predicted_at).getTime() >= new Date(candidate.match_date).getTime()) return;
+
+    const key = matchKey(candidate);
+    const previous = latest.get(key);
+    if (previous && previous.predicted_at >= candidate.predicted_at) return;
+    latest.set(key, candidate);
+  });
+  return latest;
+};
+
+type EvaluatedCandidate = PreMatchCandidate & { row: EvaluatedPredictionRow };
+
+/**
+ * Legutóbbi N kiértékelt predikció, legfrissebb elöl; mérkőzésenként egy (keepLatestPreMatch)
+ */
+export const loadEvaluatedPredictions = async (window: number): Promise<EvaluatedPredictionRow[]> => {
+  const latest = new Map<string, EvaluatedCandidate>();
+
+  for (let from = 0; latest.size < window; from += window) {
+    const { data: history, error: historyError } = await supabase
+      .from('prediction_history')
+      .select('prediction_id, actual_result, evaluated_at')
+      .not('evaluated_at', 'is', null)
+      .not('actual_result', 'is', null)
+      .order('evaluated_at', { ascending: false })
+      .order('prediction_id')
+      .range(from, from + window - 1);
+
+    if (historyError) throw historyError;
+    if (!history || history.length === 0) break;
+
+    const { data: predictions, error } = await supabase
+      .from('predictions')
+      .select('id, match_id, home_team, away_team, match_date, predicted_at, features_used, home_win_probability, draw_probability, away_win_probability, confidence_score')
+      .in('id', history.map(h => h.prediction_id));
+
+    if (error) throw error;
+
+    const predictionsById = new Map((predictions || []).map(p => [p.id, p]));
+
+    keepLatestPreMatch(latest, history.flatMap((h): EvaluatedCandidate[] => {
+      const prediction = predictionsById.get(h.prediction_id);
+      if (!prediction || !isOutcome(h.actual_result)) return [];
+
+      const features = prediction.features_used as unknown as StoredPredictionFeatures | null;
+      const raw = features?.raw_ensemble;
+      return [{
+        match_id: prediction.match_id,
+        home_team: prediction.home_team,
+        away_team: prediction.away_team,
+        match_date: prediction.match_date,
+        predicted_at: prediction.predicted_at,
+        features,
+        row: {
+          prediction_id: h.prediction_id,
+          evaluated_at: h.evaluated_at,
+          actual_result: h.actual_result,
+          raw_probabilities: raw
+            ? [raw.home_win, raw.draw, raw.away_win]
+            : [prediction.home_win_probability, prediction.draw_probability, prediction.away_win_probability],
+          raw_confidence: raw?.confidence ?? prediction.confidence_score ?? 0,
+          features
+        }
+      }];
+    }));
+
+    if (history.length < window) break;
+  }
+
+  return [...latest.values()]
+    .map(entry => entry.row)
+    .sort((a, b) => b.evaluated_at.localeCompare(a.evaluated_at))
+    .slice(0, window);
+};
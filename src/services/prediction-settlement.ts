@@ -0,0 +1,259 @@
+import { supabase, type Match } from '@/lib/supabase';
+import type { Json } from '@/integrations/supabase/types';
+import { isFinishedMatch } from '@/services/match-data-source';
+import { DEFAULT_CONFIDENCE_THRESHOLDS } from '@/services/weight-optimizer';
+import {
+  brierScore,
+  logLoss,
+  outcomeFromScore,
+  outcomeIndex,
+  predictedOutcome,
+  type OutcomeProbabilities
+} from '@/services/scoring-rules';
+import type {
+  ModelPerformance,
+  PredictionFeedback,
+  StoredPredictionFeatures
+} from '@/types/prediction';
+
+/**
+ * Predikciók elszámolása lezárt mérkőzésekkel
+ *
+ * A nyitott predikciókat match_id, ennek hiányában csapatok és dátum alapján
+ * párosítja a `matches` sorokkal, kiszámolja a PredictionFeedback mezőit,
+ * majd frissíti a `predictions` sort és a `prediction_history` bejegyzést.
+ * Ismételt futtatáskor ugyanazt az eredményt írja felül, nem duplikál.
+ * A keresési ablakon túl is párosítatlan, match_id nélküli predikciókat lezárja
+ * (unmatched_at), így azok nem foglalják el a következő futások helyét.
+ */
+
+type PredictionRow = {
+  id: string;
+  match_id: number | null;
+  home_team: string;
+  away_team: string;
+  match_date: string;
+  home_win_probability: number;
+  draw_probability: number;
+  away_win_probability: number;
+  confidence_score: number | null;
+  predicted_home_goals: number | null;
+  predicted_away_goals: number | null;
+  features_used: Json | null;
+};
+
+export interface SettlementOptions {
+  limit: number;
+  lookback_days: number; // Ennél régebbi, párosítatlan predikciókkal nem próbálkozunk
+  reevaluate: boolean;   // Már elszámolt predikciók újraértékelése is
+}
+
+export const DEFAULT_SETTLEMENT_OPTIONS: SettlementOptions = {
+  limit: 200,
+  lookback_days: 30,
+  reevaluate: false
+};
+
+export interface SettlementResult {
+  checked: number;
+  settled: number;
+  unmatched: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Csapat+dátum párosításnál ennyivel a predikció dátuma előtt / után keresünk
+const MATCH_WINDOW_BEFORE_MS = DAY_MS;
+const MATCH_WINDOW_AFTER_MS = 3 * DAY_MS;
+
+const PREDICTION_COLUMNS =
+  'id, match_id, home_team, away_team, match_date, home_win_probability, draw_probability, ' +
+  'away_win_probability, confidence_score, predicted_home_goals, predicted_away_goals, features_used';
+
+const predictedScore = (prediction: PredictionRow, stored: StoredPredictionFeatures | null) => {
+  const mostLikely = stored?.output?.scoreline_predictions?.most_likely_score;
+  if (mostLikely) {
+    const [home, away] = mostLikely.split('-').map(Number);
+    return { home, away };
+  }
+  if (prediction.predicted_home_goals === null || prediction.predicted_away_goals === null) return null;
+  return { home: Math.round(prediction.predicted_home_goals), away: Math.round(prediction.predicted_away_goals) };
+};
+
+/**
+ * Egy predikció kiértékelése a mérkőzés végeredménye alapján
+ */
+export const evaluatePrediction = (prediction: PredictionRow, match: Match): PredictionFeedback => {
+  const stored = prediction.features_used as unknown as StoredPredictionFeatures | null;
+  const actual = outcomeFromScore(match.full_time_home_goals, match.full_time_away_goals);
+  const probabilities: OutcomeProbabilities = [
+    prediction.home_win_probability,
+    prediction.draw_probability,
+    prediction.away_win_probability
+  ];
+  const ensembleProbability = probabilities[outcomeIndex(actual)];
+  const score = predictedScore(prediction, stored);
+
+  const modelPerformance: ModelPerformance[] = Object.entries(stored?.model_predictions ?? {}).map(
+    ([model, p]) => {
+      const modelProbabilities: OutcomeProbabilities = [p.home_win, p.draw, p.away_win];
+      return {
+        model_name: model,
+        individual_accuracy: predictedOutcome(modelProbabilities) === actual,
+        // Pozitív: a modell a tényleges kimenetel felé húzta az ensemble-t
+        contribution_score: modelProbabilities[outcomeIndex(actual)] - ensembleProbability,
+        feature_reliability: 1 - brierScore(modelProbabilities, actual) / 2
+      };
+    }
+  );
+
+  return {
+    prediction_id: prediction.id,
+    actual_result: actual,
+    actual_score: {
+      home_goals: match.full_time_home_goals,
+      away_goals: match.full_time_away_goals
+    },
+    prediction_accuracy: {
+      outcome_correct: predictedOutcome(probabilities) === actual,
+      score_correct: score !== null &&
+        score.home === match.full_time_home_goals &&
+        score.away === match.full_time_away_goals,
+      probability_error: 1 - ensembleProbability,
+      brier_score: brierScore(probabilities, actual),
+      log_loss: logLoss(probabilities, actual)
+    },
+    model_performance: modelPerformance
+  };
+};
+
+/**
+ * Lezárt mérkőzés keresése a predikcióhoz
+ */
+const findMatch = async (prediction: PredictionRow): Promise<Match | null> => {
+  if (prediction.match_id !== null) {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('*')
+      .eq('id', prediction.match_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data && isFinishedMatch(data) ? data : null;
+  }
+
+  const predictedAt = new Date(prediction.match_date).getTime();
+  const { data, error } = await supabase
+    .from('matches')
+    .select('*')
+    .eq('home_team', prediction.home_team)
+    .eq('away_team', prediction.away_team)
+    .gte('match_time', new Date(predictedAt - MATCH_WINDOW_BEFORE_MS).toISOString())
+    .lte('match_time', new Date(predictedAt + MATCH_WINDOW_AFTER_MS).toISOString())
+    .order('match_time', { ascending: true });
+
+  if (error) throw error;
+
+  const finished = (data || []).filter(isFinishedMatch);
+  if (finished.length === 0) return null;
+
+  // Több találatnál a predikció dátumához legközelebbi
+  return finished.reduce((best, match) =>
+    Math.abs(new Date(match.match_time).getTime() - predictedAt) <
+    Math.abs(new Date(best.match_time).getTime() - predictedAt) ? match : best
+  );
+};
+
+/**
+ * Kiértékelés írása: predictions frissítés és prediction_history upsert
+ */
+const writeFeedback = async (prediction: PredictionRow, match: Match, feedback: PredictionFeedback) => {
+  const confident = (prediction.confidence_score ?? 0) >= DEFAULT_CONFIDENCE_THRESHOLDS.medium_confidence;
+  const historyRow = {
+    prediction_id: prediction.id,
+    actual_result: feedback.actual_result,
+    actual_score: feedback.actual_score,
+    was_correct: feedback.prediction_accuracy.outcome_correct,
+    error_margin: feedback.prediction_accuracy.probability_error,
+    confidence_was_justified: confident === feedback.prediction_accuracy.outcome_correct,
+    evaluated_at: new Date().toISOString()
+  };
+
+  const { error: historyError } = await supabase
+    .from('prediction_history')
+    .upsert(historyRow, { onConflict: 'prediction_id' });
+
+  if (historyError) throw historyError;
+
+  // Utolsó lépés: ettől számít a predikció elszámoltnak, így hiba esetén újrapróbáljuk
+  const { error } = await supabase
+    .from('predictions')
+    .update({
+      actual_result: feedback.actual_result,
+      prediction_correct: feedback.prediction_accuracy.outcome_correct,
+      probability_accuracy: 1 - feedback.prediction_accuracy.brier_score / 2,
+      match_id: prediction.match_id ?? match.id,
+      unmatched_at: null
+    })
+    .eq('id', prediction.id);
+
+  if (error) throw error;
+};
+
+// match_id nélkül a keresési ablak lejárta után már nem várható párosítás
+const isUnmatchable = (prediction: PredictionRow, now: number) =>
+  prediction.match_id === null &&
+  new Date(prediction.match_date).getTime() + MATCH_WINDOW_AFTER_MS < now;
+
+const closeUnmatched = async (prediction: PredictionRow) => {
+  const { error } = await supabase
+    .from('predictions')
+    .update({ unmatched_at: new Date().toISOString() })
+    .eq('id', prediction.id);
+
+  if (error) throw error;
+};
+
+/**
+ * Nyitott (vagy újraértékelésnél az összes) lejárt dátumú predikció elszámolása
+ */
+export const settlePredictions = async (
+  options: Partial<SettlementOptions> = {}
+): Promise<SettlementResult> => {
+  const opts = { ...DEFAULT_SETTLEMENT_OPTIONS, ...options };
+
+  let query = supabase
+    .from('predictions')
+    .select(PREDICTION_COLUMNS)
+    .gte('match_date', new Date(Date.now() - opts.lookback_days * DAY_MS).toISOString())
+    .lte('match_date', new Date().toISOString());
+
+  if (!opts.reevaluate) query = query.is('actual_result', null).is('unmatched_at', null);
+
+  const { data, error } = await query
+    .order('match_date', { ascending: true })
+    .limit(opts.limit);
+
+  if (error) throw error;
+
+  const result: SettlementResult = { checked: 0, settled: 0, unmatched: 0, failed: 0 };
+
+  for (const prediction of (data || []) as unknown as PredictionRow[]) {
+    result.checked++;
+    try {
+      const match = await findMatch(prediction);
+      if (!match) {
+        if (isUnmatchable(prediction, Date.now())) await closeUnmatched(prediction);
+        result.unmatched++;
+        continue;
+      }
+      await writeFeedback(prediction, match, evaluatePrediction(prediction, match));
+      result.settled++;
+    } catch (err) {
+      console.error(`Settlement error (${prediction.id}):`, err);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,184 @@
+import { supabase } from '@/lib/supabase';
+import type { Json } from '@/integrations/supabase/types';
+import type {
+  PredictionInput,
+  PredictionOutput,
+  StoredPredictionFeatures
+} from '@/types/prediction';
+
+/**
+ * Predikciók mentése a `predictions` táblába és kiszolgálása cache_key alapján
+ */
+
+const PRE_MATCH_TTL_MS = 6 * 60 * 60 * 1000;     // Mérkőzés előtti predikció: 6 óra
+const HALFTIME_TTL_MS = 30 * 60 * 1000;          // Félidős predikció: 30 perc
+
+const normalizeTeam = (team: string) => team.trim().toLowerCase().replace(/\s+/g, '_');
+
+const matchDate = (input: PredictionInput) =>
+  (input.match_context?.date ? new Date(input.match_context.date) : new Date()).toISOString().slice(0, 10);
+
+const isHalftime = (input: PredictionInput) => input.halftime_home_goals !== undefined;
+
+/**
+ * Determinisztikus cache kulcs: csapatok, nap, modellverzió, félidős állás
+ */
+export const buildCacheKey = (input: PredictionInput, modelVersion: string): string => {
+  const halftime = isHalftime(input)
+    ? `ht${input.halftime_home_goals}-${input.halftime_away_goals ?? 0}`
+    : 'pre';
+  return [
+    normalizeTeam(input.home_team),
+    normalizeTeam(input.away_team),
+    matchDate(input),
+    modelVersion,
+    halftime
+  ].join('|');
+};
+
+/**
+ * Lejárat: félidőnél rövid, mérkőzés előtt legkésőbb a kezdés időpontja
+ */
+const expiresAt = (input: PredictionInput, now: number): string => {
+  if (isHalftime(input)) return new Date(now + HALFTIME_TTL_MS).toISOString();
+
+  const kickoff = input.match_context?.date ? new Date(input.match_context.date).getTime() : NaN;
+  const ttlEnd = now + PRE_MATCH_TTL_MS;
+  return new Date(kickoff > now ? Math.min(kickoff, ttlEnd) : ttlEnd).toISOString();
+};
+
+/**
+ * Érvényes (nem lejárt) mentett predikció a kulcshoz
+ */
+export const findCachedPrediction = async (cacheKey: string): Promise<PredictionOutput | null> => {
+  const { data, error } = await supabase
+    .from('predictions')
+    .select('id, features_used')
+    .eq('cache_key', cacheKey)
+    .gt('expires_at', new Date().toISOString())
+    .order('predicted_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const stored = data?.features_used as unknown as StoredPredictionFeatures | null;
+  if (!stored?.output) return null;
+
+  return {
+    ...stored.output,
+    prediction_metadata: {
+      ...stored.output.prediction_metadata,
+      prediction_id: data.id,
+      cache_key: cacheKey,
+      served_from_cache: true
+    }
+  };
+};
+
+// Liga: a mérkőzés kontextusából, különben a hazai csapat legutóbbi meccséből
+const resolveLeague = async (input: PredictionInput): Promise<string> => {
+  if (input.match_context?.competition) return input.match_context.competition;
+
+  const { data } = await supabase
+    .from('matches')
+    .select('league')
+    .or(`home_team.eq."${input.home_team}",away_team.eq."${input.home_team}"`)
+    .order('match_time', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.league ?? 'ismeretlen';
+};
+
+/**
+ * Predikció mentése; a visszaadott kimenet metaadata tartalmazza a sor azonosítóját
+ */
+export const savePrediction = async (
+  input: PredictionInput,
+  output: PredictionOutput,
+  cacheKey: string
+): Promise<PredictionOutput> => {
+  const now = Date.now();
+  const expectedGoals = output.scoreline_predictions?.expected_goals;
+
+  const features: StoredPredictionFeatures = {
+    model_predictions: Object.fromEntries(
+      output.model_explanations.map(m => [m.model_name, m.prediction])
+    ),
+    raw_ensemble: output.prediction_metadata.raw_ensemble,
+    halftime: isHalftime(input)
+      ? { home_goals: input.halftime_home_goals, away_goals: input.halftime_away_goals ?? 0 }
+      : null,
+    output
+  };
+
+  const { data, error } = await supabase
+    .from('predictions')
+    .insert({
+      cache_key: cacheKey,
+      home_team: input.home_team,
+      away_team: input.away_team,
+      league: await resolveLeague(input),
+      match_id: input.match_id ?? null,
+      match_date: input.match_context?.date ?? new Date(now).toISOString(),
+      home_win_probability: output.predictions.home_win_probability,
+      draw_probability: output.predictions.draw_probability,
+      away_win_probability: output.predictions.away_win_probability,
+      confidence_score: output.predictions.confidence_score,
+      predicted_home_goals: expectedGoals?.home ?? null,
+      predicted_away_goals: expectedGoals?.away ?? null,
+      predicted_total_goals: expectedGoals ? expectedGoals.home + expectedGoals.away : null,
+      model_version: output.prediction_metadata.model_version,
+      features_used: features as unknown as Json,
+      predicted_at: output.prediction_metadata.prediction_timestamp,
+      expires_at: expiresAt(input, now)
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  return {
+    ...output,
+    prediction_metadata: { ...output.prediction_metadata, prediction_id: data.id, cache_key: cacheKey }
+  };
+};
+
+export interface StoredPredictionSummary {
+  prediction_id: string | null;
+  match_id: number;
+  home_win_probability: number;
+  draw_probability: number;
+  away_win_probability: number;
+  confidence_score: number | null;
+  model_version: string | null;
+  predicted_at: string | null;
+  expires_at: string | null;
+}
+
+/**
+ * Legutóbbi mentett predikció mérkőzésenként
+ */
+export const loadLatestPredictions = async (
+  matchIds: number[]
+): Promise<Map<number, StoredPredictionSummary>> => {
+  const latest = new Map<number, StoredPredictionSummary>();
+  if (matchIds.length === 0) return latest;
+
+  const { data, error } = await supabase
+    .from('predictions')
+    .select('id, match_id, home_win_probability, draw_probability, away_win_probability, confidence_score, model_version, predicted_at, expires_at')
+    .in('match_id', matchIds)
+    .order('predicted_at', { ascending: false });
+
+  if (error) throw error;
+
+  (data || []).forEach(row => {
+    if (row.match_id === null || latest.has(row.match_id)) return;
+    const { id, match_id, ...probabilities } = row;
+    latest.set(match_id, { prediction_id: id, match_id, ...probabilities });
+  });
+
+  return latest;
+};
@@ -0,0 +1,54 @@
+/**
+ * Valószínűségi predikciók pontozási szabályai (1X2 kimenetelekre)
+ */
+
+export type Outcome = 'H' | 'D' | 'A';
+export type OutcomeProbabilities = [number, number, number]; // [H, D, A]
+
+export const OUTCOMES: Outcome[] = ['H', 'D', 'A'];
+
+const LOG_FLOOR = 1e-15;
+
+export const outcomeIndex = (outcome: Outcome): number => OUTCOMES.indexOf(outcome);
+
+export const outcomeFromScore = (homeGoals: number, awayGoals: number): Outcome => {
+  if (homeGoals > awayGoals) return 'H';
+  if (homeGoals === awayGoals) return 'D';
+  return 'A';
+};
+
+/**
+ * Többosztályos Brier pontszám (0 = tökéletes, 2 = legrosszabb)
+ */
+export const brierScore = (probabilities: OutcomeProbabilities, outcome: Outcome): number => {
+  const actual = outcomeIndex(outcome);
+  return probabilities.reduce((sum, p, i) => sum + (p - (i === actual ? 1 : 0)) ** 2, 0);
+};
+
+/**
+ * Logaritmikus veszteség a ténylegesen bekövetkezett kimenetelre
+ */
+export const logLoss = (probabilities: OutcomeProbabilities, outcome: Outcome): number =>
+  -Math.log(Math.max(probabilities[outcomeIndex(outcome)], LOG_FLOOR));
+
+/**
+ * Ranked Probability Score: figyelembe veszi a H < D < A sorrendet
+ */
+export const rankedProbabilityScore = (probabilities: OutcomeProbabilities, outcome: Outcome): number => {
+  const actual = outcomeIndex(outcome);
+  let cumulativePredicted = 0;
+  let cumulativeActual = 0;
+  let sum = 0;
+  for (let i = 0; i < probabilities.length - 1; i++) {
+    cumulativePredicted += probabilities[i];
+    cumulativeActual += i === actual ? 1 : 0;
+    sum += (cumulativePredicted - cumulativeActual) ** 2;
+  }
+  return sum / (probabilities.length - 1);
+};
+
+/**
+ * Legvalószínűbb kimenetel
+ */
+export const predictedOutcome = (probabilities: OutcomeProbabilities): Outcome =>
+  OUTCOMES[probabilities.indexOf(Math.max(...probabilities))];
@@ -0,0 +1,346 @@
+import { supabase, type Match } from '@/lib/supabase';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { fixtureToPredictionInput } from '@/services/fixtures';
+import { featureStore } from '@/services/feature-store';
+import { predictionEngine } from '@/services/prediction-engine';
+import {
+  computeStandings,
+  leagueMatchFilter,
+  loadSeasonMatches,
+  standingsRulesFor,
+  type League,
+  type StandingsRules
+} from '@/services/standings';
+import type { PredictionOutput } from '@/types/prediction';
+
+/**
+ * Monte Carlo szezon szimuláció: a hátralévő mérkőzések kimenetelét a predikciós motor
+ * valószínűségeiből mintavételezi, a haladást a season_predictions táblába írja
+ */
+
+export type SeasonPredictionRow = Database['public']['Tables']['season_predictions']['Row'];
+
+export interface SeasonSimulationOptions {
+  league_id: number;
+  league: string;
+  season: string;
+  iterations?: number;
+  top_n?: number;
+  relegation_spots?: number;
+  onProgress?: (row: SeasonPredictionRow) => void;
+}
+
+export interface TeamSeasonOdds {
+  team: string;
+  current_points: number;
+  expected_points: number;
+  points_p10: number;
+  points_p50: number;
+  points_p90: number;
+  points_distribution: Record<number, number>;   // Pontszám → valószínűség
+  expected_position: number;
+  title_probability: number;
+  top_n_probability: number;
+  relegation_probability: number;
+}
+
+export interface SeasonSimulationResults {
+  iterations: number;
+  top_n: number;
+  relegation_spots: number;
+  played_matches: number;
+  simulated_fixtures: number;
+  teams: TeamSeasonOdds[];             // Várható pontszám szerint csökkenő sorrendben
+}
+
+interface FixtureOutcomes {
+  home: number;
+  away: number;
+  outcomes: number[];                  // Halmozott H/D/A valószínűségek
+  scores: Array<Array<{ home: number; away: number; cumulative: number }>>;
+}
+
+const DEFAULT_ITERATIONS = 5000;
+const DEFAULT_TOP_N = 4;
+const DEFAULT_RELEGATION_SPOTS = 3;
+const PREDICTION_PROGRESS_SHARE = 80;     // A haladás 80%-a a predikciókra jut, a többi a szimulációra
+const SIMULATION_CHUNK = 250;
+const PROGRESS_STEP = 5;                  // Ennyi százalékonként írunk a táblába
+const FALLBACK_SCORES = [{ home: 1, away: 0 }, { home: 1, away: 1 }, { home: 0, away: 1 }];
+
+const outcomeIndex = (home: number, away: number) => (home > away ? 0 : home === away ? 1 : 2);
+
+const updateRow = async (id: string, patch: Database['public']['Tables']['season_predictions']['Update']) => {
+  const { data, error } = await supabase
+    .from('season_predictions')
+    .update(patch)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Ütemezett, még le nem játszott mérkőzések a liga szezonjában
+ */
+export const loadRemainingFixtures = async (league: League, season: string): Promise<Match[]> => {
+  const { data, error } = await supabase
+    .from('matches')
+    .select('*')
+    .or(leagueMatchFilter(league))
+    .eq('season', season)
+    .eq('match_status', 'scheduled')
+    .order('match_time', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Kimenetel- és eredményeloszlás a predikcióból; az eredményeket kimenetelenként normalizáljuk,
+ * hogy a mintavétel a H/D/A valószínűségeket tartsa
+ */
+export const fixtureOutcomes = (
+  prediction: PredictionOutput,
+  teamIndex: Map<string, number>,
+  fixture: Match
+): FixtureOutcomes => {
+  const { home_win_probability, draw_probability, away_win_probability } = prediction.predictions;
+  const total = home_win_probability + draw_probability + away_win_probability;
+  const probabilities = [home_win_probability, draw_probability, away_win_probability].map(p => p / total);
+
+  const scores = [0, 1, 2].map(outcome => {
+    const candidates = (prediction.scoreline_predictions?.score_probabilities ?? [])
+      .filter(s => outcomeIndex(s.home_goals, s.away_goals) === outcome && s.probability > 0);
+    const mass = candidates.reduce((sum, s) => sum + s.probability, 0);
+    if (mass === 0) return [{ ...FALLBACK_SCORES[outcome], cumulative: 1 }];
+
+    let cumulative = 0;
+    return candidates.map(s => {
+      cumulative += s.probability / mass;
+      return { home: s.home_goals, away: s.away_goals, cumulative };
+    });
+  });
+
+  return {
+    home: teamIndex.get(fixture.home_team)!,
+    away: teamIndex.get(fixture.away_team)!,
+    outcomes: [probabilities[0], probabilities[0] + probabilities[1], 1],
+    scores
+  };
+};
+
+const sampleIndex = (cumulative: number[]) => {
+  const r = Math.random();
+  const index = cumulative.findIndex(c => r <= c);
+  return index === -1 ? cumulative.length - 1 : index;
+};
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+
+/**
+ * Szimulációs futás: egy iteráció a hátralévő mérkőzéseket sorsolja, majd pont, gólkülönbség
+ * és lőtt gól szerint rangsorol (az egymás elleni szabályok itt nem számítanak)
+ */
+export const simulateSeason = async (
+  base: { team: string; points: number; goal_difference: number; goals_for: number }[],
+  fixtures: FixtureOutcomes[],
+  rules: StandingsRules,
+  options: { iterations: number; top_n: number; relegation_spots: number },
+  onChunk?: (completed: number) => Promise<void>
+): Promise<TeamSeasonOdds[]> => {
+  const teamCount = base.length;
+  const pointsWon = [rules.points_win, rules.points_draw, rules.points_loss];
+  const finalPoints = base.map(() => [] as number[]);
+  const positionSums = new Array(teamCount).fill(0);
+  const titles = new Array(teamCount).fill(0);
+  const topN = new Array(teamCount).fill(0);
+  const relegations = new Array(teamCount).fill(0);
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    const points = base.map(b => b.points);
+    const goalDifference = base.map(b => b.goal_difference);
+    const goalsFor = base.map(b => b.goals_for);
+
+    fixtures.forEach(fixture => {
+      const outcome = sampleIndex(fixture.outcomes);
+      const candidates = fixture.scores[outcome];
+      const score = candidates[sampleIndex(candidates.map(c => c.cumulative))];
+
+      points[fixture.home] += pointsWon[outcome];
+      points[fixture.away] += pointsWon[2 - outcome];
+      goalDifference[fixture.home] += score.home - score.away;
+      goalDifference[fixture.away] += score.away - score.home;
+      goalsFor[fixture.home] += score.home;
+      goalsFor[fixture.away] += score.away;
+    });
+
+    const order = base
+      .map((_, i) => i)
+      .sort((a, b) =>
+        points[b] - points[a] ||
+        goalDifference[b] - goalDifference[a] ||
+        goalsFor[b] - goalsFor[a] ||
+        Math.random() - 0.5
+      );
+
+    order.forEach((team, position) => {
+      positionSums[team] += position + 1;
+      if (position === 0) titles[team]++;
+      if (position < options.top_n) topN[team]++;
+      if (position >= teamCount - options.relegation_spots) relegations[team]++;
+    });
+    points.forEach((p, i) => finalPoints[i].push(p));
+
+    if (onChunk && (iteration + 1) % SIMULATION_CHUNK === 0) await onChunk(iteration + 1);
+  }
+
+  const n = options.iterations;
+  return base
+    .map((b, i) => {
+      const sorted = [...finalPoints[i]].sort((x, y) => x - y);
+      const distribution: Record<number, number> = {};
+      sorted.forEach(p => { distribution[p] = (distribution[p] ?? 0) + 1 / n; });
+
+      return {
+        team: b.team,
+        current_points: b.points,
+        expected_points: sorted.reduce((sum, p) => sum + p, 0) / n,
+        points_p10: percentile(sorted, 0.1),
+        points_p50: percentile(sorted, 0.5),
+        points_p90: percentile(sorted, 0.9),
+        points_distribution: distribution,
+        expected_position: positionSums[i] / n,
+        title_probability: titles[i] / n,
+        top_n_probability: topN[i] / n,
+        relegation_probability: relegations[i] / n
+      };
+    })
+    .sort((a, b) => b.expected_points - a.expected_points);
+};
+
+/**
+ * Szezon szimuláció futtatása; a season_predictions sor státuszát és haladását folyamatosan frissíti
+ */
+export const runSeasonSimulation = async (options: SeasonSimulationOptions): Promise<SeasonPredictionRow> => {
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const top_n = options.top_n ?? DEFAULT_TOP_N;
+  const relegation_spots = options.relegation_spots ?? DEFAULT_RELEGATION_SPOTS;
+
+  const league = { id: options.league_id, name: options.league };
+  const [played, remaining] = await Promise.all([
+    loadSeasonMatches(league, options.season),
+    loadRemainingFixtures(league, options.season)
+  ]);
+
+  // Hátralévő mérkőzés nélkül a szimuláció csak az aktuális tabellát adná vissza
+  if (remaining.length === 0) {
+    throw new Error(`Nincs ütemezett mérkőzés: ${options.league} ${options.season}`);
+  }
+
+  const { data: created, error } = await supabase
+    .from('season_predictions')
+    .insert({
+      league: options.league,
+      season: options.season,
+      status: 'running',
+      started_at: new Date().toISOString(),
+      total_matches: remaining.length,
+      processed_matches: 0,
+      progress_percentage: 0
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  options.onProgress?.(created);
+
+  let lastReported = 0;
+  const report = async (progress: number, processed: number) => {
+    if (progress - lastReported < PROGRESS_STEP) return;
+    lastReported = progress;
+    options.onProgress?.(await updateRow(created.id, {
+      progress_percentage: Math.round(progress),
+      processed_matches: processed
+    }));
+  };
+
+  try {
+    const rules = standingsRulesFor(options.league);
+    const teams = [...new Set([...played, ...remaining].flatMap(m => [m.home_team, m.away_team]))];
+    const table = new Map(computeStandings(played, rules).map(row => [row.team, row]));
+    const base = teams.map(team => ({
+      team,
+      points: table.get(team)?.points ?? 0,
+      goal_difference: table.get(team)?.goal_difference ?? 0,
+      goals_for: table.get(team)?.goals_for ?? 0
+    }));
+    const teamIndex = new Map(teams.map((team, i) => [team, i]));
+
+    // A predikciókat sorban kérjük le, a motor a predictions táblában cache-el;
+    // a csapat feature-ök egyetlen lekérdezéssel előre betöltődnek
+    await featureStore.prefetch(teams).catch(error => console.error('Feature prefetch error:', error));
+    const fixtures: FixtureOutcomes[] = [];
+    for (const [i, fixture] of remaining.entries()) {
+      const prediction = await predictionEngine.predict(fixtureToPredictionInput(fixture));
+      fixtures.push(fixtureOutcomes(prediction, teamIndex, fixture));
+      await report(((i + 1) / Math.max(remaining.length, 1)) * PREDICTION_PROGRESS_SHARE, i + 1);
+    }
+
+    const odds = await simulateSeason(base, fixtures, rules, { iterations, top_n, relegation_spots }, async completed => {
+      await report(PREDICTION_PROGRESS_SHARE + (completed / iterations) * (100 - PREDICTION_PROGRESS_SHARE), remaining.length);
+      // A böngésző szál felszabadítása a chunkok között
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+
+    const results: SeasonSimulationResults = {
+      iterations,
+      top_n,
+      relegation_spots,
+      played_matches: played.length,
+      simulated_fixtures: remaining.length,
+      teams: odds
+    };
+
+    const completed = await updateRow(created.id, {
+      status: 'completed',
+      progress_percentage: 100,
+      processed_matches: remaining.length,
+      completed_at: new Date().toISOString(),
+      results: results as unknown as Json
+    });
+    options.onProgress?.(completed);
+    return completed;
+  } catch (err) {
+    const failed = await updateRow(created.id, {
+      status: 'failed',
+      error_message: err instanceof Error ? err.message : String(err),
+      completed_at: new Date().toISOString()
+    });
+    options.onProgress?.(failed);
+    throw err;
+  }
+};
+
+/**
+ * A liga szezonjának legutóbbi szimulációja (futó vagy befejezett)
+ */
+export const loadLatestSeasonPrediction = async (league: string, season: string): Promise<SeasonPredictionRow | null> => {
+  const { data, error } = await supabase
+    .from('season_predictions')
+    .select('*')
+    .eq('league', league)
+    .eq('season', season)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const seasonPredictionResults = (row: SeasonPredictionRow | null): SeasonSimulationResults | null =>
+  row?.status === 'completed' && row.results ? (row.results as unknown as SeasonSimulationResults) : null;
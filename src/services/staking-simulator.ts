@@ -0,0 +1,274 @@
+import { supabase, type Match } from '@/lib/supabase';
+import { FINISHED_MATCH_FILTER } from '@/services/match-data-source';
+import {
+  OUTCOMES,
+  outcomeFromScore,
+  predictedOutcome,
+  type Outcome,
+  type OutcomeProbabilities
+} from '@/services/scoring-rules';
+import { kellyStake, matchResultOdds, type FixtureOdds } from '@/services/value-bets';
+import { DEFAULT_CONFIDENCE_THRESHOLDS } from '@/services/weight-optimizer';
+
+/**
+ * Tétstratégiák visszajátszása elszámolt predikciókon
+ *
+ * Minden lezárt mérkőzésre a kezdés előtti utolsó mentett predikciót vesszük,
+ * és a felhasználó által megadott vagy importált 1X2 szorzókkal, időrendben
+ * fogadunk a stratégia szabályai szerint.
+ */
+
+export type StakingStrategy = 'flat' | 'percentage' | 'full_kelly' | 'fractional_kelly' | 'confidence';
+
+export interface StakingOptions {
+  starting_bankroll: number;
+  flat_stake: number;                    // flat és confidence stratégia tétje
+  stake_percentage: number;              // percentage: az aktuális bankroll ekkora hányada
+  kelly_fraction: number;                // fractional_kelly szorzója
+  confidence_threshold: number;          // confidence: csak e feletti biztonságú predikcióra
+  min_edge: number;                      // Value feltétel: várható hozam egységnyi tétre
+}
+
+export const DEFAULT_STAKING_OPTIONS: StakingOptions = {
+  starting_bankroll: 1000,
+  flat_stake: 10,
+  stake_percentage: 0.01,
+  kelly_fraction: 0.25,
+  confidence_threshold: DEFAULT_CONFIDENCE_THRESHOLDS.medium_confidence,
+  min_edge: 0
+};
+
+export const STAKING_STRATEGIES: StakingStrategy[] = ['flat', 'percentage', 'full_kelly', 'fractional_kelly', 'confidence'];
+
+export interface HistoricalPrediction {
+  prediction_id: string;
+  match: Match;
+  probabilities: OutcomeProbabilities;
+  confidence: number;
+}
+
+export interface StakingRecord {
+  match_id: number;
+  match_time: string;
+  home_team: string;
+  away_team: string;
+  probabilities: OutcomeProbabilities;
+  confidence: number;
+  odds: OutcomeProbabilities;            // Decimális szorzók [H, D, A] sorrendben
+  actual_result: Outcome;
+}
+
+export interface SimulatedBet {
+  match_id: number;
+  match_time: string;
+  selection: Outcome;
+  odds: number;
+  stake: number;
+  profit: number;
+  bankroll: number;                      // Elszámolás utáni bankroll
+}
+
+export interface StakingResult {
+  strategy: StakingStrategy;
+  bets: SimulatedBet[];
+  equity: number[];                      // Kezdő bankroll, majd minden mérkőzés után
+  final_bankroll: number;
+  profit: number;
+  total_staked: number;
+  roi: number;                           // Profit a kezdő bankrollhoz
+  yield: number;                         // Profit az összes megtett téthez
+  max_drawdown: number;                  // Legnagyobb csúcstól mért visszaesés aránya
+  longest_losing_run: number;
+  wins: number;
+  busted: boolean;
+}
+
+const MIN_STAKE = 0.01;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const expectedReturn = (probability: number, odds: number) => probability * odds - 1;
+
+// A legnagyobb várható hozamú kimenetel, ha eléri a minimális előnyt
+const bestValueSelection = (record: StakingRecord, minEdge: number) => {
+  const ranked = OUTCOMES
+    .map((outcome, i) => ({ index: i, edge: expectedReturn(record.probabilities[i], record.odds[i]) }))
+    .sort((a, b) => b.edge - a.edge);
+  return ranked[0].edge > minEdge ? ranked[0].index : null;
+};
+
+const kellyFraction = (probability: number, odds: number) =>
+  kellyStake({ win: probability, half_win: 0, push: 0, half_loss: 0, loss: 1 - probability }, odds);
+
+/**
+ * Egy mérkőzés kiválasztása és tétje az adott stratégiával (null, ha nem fogadunk)
+ */
+const placeBet = (
+  strategy: StakingStrategy,
+  record: StakingRecord,
+  bankroll: number,
+  options: StakingOptions
+): { index: number; stake: number } | null => {
+  if (strategy === 'confidence') {
+    if (record.confidence < options.confidence_threshold) return null;
+    return { index: OUTCOMES.indexOf(predictedOutcome(record.probabilities)), stake: options.flat_stake };
+  }
+
+  const index = bestValueSelection(record, options.min_edge);
+  if (index === null) return null;
+
+  switch (strategy) {
+    case 'flat':
+      return { index, stake: options.flat_stake };
+    case 'percentage':
+      return { index, stake: bankroll * options.stake_percentage };
+    case 'full_kelly':
+      return { index, stake: bankroll * kellyFraction(record.probabilities[index], record.odds[index]) };
+    case 'fractional_kelly':
+      return {
+        index,
+        stake: bankroll * kellyFraction(record.probabilities[index], record.odds[index]) * options.kelly_fraction
+      };
+  }
+};
+
+/**
+ * Legnagyobb visszaesés a futó csúcshoz képest
+ */
+export const maxDrawdown = (equity: number[]): number => {
+  let peak = equity[0] ?? 0;
+  let worst = 0;
+  equity.forEach(value => {
+    peak = Math.max(peak, value);
+    if (peak > 0) worst = Math.max(worst, (peak - value) / peak);
+  });
+  return worst;
+};
+
+/**
+ * Leghosszabb egymást követő vesztes fogadássorozat
+ */
+export const longestLosingRun = (bets: SimulatedBet[]): number => {
+  let longest = 0;
+  let current = 0;
+  bets.forEach(bet => {
+    current = bet.profit < 0 ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+};
+
+/**
+ * Stratégia visszajátszása időrendben; a tét nem haladhatja meg az aktuális bankrollt
+ */
+export const simulateStaking = (
+  records: StakingRecord[],
+  strategy: StakingStrategy,
+  options: Partial<StakingOptions> = {}
+): StakingResult => {
+  const opts = { ...DEFAULT_STAKING_OPTIONS, ...options };
+  const bets: SimulatedBet[] = [];
+  const equity = [opts.starting_bankroll];
+  let bankroll = opts.starting_bankroll;
+
+  records.forEach(record => {
+    const bet = bankroll >= MIN_STAKE ? placeBet(strategy, record, bankroll, opts) : null;
+    const stake = bet ? roundMoney(Math.min(bet.stake, bankroll)) : 0;
+
+    if (bet && stake >= MIN_STAKE) {
+      const selection = OUTCOMES[bet.index];
+      const odds = record.odds[bet.index];
+      const profit = roundMoney(selection === record.actual_result ? stake * (odds - 1) : -stake);
+      bankroll = roundMoney(bankroll + profit);
+      bets.push({ match_id: record.match_id, match_time: record.match_time, selection, odds, stake, profit, bankroll });
+    }
+
+    equity.push(bankroll);
+  });
+
+  const profit = roundMoney(bankroll - opts.starting_bankroll);
+  const totalStaked = roundMoney(bets.reduce((sum, bet) => sum + bet.stake, 0));
+
+  return {
+    strategy,
+    bets,
+    equity,
+    final_bankroll: bankroll,
+    profit,
+    total_staked: totalStaked,
+    roi: opts.starting_bankroll > 0 ? profit / opts.starting_bankroll : 0,
+    yield: totalStaked > 0 ? profit / totalStaked : 0,
+    max_drawdown: maxDrawdown(equity),
+    longest_losing_run: longestLosingRun(bets),
+    wins: bets.filter(bet => bet.profit > 0).length,
+    busted: bankroll < MIN_STAKE
+  };
+};
+
+/**
+ * Szorzóval rendelkező predikciók időrendben; a teljes 1X2 könyv nélküli mérkőzések kimaradnak
+ */
+export const buildStakingRecords = (
+  history: HistoricalPrediction[],
+  odds: Record<number, FixtureOdds>
+): StakingRecord[] =>
+  history
+    .flatMap(({ match, probabilities, confidence }) => {
+      const prices = matchResultOdds(odds[match.id]);
+      if (!prices) return [];
+      return [{
+        match_id: match.id,
+        match_time: match.match_time,
+        home_team: match.home_team,
+        away_team: match.away_team,
+        probabilities,
+        confidence,
+        odds: [prices.home, prices.draw, prices.away] as OutcomeProbabilities,
+        actual_result: outcomeFromScore(match.full_time_home_goals, match.full_time_away_goals)
+      }];
+    })
+    .sort((a, b) => new Date(a.match_time).getTime() - new Date(b.match_time).getTime());
+
+/**
+ * Elszámolt, mérkőzéshez kötött predikciók a lezárt meccsekkel; mérkőzésenként
+ * a kezdés előtti utolsó predikció számít
+ */
+export const loadHistoricalPredictions = async (limit = 1000): Promise<HistoricalPrediction[]> => {
+  const { data: predictions, error } = await supabase
+    .from('predictions')
+    .select('id, match_id, predicted_at, home_win_probability, draw_probability, away_win_probability, confidence_score')
+    .not('match_id', 'is', null)
+    .not('actual_result', 'is', null)
+    .order('predicted_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  if (!predictions || predictions.length === 0) return [];
+
+  const matchIds = [...new Set(predictions.map(p => p.match_id as number))];
+  const { data: matches, error: matchError } = await supabase
+    .from('matches')
+    .select('*')
+    .in('id', matchIds)
+    .or(FINISHED_MATCH_FILTER);
+
+  if (matchError) throw matchError;
+
+  const matchesById = new Map((matches || []).map(m => [m.id, m]));
+  const latest = new Map<number, HistoricalPrediction>();
+
+  predictions.forEach(p => {
+    const match = matchesById.get(p.match_id as number);
+    if (!match || latest.has(match.id)) return;
+    if (new Date(p.predicted_at).getTime() >= new Date(match.match_time).getTime()) return;
+
+    latest.set(match.id, {
+      prediction_id: p.id,
+      match,
+      probabilities: [p.home_win_probability, p.draw_probability, p.away_win_probability],
+      confidence: p.confidence_score ?? 0
+    });
+  });
+
+  return [...latest.values()];
+};
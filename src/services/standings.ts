@@ -0,0 +1,361 @@
+import { supabase, type Match } from '@/lib/supabase';
+import { FINISHED_MATCH_FILTER, SUPABASE_PAGE_SIZE } from '@/services/match-data-source';
+import { teamResult } from '@/services/team-features';
+import type { TeamResult } from '@/services/team-profile';
+
+/**
+ * Bajnoki tabella számítása a lejátszott mérkőzésekből, ligánként állítható holtverseny-szabályokkal
+ */
+
+export type TieBreaker =
+  | 'points'
+  | 'goal_difference'
+  | 'goals_for'
+  | 'wins'
+  | 'away_goals_for'
+  | 'head_to_head_points'          // Az azonos pontszámú csapatok egymás elleni mini-tabellája
+  | 'head_to_head_goal_difference';
+
+export interface StandingsRules {
+  points_win: number;
+  points_draw: number;
+  points_loss: number;
+  tie_breakers: TieBreaker[];
+}
+
+export type StandingsVenue = 'all' | 'home' | 'away';
+
+export interface StandingRow {
+  position: number;
+  team: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goals_for: number;
+  goals_against: number;
+  goal_difference: number;
+  away_goals_for: number;
+  points: number;
+  form: TeamResult[];              // Legfrissebb elöl
+}
+
+export interface PositionHistory {
+  dates: string[];                 // Játéknapok (yyyy-mm-dd), időrendben
+  positions: Record<string, Array<number | null>>;
+}
+
+export interface League {
+  id: number;
+  name: string;
+}
+
+export interface LeagueStandings {
+  league: League;
+  season: string | null;
+  seasons: string[];
+  rules: StandingsRules;
+  matches_played: number;
+  overall: StandingRow[];
+  home: StandingRow[];
+  away: StandingRow[];
+  form: StandingRow[];
+  position_history: PositionHistory;
+}
+
+export const DEFAULT_STANDINGS_RULES: StandingsRules = {
+  points_win: 3,
+  points_draw: 1,
+  points_loss: 0,
+  tie_breakers: ['points', 'goal_difference', 'goals_for', 'head_to_head_points']
+};
+
+// Ahol az egymás elleni eredmény előbb számít, mint a gólkülönbség
+const HEAD_TO_HEAD_FIRST: TieBreaker[] = [
+  'points',
+  'head_to_head_points',
+  'head_to_head_goal_difference',
+  'goal_difference',
+  'goals_for'
+];
+
+export const LEAGUE_STANDINGS_RULES: Record<string, Partial<StandingsRules>> = {
+  'Serie A': { tie_breakers: HEAD_TO_HEAD_FIRST },
+  'La Liga': { tie_breakers: HEAD_TO_HEAD_FIRST },
+  'Bundesliga': { tie_breakers: ['points', 'goal_difference', 'goals_for', 'head_to_head_points', 'away_goals_for'] }
+};
+
+const FORM_LENGTH = 5;
+const SEASON_MATCH_LIMIT = 1000;
+
+/**
+ * A liga holtverseny- és pontszabályai, alapértelmezésekkel kiegészítve
+ */
+export const standingsRulesFor = (league: string): StandingsRules => ({
+  ...DEFAULT_STANDINGS_RULES,
+  ...LEAGUE_STANDINGS_RULES[league]
+});
+
+const emptyRow = (team: string): StandingRow => ({
+  position: 0,
+  team,
+  played: 0,
+  wins: 0,
+  draws: 0,
+  losses: 0,
+  goals_for: 0,
+  goals_against: 0,
+  goal_difference: 0,
+  away_goals_for: 0,
+  points: 0,
+  form: []
+});
+
+const addMatch = (row: StandingRow, match: Match, rules: StandingsRules) => {
+  const home = match.home_team === row.team;
+  const scored = home ? match.full_time_home_goals : match.full_time_away_goals;
+  const conceded = home ? match.full_time_away_goals : match.full_time_home_goals;
+  const result = teamResult(match, row.team);
+
+  row.played++;
+  row.goals_for += scored;
+  row.goals_against += conceded;
+  row.goal_difference = row.goals_for - row.goals_against;
+  if (!home) row.away_goals_for += scored;
+
+  if (result === 'W') {
+    row.wins++;
+    row.points += rules.points_win;
+  } else if (result === 'D') {
+    row.draws++;
+    row.points += rules.points_draw;
+  } else {
+    row.losses++;
+    row.points += rules.points_loss;
+  }
+  row.form.unshift(result);
+};
+
+const byTime = (a: Match, b: Match) => new Date(a.match_time).getTime() - new Date(b.match_time).getTime();
+
+const tieBreakerValues = (
+  rows: StandingRow[],
+  breaker: TieBreaker,
+  matches: Match[],
+  rules: StandingsRules
+): Map<string, number> => {
+  if (breaker === 'head_to_head_points' || breaker === 'head_to_head_goal_difference') {
+    const teams = new Set(rows.map(r => r.team));
+    const mini = computeRows(
+      matches.filter(m => teams.has(m.home_team) && teams.has(m.away_team)),
+      rules,
+      'all',
+      [...teams]
+    );
+    return new Map(mini.map(r => [
+      r.team,
+      breaker === 'head_to_head_points' ? r.points : r.goal_difference
+    ]));
+  }
+  return new Map(rows.map(r => [r.team, r[breaker]]));
+};
+
+// Szabályonként csoportosít: az egyenlő értékű csapatokat a következő szabály rendezi tovább
+const rankRows = (
+  rows: StandingRow[],
+  breakers: TieBreaker[],
+  matches: Match[],
+  rules: StandingsRules
+): StandingRow[] => {
+  if (rows.length <= 1 || breakers.length === 0) {
+    return [...rows].sort((a, b) => a.team.localeCompare(b.team));
+  }
+
+  const [breaker, ...rest] = breakers;
+  const values = tieBreakerValues(rows, breaker, matches, rules);
+  const groups = new Map<number, StandingRow[]>();
+  rows.forEach(row => {
+    const value = values.get(row.team) ?? 0;
+    groups.set(value, [...(groups.get(value) ?? []), row]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => b - a)
+    .flatMap(([, group]) => rankRows(group, rest, matches, rules));
+};
+
+const computeRows = (
+  matches: Match[],
+  rules: StandingsRules,
+  venue: StandingsVenue,
+  teams?: string[]
+): StandingRow[] => {
+  const rows = new Map<string, StandingRow>();
+  const rowFor = (team: string) => {
+    if (!rows.has(team)) rows.set(team, emptyRow(team));
+    return rows.get(team)!;
+  };
+  teams?.forEach(rowFor);
+
+  [...matches].sort(byTime).forEach(match => {
+    if (venue !== 'away') addMatch(rowFor(match.home_team), match, rules);
+    if (venue !== 'home') addMatch(rowFor(match.away_team), match, rules);
+  });
+
+  return [...rows.values()];
+};
+
+const withPositions = (rows: StandingRow[]) => rows.map((row, i) => ({ ...row, position: i + 1 }));
+
+/**
+ * Tabella a megadott mérkőzésekből; venue = 'home' / 'away' esetén csak a hazai / idegenbeli meccsek számítanak
+ */
+export const computeStandings = (
+  matches: Match[],
+  rules: StandingsRules = DEFAULT_STANDINGS_RULES,
+  venue: StandingsVenue = 'all'
+): StandingRow[] => {
+  const teams = [...new Set(matches.flatMap(m => [m.home_team, m.away_team]))];
+  const rows = computeRows(matches, rules, venue, teams);
+  return withPositions(rankRows(rows, rules.tie_breakers, matches, rules));
+};
+
+/**
+ * Formatabella: minden csapat csak a saját utolsó N mérkőzéséből
+ */
+export const computeFormTable = (
+  matches: Match[],
+  rules: StandingsRules = DEFAULT_STANDINGS_RULES,
+  length = FORM_LENGTH
+): StandingRow[] => {
+  const chronological = [...matches].sort(byTime);
+  const teams = [...new Set(chronological.flatMap(m => [m.home_team, m.away_team]))];
+
+  const rows = teams.map(team => {
+    const row = emptyRow(team);
+    chronological
+      .filter(m => m.home_team === team || m.away_team === team)
+      .slice(-length)
+      .forEach(m => addMatch(row, m, rules));
+    return row;
+  });
+
+  // Az egymás elleni szabályoknak itt nincs értelme, a rövid ablakban ritkán játszottak egymással
+  const breakers = rules.tie_breakers.filter(b => b !== 'head_to_head_points' && b !== 'head_to_head_goal_difference');
+  return withPositions(rankRows(rows, breakers, chronological, rules));
+};
+
+/**
+ * Helyezések alakulása játéknaponként (null, amíg a csapat nem játszott)
+ */
+export const computePositionHistory = (
+  matches: Match[],
+  rules: StandingsRules = DEFAULT_STANDINGS_RULES
+): PositionHistory => {
+  const chronological = [...matches].sort(byTime);
+  const dates = [...new Set(chronological.map(m => m.match_time.slice(0, 10)))];
+  const teams = [...new Set(chronological.flatMap(m => [m.home_team, m.away_team]))];
+  const positions: PositionHistory['positions'] = Object.fromEntries(teams.map(team => [team, []]));
+
+  dates.forEach(date => {
+    const played = chronological.filter(m => m.match_time.slice(0, 10) <= date);
+    const table = computeStandings(played, rules);
+    const positionByTeam = new Map(table.map(row => [row.team, row.position]));
+    teams.forEach(team => positions[team].push(positionByTeam.get(team) ?? null));
+  });
+
+  return { dates, positions };
+};
+
+/**
+ * Ligák a leagues táblából
+ */
+export const loadLeagues = async (): Promise<League[]> => {
+  const { data, error } = await supabase
+    .from('leagues')
+    .select('id, name')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * PostgREST `or` szűrő egy liga meccseire: league_id szerint, az azonosító
+ * nélkül importált soroknál a liga neve szerint
+ */
+export const leagueMatchFilter = (league: League) =>
+  `league_id.eq.${league.id},and(league_id.is.null,league.eq."${league.name}")`;
+
+/**
+ * A liga szezonjai, a legfrissebb elöl
+ */
+export const loadLeagueSeasons = async (league: League): Promise<string[]> => {
+  const seasons = new Set<string>();
+
+  // Szezon szerint rendezve lapozunk, így a max-rows korlát nem hagyhat ki szezont
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('season')
+      .or(leagueMatchFilter(league))
+      .not('season', 'is', null)
+      .order('season', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    (data || []).forEach(row => seasons.add(row.season as string));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  return [...seasons];
+};
+
+/**
+ * A liga egy szezonjának lejátszott mérkőzései
+ */
+export const loadSeasonMatches = async (league: League, season: string | null): Promise<Match[]> => {
+  let query = supabase
+    .from('matches')
+    .select('*')
+    .or(leagueMatchFilter(league))
+    .or(FINISHED_MATCH_FILTER);
+
+  query = season ? query.eq('season', season) : query.is('season', null);
+
+  const { data, error } = await query
+    .order('match_time', { ascending: true })
+    .limit(SEASON_MATCH_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Teljes tabella csomag egy ligára és szezonra (alapértelmezés: a legfrissebb szezon)
+ */
+export const loadLeagueStandings = async (leagueId: number, season?: string): Promise<LeagueStandings> => {
+  const { data: league, error } = await supabase.from('leagues').select('id, name').eq('id', leagueId).maybeSingle();
+
+  if (error) throw error;
+  if (!league) throw new Error(`Ismeretlen liga: ${leagueId}`);
+
+  const seasons = await loadLeagueSeasons(league);
+  const selectedSeason = season ?? seasons[0] ?? null;
+  const matches = await loadSeasonMatches(league, selectedSeason);
+  const rules = standingsRulesFor(league.name);
+
+  return {
+    league,
+    season: selectedSeason,
+    seasons,
+    rules,
+    matches_played: matches.length,
+    overall: computeStandings(matches, rules),
+    home: computeStandings(matches, rules, 'home'),
+    away: computeStandings(matches, rules, 'away'),
+    form: computeFormTable(matches, rules),
+    position_history: computePositionHistory(matches, rules)
+  };
+};
@@ -0,0 +1,163 @@
+import type { Match } from '@/lib/supabase';
+import type { TeamFeatures } from '@/types/prediction';
+
+/**
+ * Az időpont előtt lejátszott meccsek (asOf nélkül mind)
+ */
+export const playedBefore = (matches: Match[], asOf: string | null) => {
+  if (!asOf) return matches;
+  const cutoff = new Date(asOf).getTime();
+  return matches.filter(m => new Date(m.match_time).getTime() < cutoff);
+};
+
+/**
+ * Csapat feature-ök számítása a csapat hazai és idegenbeli meccseiből
+ *
+ * A meccseket időben csökkenő sorrendben várja (legfrissebb elöl); a sorozat,
+ * lendület és előnytartás a két lista időrendben összefésült előzményéből számol.
+ * asOf megadásakor csak a szigorúan korábbi meccsek számítanak.
+ */
+export const buildTeamFeatures = (
+  teamName: string,
+  homeMatches: Match[],
+  awayMatches: Match[],
+  asOf: string | null = null
+): TeamFeatures => {
+  const homeData = playedBefore(homeMatches, asOf);
+  const awayData = playedBefore(awayMatches, asOf);
+  const history = [...homeData, ...awayData]
+    .sort((a, b) => new Date(b.match_time).getTime() - new Date(a.match_time).getTime());
+
+  // Form feature-ök számítása
+  const homeForm = homeData.slice(0, 5).map(m => {
+    if (m.result_computed === 'H') return 1;
+    if (m.result_computed === 'D') return 0.5;
+    return 0;
+  });
+
+  const awayForm = awayData.slice(0, 5).map(m => {
+    if (m.result_computed === 'A') return 1;
+    if (m.result_computed === 'D') return 0.5;
+    return 0;
+  });
+
+  // Gól statisztikák
+  const homeGoalsScored = homeData.reduce((sum, m) => sum + m.full_time_home_goals, 0);
+  const homeGoalsConceded = homeData.reduce((sum, m) => sum + m.full_time_away_goals, 0);
+  const awayGoalsScored = awayData.reduce((sum, m) => sum + m.full_time_away_goals, 0);
+  const awayGoalsConceded = awayData.reduce((sum, m) => sum + m.full_time_home_goals, 0);
+
+  return {
+    team_id: teamName,
+    team_name: teamName,
+    last_updated: asOf ?? new Date().toISOString(),
+    form_features: {
+      recent_form_home: homeForm,
+      recent_form_away: awayForm,
+      recent_form_overall: history.slice(0, 5).map(m => FORM_POINTS[teamResult(m, teamName)]),
+      current_streak: calculateStreak(history, teamName),
+      streak_type: getStreakType(history, teamName),
+      momentum_score: calculateMomentum(history, teamName)
+    },
+    goal_features: {
+      avg_goals_scored_home: homeData.length > 0 ? homeGoalsScored / homeData.length : 0,
+      avg_goals_scored_away: awayData.length > 0 ? awayGoalsScored / awayData.length : 0,
+      avg_goals_conceded_home: homeData.length > 0 ? homeGoalsConceded / homeData.length : 0,
+      avg_goals_conceded_away: awayData.length > 0 ? awayGoalsConceded / awayData.length : 0,
+      btts_percentage_home: homeData.filter(m => m.btts_computed).length / Math.max(homeData.length, 1) * 100,
+      btts_percentage_away: awayData.filter(m => m.btts_computed).length / Math.max(awayData.length, 1) * 100,
+      clean_sheet_percentage_home: homeData.filter(m => m.full_time_away_goals === 0).length / Math.max(homeData.length, 1) * 100,
+      clean_sheet_percentage_away: awayData.filter(m => m.full_time_home_goals === 0).length / Math.max(awayData.length, 1) * 100,
+      comeback_ability: [...homeData, ...awayData].filter(m => m.comeback_computed).length / Math.max([...homeData, ...awayData].length, 1) * 100,
+      lead_holding: calculateLeadHolding(history, teamName)
+    },
+    historical_features: {
+      total_matches_played: homeData.length + awayData.length,
+      home_win_percentage: homeData.filter(m => m.result_computed === 'H').length / Math.max(homeData.length, 1) * 100,
+      away_win_percentage: awayData.filter(m => m.result_computed === 'A').length / Math.max(awayData.length, 1) * 100,
+      draw_percentage: [...homeData, ...awayData].filter(m => m.result_computed === 'D').length / Math.max([...homeData, ...awayData].length, 1) * 100,
+      head_to_head_record: [] // This will be filled separately
+    }
+  };
+};
+
+/**
+ * Mérkőzés végeredménye a csapat szemszögéből
+ */
+export const teamResult = (match: Match, teamName: string): 'W' | 'D' | 'L' => {
+  const scored = match.home_team === teamName ? match.full_time_home_goals : match.full_time_away_goals;
+  const conceded = match.home_team === teamName ? match.full_time_away_goals : match.full_time_home_goals;
+  if (scored > conceded) return 'W';
+  if (scored === conceded) return 'D';
+  return 'L';
+};
+
+const MIN_STREAK_LENGTH = 2;
+const MOMENTUM_MATCHES = 10;
+const MOMENTUM_DECAY = 0.85;      // Egy meccsel régebbi pont súlya ennyiszeres
+const NEUTRAL_LEAD_HOLDING = 50;  // Félidei vezetés nélkül
+
+const STREAK_TYPES = { W: 'WIN', D: 'DRAW', L: 'LOSS' } as const;
+
+const FORM_POINTS = { W: 1, D: 0.5, L: 0 } as const;
+
+/**
+ * Aktuális sorozat az eredményekből (legfrissebb elöl); MIN_STREAK_LENGTH alatt nincs sorozat
+ */
+export const currentRun = (results: Array<'W' | 'D' | 'L'>) => {
+  if (results.length === 0) return null;
+  const result = results[0];
+  const firstBreak = results.findIndex(r => r !== result);
+  const length = firstBreak === -1 ? results.length : firstBreak;
+  return length >= MIN_STREAK_LENGTH ? { result, length } : null;
+};
+
+/**
+ * Aktuális sorozat hossza: győzelmi sorozatnál pozitív, vereségnél negatív, döntetlennél 0
+ */
+const calculateStreak = (matches: Match[], teamName: string): number => {
+  const run = currentRun(matches.map(m => teamResult(m, teamName)));
+  if (!run || run.result === 'D') return 0;
+  return run.result === 'W' ? run.length : -run.length;
+};
+
+const getStreakType = (matches: Match[], teamName: string): 'WIN' | 'DRAW' | 'LOSS' | 'MIXED' => {
+  const run = currentRun(matches.map(m => teamResult(m, teamName)));
+  return run ? STREAK_TYPES[run.result] : 'MIXED';
+};
+
+/**
+ * Lendület: az utolsó meccsek pontjaira (1 / 0.5 / 0) illesztett, a frissebb meccseket
+ * jobban súlyozó egyenes meredeksége, az ablak teljes hosszára vetítve (-1 … 1)
+ */
+const calculateMomentum = (matches: Match[], teamName: string): number => {
+  const chronological = matches.slice(0, MOMENTUM_MATCHES).reverse();
+  const n = chronological.length;
+  if (n < 3) return 0;
+
+  const points = chronological.map(m => FORM_POINTS[teamResult(m, teamName)]);
+  const weights = chronological.map((_, i) => Math.pow(MOMENTUM_DECAY, n - 1 - i));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const meanX = weights.reduce((sum, w, i) => sum + w * i, 0) / totalWeight;
+  const meanY = weights.reduce((sum, w, i) => sum + w * points[i], 0) / totalWeight;
+
+  const covariance = weights.reduce((sum, w, i) => sum + w * (i - meanX) * (points[i] - meanY), 0);
+  const variance = weights.reduce((sum, w, i) => sum + w * (i - meanX) ** 2, 0);
+  const slope = variance > 0 ? covariance / variance : 0;
+
+  return Math.max(-1, Math.min(1, slope * (n - 1)));
+};
+
+/**
+ * Félidei vezetésből megnyert meccsek aránya (%)
+ */
+const calculateLeadHolding = (matches: Match[], teamName: string): number => {
+  const leads = matches.filter(m => {
+    if (m.half_time_home_goals === null || m.half_time_away_goals === null) return false;
+    const lead = m.half_time_home_goals - m.half_time_away_goals;
+    return m.home_team === teamName ? lead > 0 : lead < 0;
+  });
+  if (leads.length === 0) return NEUTRAL_LEAD_HOLDING;
+
+  return leads.filter(m => teamResult(m, teamName) === 'W').length / leads.length * 100;
+};
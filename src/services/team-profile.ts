@@ -0,0 +1,253 @@
+import { supabase, type Match } from '@/lib/supabase';
+import type { Database } from '@/integrations/supabase/types';
+import { SupabaseMatchDataSource } from '@/services/match-data-source';
+import { featureStore } from '@/services/feature-store';
+import { buildTeamFeatures, currentRun, teamResult } from '@/services/team-features';
+import type { FormFeatures, TeamFeatures } from '@/types/prediction';
+
+/**
+ * Csapat profil: forma, hazai/idegenbeli bontás, sorozatok és gól trend
+ */
+
+type Functions = Database['public']['Functions'];
+export type TeamStatsRow = Functions['get_team_stats']['Returns'][number];
+export type TeamFormStats = Functions['get_team_form_stats']['Returns'];
+export type ComebackStatsRow = Functions['calculate_comeback_stats']['Returns'][number];
+
+export type TeamResult = 'W' | 'D' | 'L';
+
+export interface TeamMatchResult {
+  match_id: number;
+  match_time: string;
+  opponent: string;
+  venue: 'home' | 'away';
+  goals_for: number;
+  goals_against: number;
+  result: TeamResult;
+}
+
+export interface SplitStats {
+  matches: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goals_for: number;
+  goals_against: number;
+  win_rate: number;
+  btts_rate: number;
+  clean_sheet_rate: number;
+}
+
+export interface TeamStreaks {
+  current_type: TeamResult | null;
+  current_length: number;
+  longest_win: number;
+  longest_unbeaten: number;
+  longest_winless: number;
+  longest_loss: number;
+}
+
+export interface GoalTrendPoint {
+  match_time: string;
+  opponent: string;
+  goals_for: number;
+  goals_against: number;
+  rolling_goals_for: number;
+  rolling_goals_against: number;
+}
+
+export interface TeamProfile {
+  team_name: string;
+  league: string | null;
+  matches_analyzed: number;
+  features: TeamFeatures;
+  recent: TeamMatchResult[];
+  splits: { overall: SplitStats; home: SplitStats; away: SplitStats };
+  streaks: TeamStreaks;
+  goal_trend: GoalTrendPoint[];
+  team_stats: TeamStatsRow | null;
+  form_stats: TeamFormStats | null;
+  comeback_stats: ComebackStatsRow | null;
+}
+
+const HISTORY_LIMIT = 100;
+const FEATURE_WINDOW = 10;        // Ugyanannyi meccs, amennyit a predikciós motor használ
+const TREND_MATCHES = 20;
+const ROLLING_WINDOW = 5;
+const FORM_LOOKBACK_DAYS = 90;
+
+const dataSource = new SupabaseMatchDataSource();
+
+/**
+ * Mérkőzés a csapat szemszögéből
+ */
+export const toTeamResult = (match: Match, teamName: string): TeamMatchResult => {
+  const home = match.home_team === teamName;
+  return {
+    match_id: match.id,
+    match_time: match.match_time,
+    opponent: home ? match.away_team : match.home_team,
+    venue: home ? 'home' : 'away',
+    goals_for: home ? match.full_time_home_goals : match.full_time_away_goals,
+    goals_against: home ? match.full_time_away_goals : match.full_time_home_goals,
+    result: teamResult(match, teamName)
+  };
+};
+
+/**
+ * Mérleg, gólok és BTTS / kapott gól nélküli arány egy mérkőzéshalmazra
+ */
+export const splitStats = (results: TeamMatchResult[]): SplitStats => {
+  const count = results.length;
+  const rate = (n: number) => (count > 0 ? n / count : 0);
+  const wins = results.filter(r => r.result === 'W').length;
+
+  return {
+    matches: count,
+    wins,
+    draws: results.filter(r => r.result === 'D').length,
+    losses: results.filter(r => r.result === 'L').length,
+    goals_for: results.reduce((sum, r) => sum + r.goals_for, 0),
+    goals_against: results.reduce((sum, r) => sum + r.goals_against, 0),
+    win_rate: rate(wins),
+    btts_rate: rate(results.filter(r => r.goals_for > 0 && r.goals_against > 0).length),
+    clean_sheet_rate: rate(results.filter(r => r.goals_against === 0).length)
+  };
+};
+
+const longestRun = (results: TeamMatchResult[], matches: (result: TeamResult) => boolean) => {
+  let longest = 0;
+  let run = 0;
+  results.forEach(r => {
+    run = matches(r.result) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+/**
+ * Aktuális és leghosszabb sorozatok (legfrissebb mérkőzés elöl); az aktuális sorozat
+ * a predikciós feature-ökkel azonos szabály szerint (currentRun)
+ */
+export const teamStreaks = (results: TeamMatchResult[]): TeamStreaks => {
+  const current = currentRun(results.map(r => r.result));
+
+  return {
+    current_type: current?.result ?? null,
+    current_length: current?.length ?? 0,
+    longest_win: longestRun(results, r => r === 'W'),
+    longest_unbeaten: longestRun(results, r => r !== 'L'),
+    longest_winless: longestRun(results, r => r !== 'W'),
+    longest_loss: longestRun(results, r => r === 'L')
+  };
+};
+
+/**
+ * Lőtt és kapott gólok mérkőzésenként, gördülő átlaggal (időrendben)
+ */
+export const goalTrend = (results: TeamMatchResult[], matchCount = TREND_MATCHES): GoalTrendPoint[] => {
+  const chronological = results.slice(0, matchCount).reverse();
+
+  return chronological.map((r, i) => {
+    const window = chronological.slice(Math.max(0, i - ROLLING_WINDOW + 1), i + 1);
+    return {
+      match_time: r.match_time,
+      opponent: r.opponent,
+      goals_for: r.goals_for,
+      goals_against: r.goals_against,
+      rolling_goals_for: window.reduce((sum, w) => sum + w.goals_for, 0) / window.length,
+      rolling_goals_against: window.reduce((sum, w) => sum + w.goals_against, 0) / window.length
+    };
+  });
+};
+
+/**
+ * A feature-ökben tárolt aktuális sorozat olvasható formában
+ */
+export const formFeatureStreak = (form: FormFeatures): string => {
+  switch (form.streak_type) {
+    case 'WIN':
+      return `${form.current_streak} győzelem`;
+    case 'LOSS':
+      return `${-form.current_streak} vereség`;
+    case 'DRAW':
+      return 'Döntetlen sorozat';
+    default:
+      return 'Nincs sorozat';
+  }
+};
+
+/**
+ * Lendület előjellel (-1 … 1)
+ */
+export const formatMomentum = (momentum: number) => `${momentum > 0 ? '+' : ''}${momentum.toFixed(2)}`;
+
+/**
+ * Csapat feature-ök a predikciós motorral közös feature-tárból; asOf megadásakor
+ * az akkori állapot
+ */
+export const loadTeamFeatures = async (teamName: string, asOf: string | null = null): Promise<TeamFeatures> =>
+  (await featureStore.getTeamFeatures(teamName, asOf)).features;
+
+// Az RPC-k hiánya vagy hibája nem akadályozza a profil megjelenítését
+export const settledValue = <T>(result: PromiseSettledResult<T>, label: string): T | null => {
+  if (result.status === 'fulfilled') return result.value;
+  console.error(`${label} error:`, result.reason);
+  return null;
+};
+
+export const rpcFirstRow = async <T>(request: PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T | null> => {
+  const { data, error } = await request;
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
+
+/**
+ * Csapat profil betöltése a matches táblából és a csapat RPC-kből
+ */
+export const loadTeamProfile = async (teamName: string, recentCount = 10): Promise<TeamProfile> => {
+  const [homeMatches, awayMatches] = await Promise.all([
+    dataSource.getMatches({ home_team: teamName, limit: HISTORY_LIMIT }),
+    dataSource.getMatches({ away_team: teamName, limit: HISTORY_LIMIT })
+  ]);
+
+  const matches = [...homeMatches, ...awayMatches]
+    .sort((a, b) => new Date(b.match_time).getTime() - new Date(a.match_time).getTime());
+  const results = matches.map(m => toTeamResult(m, teamName));
+  const league = matches[0]?.league ?? null;
+
+  const [teamStats, formStats, comebackStats] = await Promise.allSettled([
+    rpcFirstRow(supabase.rpc('get_team_stats', { team_name: teamName })),
+    league
+      ? supabase
+          .rpc('get_team_form_stats', { p_team_name: teamName, p_league: league, p_lookback_days: FORM_LOOKBACK_DAYS })
+          .then(({ data, error }) => {
+            if (error) throw error;
+            return data;
+          })
+      : Promise.resolve(null),
+    rpcFirstRow(supabase.rpc('calculate_comeback_stats', { team_name: teamName }))
+  ]);
+
+  return {
+    team_name: teamName,
+    league,
+    matches_analyzed: matches.length,
+    features: buildTeamFeatures(
+      teamName,
+      homeMatches.slice(0, FEATURE_WINDOW),
+      awayMatches.slice(0, FEATURE_WINDOW)
+    ),
+    recent: results.slice(0, recentCount),
+    splits: {
+      overall: splitStats(results),
+      home: splitStats(results.filter(r => r.venue === 'home')),
+      away: splitStats(results.filter(r => r.venue === 'away'))
+    },
+    streaks: teamStreaks(results),
+    goal_trend: goalTrend(results),
+    team_stats: settledValue(teamStats, 'get_team_stats'),
+    form_stats: settledValue(formStats, 'get_team_form_stats'),
+    comeback_stats: settledValue(comebackStats, 'calculate_comeback_stats')
+  };
+};
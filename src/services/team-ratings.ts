@@ -0,0 +1,397 @@
+import { supabase, type Match } from '@/lib/supabase';
+import type { Json } from '@/integrations/supabase/types';
+import { isFinishedMatch, SupabaseMatchDataSource, type MatchDataSource } from '@/services/match-data-source';
+import { outcomeFromScore, type OutcomeProbabilities } from '@/services/scoring-rules';
+
+/**
+ * Csapat erősségi értékszámok (Elo és Glicko-2) a teljes mérkőzéstörténetből
+ *
+ * Az Elo a gólkülönbséggel skálázott K-faktorral és hazai pálya előnnyel
+ * frissít. A Glicko-2 minden mérkőzést külön értékelési periódusnak vesz, és
+ * inaktivitás alatt a bizonytalanságot (RD) növeli. Csapatonként minden
+ * mérkőzés utáni értékről pillanatkép készül, ezeket a team_models tárolja.
+ */
+
+export type RatingSystem = 'elo' | 'glicko2';
+
+export interface RatingOptions {
+  initial_rating: number;
+  home_advantage: number;        // Értékpont a hazai csapatnak, mindkét rendszerben
+  elo_k: number;
+  initial_rd: number;            // Glicko-2 kezdeti bizonytalanság
+  initial_volatility: number;
+  tau: number;                   // Glicko-2 volatilitás változékonysága
+  rd_period_days: number;        // Inaktivitásnál ennyi naponként nő az RD
+}
+
+export const DEFAULT_RATING_OPTIONS: RatingOptions = {
+  initial_rating: 1500,
+  home_advantage: 65,
+  elo_k: 20,
+  initial_rd: 350,
+  initial_volatility: 0.06,
+  tau: 0.5,
+  rd_period_days: 7
+};
+
+export const RATING_SYSTEMS: RatingSystem[] = ['elo', 'glicko2'];
+
+export const RATING_MODEL_TYPES: Record<RatingSystem, string> = {
+  elo: 'ELO_RATING',
+  glicko2: 'GLICKO2_RATING'
+};
+
+export const RATING_MODEL_VERSION = 'rating-v1';
+
+// A teljes történethez; a tanító modellek 3000-es limitjénél bővebb
+export const RATING_MATCH_LIMIT = 10000;
+
+export interface RatingSnapshot {
+  match_id: number;
+  match_time: string;
+  opponent: string;
+  venue: 'home' | 'away';
+  rating: number;                // Mérkőzés utáni érték
+  change: number;
+  rd: number | null;             // Csak Glicko-2
+}
+
+export interface TeamRating {
+  team: string;
+  system: RatingSystem;
+  rating: number;
+  rd: number | null;
+  volatility: number | null;
+  matches: number;
+  last_match: string | null;
+  history: RatingSnapshot[];     // Időrendben
+}
+
+export interface RatingTable {
+  system: RatingSystem;
+  teams: Map<string, TeamRating>;
+  draw_rate: number;             // Döntetlenek aránya a feldolgozott meccseken
+  computed_through: string | null; // Legutolsó feldolgozott mérkőzés időpontja
+  options: RatingOptions;
+}
+
+const GLICKO_SCALE = 173.7178;
+const VOLATILITY_EPSILON = 0.000001;
+const DEFAULT_DRAW_RATE = 0.25;
+// Efölött a döntetlen valószínűség egyes kimenetelt negatívvá tehetne
+const MAX_DRAW_RATE = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Elo várható pontszám a (hazai előnnyel korrigált) értékkülönbségből
+ */
+export const expectedScore = (ratingDifference: number) => 1 / (1 + Math.pow(10, -ratingDifference / 400));
+
+/**
+ * Gólkülönbség szorzó (World Football Elo): 1 gólig 1, 2 gólnál 1,5, felette (11 + N) / 8
+ */
+export const goalDifferenceMultiplier = (goalDifference: number) => {
+  const margin = Math.abs(goalDifference);
+  if (margin <= 1) return 1;
+  if (margin === 2) return 1.5;
+  return (11 + margin) / 8;
+};
+
+const glickoG = (phi: number) => 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+
+/**
+ * Új volatilitás a Glicko-2 Illinois-iterációjával
+ */
+const updatedVolatility = (phi: number, sigma: number, v: number, delta: number, tau: number) => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return ex * (delta * delta - phi * phi - v - ex) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > VOLATILITY_EPSILON) {
+    const C = A + (A - B) * fA / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+};
+
+interface GlickoState {
+  mu: number;
+  phi: number;
+  sigma: number;
+}
+
+/**
+ * Egy csapat Glicko-2 frissítése egyetlen mérkőzés után (Glicko-2 skálán)
+ */
+const glickoUpdate = (player: GlickoState, opponent: { mu: number; phi: number }, score: number, tau: number): GlickoState => {
+  const g = glickoG(opponent.phi);
+  const expected = 1 / (1 + Math.exp(-g * (player.mu - opponent.mu)));
+  const v = 1 / (g * g * expected * (1 - expected));
+  const delta = v * g * (score - expected);
+
+  const sigma = updatedVolatility(player.phi, player.sigma, v, delta, tau);
+  const phiStar = Math.sqrt(player.phi * player.phi + sigma * sigma);
+  const phi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+
+  return { mu: player.mu + phi * phi * g * (score - expected), phi, sigma };
+};
+
+const newTeamRating = (team: string, system: RatingSystem, options: RatingOptions): TeamRating => ({
+  team,
+  system,
+  rating: options.initial_rating,
+  rd: system === 'glicko2' ? options.initial_rd : null,
+  volatility: system === 'glicko2' ? options.initial_volatility : null,
+  matches: 0,
+  last_match: null,
+  history: []
+});
+
+const toGlicko = (rating: TeamRating, options: RatingOptions): GlickoState => ({
+  mu: (rating.rating - options.initial_rating) / GLICKO_SCALE,
+  phi: (rating.rd ?? options.initial_rd) / GLICKO_SCALE,
+  sigma: rating.volatility ?? options.initial_volatility
+});
+
+const applyGlicko = (rating: TeamRating, state: GlickoState, options: RatingOptions) => {
+  rating.rating = options.initial_rating + state.mu * GLICKO_SCALE;
+  rating.rd = state.phi * GLICKO_SCALE;
+  rating.volatility = state.sigma;
+};
+
+// Inaktivitás alatt periódusonként nő a bizonytalanság, legfeljebb a kezdeti értékig
+const inflatedPhi = (state: GlickoState, lastMatch: string | null, matchTime: string, options: RatingOptions) => {
+  if (!lastMatch) return state.phi;
+  const periods = Math.max(0, (new Date(matchTime).getTime() - new Date(lastMatch).getTime()) / DAY_MS / options.rd_period_days - 1);
+  return Math.min(Math.sqrt(state.phi * state.phi + periods * state.sigma * state.sigma), options.initial_rd / GLICKO_SCALE);
+};
+
+const matchScore = (match: Match) => {
+  const outcome = outcomeFromScore(match.full_time_home_goals, match.full_time_away_goals);
+  return outcome === 'H' ? 1 : outcome === 'D' ? 0.5 : 0;
+};
+
+/**
+ * Értékszámok számítása időrendben; csak a lezárt mérkőzések számítanak
+ */
+export const computeRatings = (
+  matches: Match[],
+  system: RatingSystem,
+  options: Partial<RatingOptions> = {}
+): RatingTable => {
+  const opts = { ...DEFAULT_RATING_OPTIONS, ...options };
+  const teams = new Map<string, TeamRating>();
+  const team = (name: string) => {
+    let rating = teams.get(name);
+    if (!rating) {
+      rating = newTeamRating(name, system, opts);
+      teams.set(name, rating);
+    }
+    return rating;
+  };
+
+  const ordered = matches
+    .filter(isFinishedMatch)
+    .sort((a, b) => new Date(a.match_time).getTime() - new Date(b.match_time).getTime());
+  let draws = 0;
+
+  ordered.forEach(match => {
+    const home = team(match.home_team);
+    const away = team(match.away_team);
+    const score = matchScore(match);
+    if (score === 0.5) draws++;
+
+    const before = { home: home.rating, away: away.rating };
+
+    if (system === 'elo') {
+      const expected = expectedScore(home.rating + opts.home_advantage - away.rating);
+      const multiplier = goalDifferenceMultiplier(match.full_time_home_goals - match.full_time_away_goals);
+      const change = opts.elo_k * multiplier * (score - expected);
+      home.rating += change;
+      away.rating -= change;
+    } else {
+      const homeState = toGlicko(home, opts);
+      const awayState = toGlicko(away, opts);
+      homeState.phi = inflatedPhi(homeState, home.last_match, match.match_time, opts);
+      awayState.phi = inflatedPhi(awayState, away.last_match, match.match_time, opts);
+      const advantage = opts.home_advantage / GLICKO_SCALE;
+
+      const homeNext = glickoUpdate(
+        { ...homeState, mu: homeState.mu + advantage },
+        awayState,
+        score,
+        opts.tau
+      );
+      const awayNext = glickoUpdate(
+        awayState,
+        { mu: homeState.mu + advantage, phi: homeState.phi },
+        1 - score,
+        opts.tau
+      );
+
+      applyGlicko(home, { ...homeNext, mu: homeNext.mu - advantage }, opts);
+      applyGlicko(away, awayNext, opts);
+    }
+
+    [
+      { rating: home, opponent: away.team, venue: 'home' as const, previous: before.home },
+      { rating: away, opponent: home.team, venue: 'away' as const, previous: before.away }
+    ].forEach(({ rating, opponent, venue, previous }) => {
+      rating.matches++;
+      rating.last_match = match.match_time;
+      rating.history.push({
+        match_id: match.id,
+        match_time: match.match_time,
+        opponent,
+        venue,
+        rating: rating.rating,
+        change: rating.rating - previous,
+        rd: rating.rd
+      });
+    });
+  });
+
+  return {
+    system,
+    teams,
+    draw_rate: ordered.length > 0 ? Math.min(draws / ordered.length, MAX_DRAW_RATE) : DEFAULT_DRAW_RATE,
+    computed_through: ordered.length > 0 ? ordered[ordered.length - 1].match_time : null,
+    options: opts
+  };
+};
+
+/**
+ * Hazai várható pontszám két csapat között; Glicko-2-nél a két RD tompítja a különbséget
+ */
+export const ratingExpectedScore = (table: RatingTable, homeTeam: string, awayTeam: string) => {
+  const { options } = table;
+  const home = table.teams.get(homeTeam) ?? newTeamRating(homeTeam, table.system, options);
+  const away = table.teams.get(awayTeam) ?? newTeamRating(awayTeam, table.system, options);
+
+  if (table.system === 'elo') {
+    return expectedScore(home.rating + options.home_advantage - away.rating);
+  }
+
+  const homeState = toGlicko(home, options);
+  const awayState = toGlicko(away, options);
+  const g = glickoG(Math.sqrt(homeState.phi * homeState.phi + awayState.phi * awayState.phi));
+  return 1 / (1 + Math.exp(-g * (homeState.mu + options.home_advantage / GLICKO_SCALE - awayState.mu)));
+};
+
+/**
+ * 1X2 valószínűségek az értékszámokból. A döntetlen a liga döntetlenarányából
+ * jön, kiegyenlített párosításnál teljes, nagy különbségnél nullához tart.
+ */
+export const ratingOutcomeProbabilities = (
+  table: RatingTable,
+  homeTeam: string,
+  awayTeam: string
+): OutcomeProbabilities => {
+  const expected = ratingExpectedScore(table, homeTeam, awayTeam);
+  const draw = table.draw_rate * 4 * expected * (1 - expected);
+  return [expected - draw / 2, draw, 1 - expected - draw / 2];
+};
+
+/**
+ * Értékszámok mentése csapatonként; a korábbi aktív sorok inaktívvá válnak
+ */
+export const saveTeamRatings = async (table: RatingTable) => {
+  const modelType = RATING_MODEL_TYPES[table.system];
+  const { error: deactivateError } = await supabase
+    .from('team_models')
+    .update({ is_active: false })
+    .eq('model_type', modelType);
+
+  if (deactivateError) throw deactivateError;
+  if (table.teams.size === 0) return;
+
+  const { error } = await supabase.from('team_models').insert(
+    [...table.teams.values()].map(rating => ({
+      model_type: modelType,
+      team_name: rating.team,
+      version: RATING_MODEL_VERSION,
+      model_data: rating as unknown as Json,
+      training_matches: rating.matches,
+      last_trained: table.computed_through,
+      is_active: true
+    }))
+  );
+
+  if (error) throw error;
+};
+
+/**
+ * Tárolt értékszámok a megadott csapatokra, a feldolgozott utolsó mérkőzés idejével
+ */
+export const loadStoredTeamRatings = async (
+  teams: string[],
+  system: RatingSystem
+): Promise<{ ratings: TeamRating[]; computed_through: string | null }> => {
+  const { data, error } = await supabase
+    .from('team_models')
+    .select('model_data, last_trained')
+    .eq('model_type', RATING_MODEL_TYPES[system])
+    .eq('version', RATING_MODEL_VERSION)
+    .eq('is_active', true)
+    .in('team_name', teams);
+
+  if (error) throw error;
+  return {
+    ratings: (data || []).map(row => row.model_data as unknown as TeamRating),
+    computed_through: data?.[0]?.last_trained ?? null
+  };
+};
+
+const dataSource: MatchDataSource = new SupabaseMatchDataSource();
+
+/**
+ * Csapatok értékszám-története. A tárolt pillanatképeket használja, ha a
+ * legutóbbi lezárt mérkőzésig frissek; különben a teljes történetből újraszámol
+ * és ment.
+ */
+export const loadTeamRatings = async (teams: string[], system: RatingSystem): Promise<TeamRating[]> => {
+  const [latest, stored] = await Promise.all([
+    dataSource.getMatches({ limit: 1 }),
+    loadStoredTeamRatings(teams, system).catch(error => {
+      console.error('Rating load error:', error);
+      return null;
+    })
+  ]);
+
+  const latestTime = latest[0] ? new Date(latest[0].match_time).getTime() : -Infinity;
+  const isFresh = stored?.computed_through && new Date(stored.computed_through).getTime() >= latestTime;
+  if (stored && isFresh && stored.ratings.length === teams.length) return stored.ratings;
+
+  const table = computeRatings(await dataSource.getMatches({ limit: RATING_MATCH_LIMIT }), system);
+  await saveTeamRatings(table).catch(error => {
+    console.error('Rating save error:', error);
+  });
+
+  return teams.flatMap(team => {
+    const rating = table.teams.get(team);
+    return rating ? [rating] : [];
+  });
+};
@@ -0,0 +1,337 @@
+import type { Match } from '@/lib/supabase';
+import { parseCsv } from '@/services/fixtures';
+import {
+  asianHandicapMarket,
+  scoreGridFromPrediction,
+  totalsMarket,
+  type LineSettlement,
+  type ScoreGrid
+} from '@/services/markets';
+import type { PredictionOutput } from '@/types/prediction';
+
+/**
+ * Value bet keresés: a felhasználó által megadott szorzókból eltávolítjuk az irodai árrést,
+ * és a piac valószínűségeit a motor valószínűségeivel vetjük össze
+ */
+
+export type OddsMarketType = 'match_result' | 'totals' | 'btts' | 'draw_no_bet' | 'asian_handicap';
+
+export type MarginMethod = 'proportional' | 'shin';
+
+export interface MarketOdds {
+  market: OddsMarketType;
+  line?: number;                         // totals / asian_handicap (hazai csapatra értve)
+  prices: Record<string, number>;        // Kiválasztás → decimális szorzó
+}
+
+export interface FixtureOdds {
+  match_id: number;
+  home_team: string;
+  away_team: string;
+  markets: MarketOdds[];
+  updated_at: string;
+}
+
+export interface ValueBetOptions {
+  margin_method: MarginMethod;
+  bankroll: number;
+  kelly_fraction: number;                // Tört-Kelly szorzó (1 = teljes Kelly)
+  min_edge: number;                      // Ennél nagyobb várható hozamtól jelölünk
+}
+
+export interface ValueBetSelection {
+  market: OddsMarketType;
+  line?: number;
+  selection: string;
+  odds: number;
+  bookmaker_margin: number;
+  market_probability: number;            // Árrés nélküli piaci valószínűség
+  fair_odds: number;
+  model_probability: number;             // 1 / méltányos szorzó a motor szerint (visszajáró tét nélkül)
+  edge: number;                          // Várható hozam egységnyi tétre
+  kelly_stake: number;                   // A bankroll ekkora hányada
+  suggested_stake: number;
+  is_value: boolean;
+}
+
+export interface OddsParseResult {
+  odds: Array<Omit<FixtureOdds, 'match_id' | 'updated_at'> & { match_id?: number }>;
+  errors: string[];
+}
+
+export const DEFAULT_VALUE_BET_OPTIONS: ValueBetOptions = {
+  margin_method: 'shin',
+  bankroll: 1000,
+  kelly_fraction: 0.25,
+  min_edge: 0
+};
+
+export const MARKET_SELECTIONS: Record<OddsMarketType, string[]> = {
+  match_result: ['home', 'draw', 'away'],
+  totals: ['over', 'under'],
+  btts: ['yes', 'no'],
+  draw_no_bet: ['home', 'away'],
+  asian_handicap: ['home', 'away']
+};
+
+const SHIN_ITERATIONS = 60;
+const SHIN_MAX_Z = 0.5;
+
+/**
+ * Az iroda árrése: az implikált valószínűségek összegének 1 feletti része
+ */
+export const bookmakerMargin = (odds: number[]) => odds.reduce((sum, o) => sum + 1 / o, 0) - 1;
+
+const shinProbabilities = (implied: number[], z: number) => {
+  const total = implied.reduce((sum, q) => sum + q, 0);
+  return implied.map(q => (Math.sqrt(z * z + (4 * (1 - z) * q * q) / total) - z) / (2 * (1 - z)));
+};
+
+/**
+ * Árrés nélküli valószínűségek; a Shin módszer a bennfentes kereskedés z arányát
+ * felezéses kereséssel határozza meg úgy, hogy a valószínűségek összege 1 legyen
+ */
+export const removeMargin = (odds: number[], method: MarginMethod): number[] => {
+  const implied = odds.map(o => 1 / o);
+  const total = implied.reduce((sum, q) => sum + q, 0);
+
+  if (method === 'proportional' || total <= 1) return implied.map(q => q / total);
+
+  let low = 0;
+  let high = SHIN_MAX_Z;
+  for (let i = 0; i < SHIN_ITERATIONS; i++) {
+    const z = (low + high) / 2;
+    const sum = shinProbabilities(implied, z).reduce((s, p) => s + p, 0);
+    if (sum > 1) low = z;
+    else high = z;
+  }
+  return shinProbabilities(implied, (low + high) / 2);
+};
+
+const certain = (probability: number): LineSettlement => ({
+  win: probability,
+  half_win: 0,
+  push: 0,
+  half_loss: 0,
+  loss: 1 - probability
+});
+
+const sumWhere = (grid: ScoreGrid, predicate: (home: number, away: number) => boolean) =>
+  grid.reduce((sum, row, h) => sum + row.reduce((s, p, a) => (predicate(h, a) ? s + p : s), 0), 0);
+
+/**
+ * A motor kimenetel-eloszlása egy piac kiválasztásaira; a 1X2 a kalibrált ensemble-ből,
+ * a többi piac az eredmény-rácsból jön
+ */
+export const modelSettlements = (
+  prediction: PredictionOutput,
+  grid: ScoreGrid | null,
+  market: MarketOdds
+): Record<string, LineSettlement> | null => {
+  const { home_win_probability: home, draw_probability: draw, away_win_probability: away } = prediction.predictions;
+
+  switch (market.market) {
+    case 'match_result':
+      return { home: certain(home), draw: certain(draw), away: certain(away) };
+    case 'draw_no_bet':
+      return {
+        home: { ...certain(home), push: draw, loss: away },
+        away: { ...certain(away), push: draw, loss: home }
+      };
+    case 'btts': {
+      if (!grid) return null;
+      const yes = sumWhere(grid, (h, a) => h > 0 && a > 0);
+      return { yes: certain(yes), no: certain(1 - yes) };
+    }
+    case 'totals': {
+      if (!grid || market.line === undefined) return null;
+      const totals = totalsMarket(grid, market.line);
+      return { over: totals.over, under: totals.under };
+    }
+    case 'asian_handicap': {
+      if (!grid || market.line === undefined) return null;
+      const handicap = asianHandicapMarket(grid, market.line);
+      return { home: handicap.over, away: handicap.under };
+    }
+  }
+};
+
+/**
+ * Kelly tét visszajáró tét nélküli nyerési eséllyel; a félnyereség / félvereség fél tétnek számít
+ */
+export const kellyStake = (settlement: LineSettlement, odds: number): number => {
+  const win = settlement.win + settlement.half_win / 2;
+  const loss = settlement.loss + settlement.half_loss / 2;
+  const b = odds - 1;
+  if (b <= 0) return 0;
+  return Math.max(0, (win * b - loss) / b);
+};
+
+const expectedReturn = (settlement: LineSettlement, odds: number) =>
+  (settlement.win + settlement.half_win / 2) * (odds - 1) - (settlement.loss + settlement.half_loss / 2);
+
+/**
+ * Minden megadott szorzó értékelése; a value kiválasztások elöl, várható hozam szerint
+ */
+export const findValueBets = (
+  prediction: PredictionOutput,
+  markets: MarketOdds[],
+  options: Partial<ValueBetOptions> = {}
+): ValueBetSelection[] => {
+  const settings = { ...DEFAULT_VALUE_BET_OPTIONS, ...options };
+  const grid = scoreGridFromPrediction(prediction);
+
+  return markets
+    .flatMap(market => {
+      const selections = MARKET_SELECTIONS[market.market].filter(s => market.prices[s] > 1);
+      // Árrést csak teljes könyvből lehet eltávolítani
+      if (selections.length !== MARKET_SELECTIONS[market.market].length) return [];
+
+      const settlements = modelSettlements(prediction, grid, market);
+      if (!settlements) return [];
+
+      const odds = selections.map(s => market.prices[s]);
+      const fair = removeMargin(odds, settings.margin_method);
+      const margin = bookmakerMargin(odds);
+
+      return selections.map((selection, i) => {
+        const settlement = settlements[selection];
+        const winning = settlement.win + settlement.half_win / 2;
+        const decided = winning + settlement.loss + settlement.half_loss / 2;
+        const edge = expectedReturn(settlement, odds[i]);
+        const kelly = kellyStake(settlement, odds[i]) * settings.kelly_fraction;
+        const isValue = edge > settings.min_edge;
+
+        return {
+          market: market.market,
+          line: market.line,
+          selection,
+          odds: odds[i],
+          bookmaker_margin: margin,
+          market_probability: fair[i],
+          fair_odds: 1 / fair[i],
+          model_probability: decided > 0 ? winning / decided : 0,
+          edge,
+          kelly_stake: isValue ? kelly : 0,
+          suggested_stake: isValue ? Math.round(kelly * settings.bankroll * 100) / 100 : 0,
+          is_value: isValue
+        };
+      });
+    })
+    .sort((a, b) => Number(b.is_value) - Number(a.is_value) || b.edge - a.edge);
+};
+
+/**
+ * Megadott 1X2 szorzók egy mérkőzéshez, ha mindhárom kimenetelre van ár
+ */
+export const matchResultOdds = (odds: FixtureOdds | undefined) => {
+  const prices = odds?.markets.find(m => m.market === 'match_result')?.prices;
+  if (!prices?.home || !prices.draw || !prices.away) return undefined;
+  return { home: prices.home, draw: prices.draw, away: prices.away };
+};
+
+const MARKET_ALIASES: Record<string, OddsMarketType> = {
+  '1x2': 'match_result',
+  match_result: 'match_result',
+  totals: 'totals',
+  ou: 'totals',
+  over_under: 'totals',
+  btts: 'btts',
+  dnb: 'draw_no_bet',
+  draw_no_bet: 'draw_no_bet',
+  ah: 'asian_handicap',
+  asian_handicap: 'asian_handicap'
+};
+
+const SELECTION_ALIASES: Record<string, string> = {
+  '1': 'home', '2': 'away', x: 'draw',
+  o: 'over', u: 'under', igen: 'yes', nem: 'no'
+};
+
+/**
+ * Szorzók importálása CSV vagy JSON fájlból, soronként egy kiválasztással
+ * (oszlopok: home_team, away_team, market, selection, odds, line?, match_id?)
+ */
+export const parseOddsFile = (content: string, format: 'csv' | 'json'): OddsParseResult => {
+  let rows: Record<string, unknown>[];
+  if (format === 'csv') {
+    rows = parseCsv(content);
+  } else {
+    const parsed: unknown = JSON.parse(content);
+    const list = Array.isArray(parsed) ? parsed : (parsed as { odds?: unknown })?.odds;
+    if (!Array.isArray(list)) throw new Error('A JSON fájlnak tömböt vagy { odds: [...] } objektumot kell tartalmaznia');
+    rows = list as Record<string, unknown>[];
+  }
+
+  const grouped = new Map<string, OddsParseResult['odds'][number]>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const value = (key: string) => {
+      const field = row[key];
+      return field === undefined || field === null ? '' : String(field).trim();
+    };
+    const market = MARKET_ALIASES[value('market').toLowerCase()];
+    const rawSelection = value('selection').toLowerCase();
+    const selection = SELECTION_ALIASES[rawSelection] ?? rawSelection;
+    const odds = Number(value('odds').replace(',', '.'));
+    const line = value('line') ? Number(value('line').replace(',', '.')) : undefined;
+    const matchId = value('match_id') ? Number(value('match_id')) : undefined;
+
+    if (!value('home_team') || !value('away_team')) {
+      errors.push(`${index + 1}. sor: hiányzó csapatnév`);
+    } else if (!market) {
+      errors.push(`${index + 1}. sor: ismeretlen piac (${value('market')})`);
+    } else if (!MARKET_SELECTIONS[market].includes(selection)) {
+      errors.push(`${index + 1}. sor: ismeretlen kiválasztás (${value('selection')})`);
+    } else if (!(odds > 1)) {
+      errors.push(`${index + 1}. sor: érvénytelen szorzó (${value('odds')})`);
+    } else if ((market === 'totals' || market === 'asian_handicap') && (line === undefined || Number.isNaN(line))) {
+      errors.push(`${index + 1}. sor: a piachoz vonal szükséges`);
+    } else {
+      const fixtureKey = `${value('home_team')}|${value('away_team')}|${matchId ?? ''}`;
+      const fixture = grouped.get(fixtureKey) ?? {
+        home_team: value('home_team'),
+        away_team: value('away_team'),
+        ...(matchId !== undefined && { match_id: matchId }),
+        markets: []
+      };
+      const existing = fixture.markets.find(m => m.market === market && m.line === line);
+      if (existing) existing.prices[selection] = odds;
+      else fixture.markets.push({ market, ...(line !== undefined && { line }), prices: { [selection]: odds } });
+      grouped.set(fixtureKey, fixture);
+    }
+  });
+
+  return { odds: [...grouped.values()], errors };
+};
+
+/**
+ * Importált szorzók hozzárendelése ütemezett mérkőzésekhez (match_id vagy csapatnevek alapján)
+ */
+export const matchOddsToFixtures = (
+  parsed: OddsParseResult['odds'],
+  fixtures: Match[]
+): { matched: FixtureOdds[]; unmatched: number } => {
+  const now = new Date().toISOString();
+  const matched: FixtureOdds[] = [];
+
+  parsed.forEach(entry => {
+    const fixture = fixtures.find(f =>
+      entry.match_id !== undefined
+        ? f.id === entry.match_id
+        : f.home_team === entry.home_team && f.away_team === entry.away_team
+    );
+    if (fixture) {
+      matched.push({
+        match_id: fixture.id,
+        home_team: fixture.home_team,
+        away_team: fixture.away_team,
+        markets: entry.markets,
+        updated_at: now
+      });
+    }
+  });
+
+  return { matched, unmatched: parsed.length - matched.length };
+};
@@ -0,0 +1,216 @@
+import { supabase } from '@/lib/supabase';
+import type { Json } from '@/integrations/supabase/types';
+import { poolOutcomes, type PoolingMethod } from '@/services/ensemble';
+import { GLOBAL_MODEL_TEAM, saveGlobalModel } from '@/services/xgboost-trainer';
+import { loadEvaluatedPredictions } from '@/services/prediction-history';
+import {
+  brierScore,
+  logLoss,
+  type Outcome,
+  type OutcomeProbabilities
+} from '@/services/scoring-rules';
+import type { EnsembleWeights } from '@/types/prediction';
+
+/**
+ * Adaptív ensemble súlyok
+ *
+ * A kiértékelt predikciók modellenkénti valószínűségeiből olyan súlyokat
+ * keresünk, amelyek a pooled predikció log-loss vagy Brier pontszámát
+ * minimalizálják az utolsó N mérkőzésen.
+ */
+
+export type ScoringRule = 'log_loss' | 'brier';
+
+export const ENSEMBLE_MODEL_TYPE = 'ENSEMBLE';
+
+export interface WeightTrainingSample {
+  model_probabilities: Record<string, OutcomeProbabilities>;
+  actual_result: Outcome;
+}
+
+export interface WeightOptimizerOptions {
+  scoring_rule: ScoringRule;
+  pooling_method: PoolingMethod;
+  iterations: number;
+  learning_rate: number;
+  prior_strength: number;   // Ennyi mérkőzésnyi súllyal húzunk a korábbi súlyok felé
+  min_weight: number;
+}
+
+export const DEFAULT_WEIGHT_OPTIMIZER_OPTIONS: WeightOptimizerOptions = {
+  scoring_rule: 'log_loss',
+  pooling_method: 'linear',
+  iterations: 300,
+  learning_rate: 0.5,
+  prior_strength: 50,
+  min_weight: 0.02
+};
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: EnsembleWeights['confidence_thresholds'] = {
+  high_confidence: 0.8,
+  medium_confidence: 0.6
+};
+
+const softmax = (values: number[]): number[] => {
+  const max = Math.max(...values);
+  const exps = values.map(v => Math.exp(v - max));
+  const total = exps.reduce((sum, e) => sum + e, 0);
+  return exps.map(e => e / total);
+};
+
+/**
+ * Átlagos pontszám adott súlyokkal; a mintában hiányzó modellek kimaradnak
+ */
+export const evaluateWeights = (
+  samples: WeightTrainingSample[],
+  weights: Record<string, number>,
+  rule: ScoringRule = 'log_loss',
+  pooling: PoolingMethod = 'linear'
+): number => {
+  if (samples.length === 0) return 0;
+  const score = rule === 'brier' ? brierScore : logLoss;
+
+  const total = samples.reduce((sum, sample) => {
+    const outcomes = Object.entries(sample.model_probabilities).map(([model, [home_win, draw, away_win]]) => ({
+      weight: weights[model] ?? 0,
+      home_win,
+      draw,
+      away_win,
+      confidence: 1
+    }));
+    const pooled = poolOutcomes(outcomes, pooling);
+    return sum + score([pooled.home_win, pooled.draw, pooled.away_win], sample.actual_result);
+  }, 0);
+
+  return total / samples.length;
+};
+
+/**
+ * Súlyok optimalizálása softmax paraméterezett gradiens módszerrel
+ */
+export const optimizeWeights = (
+  samples: WeightTrainingSample[],
+  priorWeights: Record<string, number>,
+  options: Partial<WeightOptimizerOptions> = {}
+) => {
+  const opts = { ...DEFAULT_WEIGHT_OPTIMIZER_OPTIONS, ...options };
+  const models = Object.keys(priorWeights);
+  const priorTotal = models.reduce((sum, m) => sum + priorWeights[m], 0) || 1;
+  const prior = models.map(m => priorWeights[m] / priorTotal);
+
+  const toWeights = (values: number[]) =>
+    Object.fromEntries(models.map((m, i) => [m, values[i]]));
+  const objective = (theta: number[]) =>
+    evaluateWeights(samples, toWeights(softmax(theta)), opts.scoring_rule, opts.pooling_method);
+
+  const scoreBefore = evaluateWeights(samples, toWeights(prior), opts.scoring_rule, opts.pooling_method);
+  if (samples.length === 0 || models.length < 2) {
+    return { weights: toWeights(prior), score_before: scoreBefore, score_after: scoreBefore };
+  }
+
+  const theta = prior.map(w => Math.log(Math.max(w, 1e-6)));
+  const step = 1e-4;
+  for (let iteration = 0; iteration < opts.iterations; iteration++) {
+    const gradient = theta.map((_, i) => {
+      const plus = [...theta];
+      const minus = [...theta];
+      plus[i] += step;
+      minus[i] -= step;
+      return (objective(plus) - objective(minus)) / (2 * step);
+    });
+    const norm = Math.sqrt(gradient.reduce((sum, g) => sum + g * g, 0));
+    if (norm < 1e-7) break;
+    gradient.forEach((g, i) => {
+      theta[i] -= opts.learning_rate * g;
+    });
+  }
+
+  // Zsugorítás a korábbi súlyok felé, kis mintán ne ugráljanak a súlyok
+  const shrink = samples.length / (samples.length + opts.prior_strength);
+  const optimized = softmax(theta).map((w, i) => shrink * w + (1 - shrink) * prior[i]);
+  const floored = optimized.map(w => Math.max(w, opts.min_weight));
+  const flooredTotal = floored.reduce((sum, w) => sum + w, 0);
+  const weights = toWeights(floored.map(w => w / flooredTotal));
+
+  return {
+    weights,
+    score_before: scoreBefore,
+    score_after: evaluateWeights(samples, weights, opts.scoring_rule, opts.pooling_method)
+  };
+};
+
+/**
+ * Modellenkénti valószínűségek a kiértékelt predikciókból
+ */
+export const loadWeightTrainingSamples = async (window: number): Promise<WeightTrainingSample[]> => {
+  const rows = await loadEvaluatedPredictions(window);
+
+  return rows.flatMap(row => {
+    const modelPredictions = row.features?.model_predictions;
+    if (!modelPredictions) return [];
+
+    const modelProbabilities = Object.fromEntries(
+      Object.entries(modelPredictions).map(([model, p]) => [
+        model,
+        [p.home_win, p.draw, p.away_win] as OutcomeProbabilities
+      ])
+    );
+
+    return [{ model_probabilities: modelProbabilities, actual_result: row.actual_result }];
+  });
+};
+
+/**
+ * Legutóbb mentett ensemble súlyok
+ */
+export const loadEnsembleWeights = async (): Promise<EnsembleWeights | null> => {
+  const { data, error } = await supabase
+    .from('team_models')
+    .select('model_data')
+    .eq('model_type', ENSEMBLE_MODEL_TYPE)
+    .eq('team_name', GLOBAL_MODEL_TEAM)
+    .eq('is_active', true)
+    .order('last_trained', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  const weights = data?.model_data as unknown as EnsembleWeights | null;
+  return weights?.model_weights ? weights : null;
+};
+
+export const saveEnsembleWeights = (weights: EnsembleWeights, matchesEvaluated: number) =>
+  saveGlobalModel({
+    model_type: ENSEMBLE_MODEL_TYPE,
+    model_data: weights as unknown as Json,
+    training_matches: matchesEvaluated,
+    last_trained: weights.last_updated
+  });
+
+/**
+ * Teljes frissítési kör: minták betöltése, optimalizálás, mentés
+ */
+export const updateEnsembleWeights = async (
+  current: EnsembleWeights,
+  options: Partial<WeightOptimizerOptions> = {}
+) => {
+  const samples = await loadWeightTrainingSamples(current.performance_window);
+  const result = optimizeWeights(samples, current.model_weights, options);
+
+  const updated: EnsembleWeights = {
+    ...current,
+    model_weights: result.weights,
+    last_updated: new Date().toISOString()
+  };
+
+  if (samples.length > 0) {
+    await saveEnsembleWeights(updated, samples.length);
+  }
+
+  return {
+    weights: updated,
+    samples_used: samples.length,
+    score_before: result.score_before,
+    score_after: result.score_after
+  };
+};
@@ -0,0 +1,217 @@
+import { supabase, type Match } from '@/lib/supabase';
+import type { Json } from '@/integrations/supabase/types';
+import { buildTeamFeatures } from '@/services/team-features';
+import { SupabaseMatchDataSource, type MatchDataSource } from '@/services/match-data-source';
+import {
+  trainGradientBoosting,
+  predictProbabilities,
+  type GradientBoostingModel,
+  type GradientBoostingOptions
+} from '@/services/gradient-boosting';
+import type { TeamFeatures } from '@/types/prediction';
+
+/**
+ * Boosting modell tanítása a `getTeamFeatures` által használt feature-ökön
+ *
+ * Minden történeti mérkőzéshez csak a meccs előtti adatokból számoljuk a
+ * csapat feature-öket, így a tanító halmaz nem szivárogtat jövőbeli eredményt.
+ */
+
+export const XGBOOST_MODEL_TYPE = 'XGBOOST';
+export const GLOBAL_MODEL_TEAM = 'GLOBAL';
+export const XGBOOST_MODEL_VERSION = 'gbdt-v1';
+
+// Osztály indexek: 0 = hazai győzelem, 1 = döntetlen, 2 = vendég győzelem
+export const OUTCOME_CLASSES = ['H', 'D', 'A'] as const;
+
+// Tanító halmaz mérete: a legutóbbi N lezárt mérkőzés
+export const OUTCOME_TRAINING_LIMIT = 3000;
+// Ennél régebbi tárolt modellt újratanítunk
+export const OUTCOME_MODEL_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const FORM_WINDOW = 10;
+const MIN_TEAM_HISTORY = 3;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0.5;
+
+interface FeatureDefinition {
+  name: string;
+  description: string;
+  extract: (home: TeamFeatures, away: TeamFeatures) => number;
+}
+
+export const FEATURE_DEFINITIONS: FeatureDefinition[] = [
+  { name: 'home_goals_scored_home', description: 'Hazai csapat lőtt gólok otthon', extract: h => h.goal_features.avg_goals_scored_home },
+  { name: 'home_goals_conceded_home', description: 'Hazai csapat kapott gólok otthon', extract: h => h.goal_features.avg_goals_conceded_home },
+  { name: 'away_goals_scored_away', description: 'Vendég csapat lőtt gólok idegenben', extract: (_, a) => a.goal_features.avg_goals_scored_away },
+  { name: 'away_goals_conceded_away', description: 'Vendég csapat kapott gólok idegenben', extract: (_, a) => a.goal_features.avg_goals_conceded_away },
+  { name: 'home_win_pct_home', description: 'Hazai csapat győzelmi arány otthon', extract: h => h.historical_features.home_win_percentage },
+  { name: 'away_win_pct_away', description: 'Vendég csapat győzelmi arány idegenben', extract: (_, a) => a.historical_features.away_win_percentage },
+  { name: 'home_draw_pct', description: 'Hazai csapat döntetlen arány', extract: h => h.historical_features.draw_percentage },
+  { name: 'away_draw_pct', description: 'Vendég csapat döntetlen arány', extract: (_, a) => a.historical_features.draw_percentage },
+  { name: 'home_form_home', description: 'Hazai csapat otthoni formája', extract: h => average(h.form_features.recent_form_home) },
+  { name: 'away_form_away', description: 'Vendég csapat idegenbeli formája', extract: (_, a) => average(a.form_features.recent_form_away) },
+  { name: 'home_form_overall', description: 'Hazai csapat összesített formája', extract: h => average(h.form_features.recent_form_overall) },
+  { name: 'away_form_overall', description: 'Vendég csapat összesített formája', extract: (_, a) => average(a.form_features.recent_form_overall) },
+  { name: 'home_btts_pct', description: 'Hazai csapat BTTS arány otthon', extract: h => h.goal_features.btts_percentage_home },
+  { name: 'away_btts_pct', description: 'Vendég csapat BTTS arány idegenben', extract: (_, a) => a.goal_features.btts_percentage_away },
+  { name: 'home_clean_sheet_pct', description: 'Hazai csapat kapott gól nélküli meccsei', extract: h => h.goal_features.clean_sheet_percentage_home },
+  { name: 'away_clean_sheet_pct', description: 'Vendég csapat kapott gól nélküli meccsei', extract: (_, a) => a.goal_features.clean_sheet_percentage_away },
+  { name: 'home_comeback', description: 'Hazai csapat fordítási képessége', extract: h => h.goal_features.comeback_ability },
+  { name: 'away_comeback', description: 'Vendég csapat fordítási képessége', extract: (_, a) => a.goal_features.comeback_ability },
+  { name: 'home_lead_holding', description: 'Hazai csapat előny megtartása', extract: h => h.goal_features.lead_holding },
+  { name: 'away_lead_holding', description: 'Vendég csapat előny megtartása', extract: (_, a) => a.goal_features.lead_holding },
+  { name: 'home_momentum', description: 'Hazai csapat lendülete', extract: h => h.form_features.momentum_score },
+  { name: 'away_momentum', description: 'Vendég csapat lendülete', extract: (_, a) => a.form_features.momentum_score },
+  { name: 'home_streak', description: 'Hazai csapat aktuális sorozata', extract: h => h.form_features.current_streak },
+  { name: 'away_streak', description: 'Vendég csapat aktuális sorozata', extract: (_, a) => a.form_features.current_streak },
+  {
+    name: 'goal_balance_diff',
+    description: 'Gólkülönbség előny (hazai otthon vs vendég idegenben)',
+    extract: (h, a) =>
+      (h.goal_features.avg_goals_scored_home - h.goal_features.avg_goals_conceded_home) -
+      (a.goal_features.avg_goals_scored_away - a.goal_features.avg_goals_conceded_away)
+  }
+];
+
+export const FEATURE_NAMES = FEATURE_DEFINITIONS.map(d => d.name);
+
+/**
+ * Feature vektor egy párosításhoz
+ */
+export const toFeatureVector = (home: TeamFeatures, away: TeamFeatures): number[] =>
+  FEATURE_DEFINITIONS.map(d => d.extract(home, away));
+
+const outcomeClass = (m: Match): number => {
+  if (m.full_time_home_goals > m.full_time_away_goals) return 0;
+  if (m.full_time_home_goals === m.full_time_away_goals) return 1;
+  return 2;
+};
+
+/**
+ * Tanító halmaz időrendben, csak a mérkőzés előtti adatokból
+ */
+export const buildTrainingSet = (matches: Match[]) => {
+  const ordered = matches
+    .filter(m => !m.match_status || m.match_status === 'completed')
+    .sort((a, b) => new Date(a.match_time).getTime() - new Date(b.match_time).getTime());
+
+  // Csapatonként a korábbi hazai/vendég meccsek, legfrissebb elöl
+  const homeHistory = new Map<string, Match[]>();
+  const awayHistory = new Map<string, Match[]>();
+  const X: number[][] = [];
+  const y: number[] = [];
+
+  ordered.forEach(m => {
+    const homeTeamHome = homeHistory.get(m.home_team) || [];
+    const homeTeamAway = awayHistory.get(m.home_team) || [];
+    const awayTeamHome = homeHistory.get(m.away_team) || [];
+    const awayTeamAway = awayHistory.get(m.away_team) || [];
+
+    if (
+      homeTeamHome.length + homeTeamAway.length >= MIN_TEAM_HISTORY &&
+      awayTeamHome.length + awayTeamAway.length >= MIN_TEAM_HISTORY
+    ) {
+      const home = buildTeamFeatures(m.home_team, homeTeamHome.slice(0, FORM_WINDOW), homeTeamAway.slice(0, FORM_WINDOW), m.match_time);
+      const away = buildTeamFeatures(m.away_team, awayTeamHome.slice(0, FORM_WINDOW), awayTeamAway.slice(0, FORM_WINDOW), m.match_time);
+      X.push(toFeatureVector(home, away));
+      y.push(outcomeClass(m));
+    }
+
+    homeHistory.set(m.home_team, [m, ...homeTeamHome].slice(0, FORM_WINDOW));
+    awayHistory.set(m.away_team, [m, ...awayTeamAway].slice(0, FORM_WINDOW));
+  });
+
+  return { X, y };
+};
+
+/**
+ * Modell tanítása és a validációs pontosság számítása
+ */
+export const trainOutcomeModel = (matches: Match[], options: Partial<GradientBoostingOptions> = {}) => {
+  const { X, y } = buildTrainingSet(matches);
+  const model = trainGradientBoosting(X, y, FEATURE_NAMES, OUTCOME_CLASSES.length, options);
+
+  const holdoutStart = model.training_samples;
+  const holdout = X.slice(holdoutStart);
+  const correct = holdout.filter((x, i) => {
+    const probabilities = predictProbabilities(model, x);
+    return probabilities.indexOf(Math.max(...probabilities)) === y[holdoutStart + i];
+  }).length;
+
+  return {
+    model,
+    accuracy: holdout.length > 0 ? correct / holdout.length : null
+  };
+};
+
+export const isOutcomeModelStale = (model: GradientBoostingModel, now = Date.now()) =>
+  now - new Date(model.trained_at).getTime() > OUTCOME_MODEL_MAX_AGE_MS;
+
+/**
+ * Legutóbbi aktív modell betöltése a team_models táblából
+ */
+export const loadOutcomeModel = async (): Promise<GradientBoostingModel | null> => {
+  const { data, error } = await supabase
+    .from('team_models')
+    .select('model_data')
+    .eq('model_type', XGBOOST_MODEL_TYPE)
+    .eq('team_name', GLOBAL_MODEL_TEAM)
+    .eq('is_active', true)
+    .order('last_trained', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  const modelData = data?.model_data as unknown as GradientBoostingModel | null;
+  return modelData?.format_version === 1 ? modelData : null;
+};
+
+/**
+ * Globális modell mentése aktív sorként. Az előző aktív sor inaktiválása és a
+ * beszúrás egy tranzakcióban fut, így párhuzamos mentés után is egy aktív sor marad.
+ */
+export const saveGlobalModel = async (row: {
+  model_type: string;
+  model_data: Json;
+  version?: string;
+  accuracy?: number | null;
+  training_matches: number;
+  last_trained: string;
+}) => {
+  const { error } = await supabase.rpc('activate_team_model', {
+    p_model_type: row.model_type,
+    p_team_name: GLOBAL_MODEL_TEAM,
+    p_model_data: row.model_data,
+    p_version: row.version,
+    p_accuracy: row.accuracy ?? undefined,
+    p_training_matches: row.training_matches,
+    p_last_trained: row.last_trained
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Modell mentése; a korábbi aktív modellek inaktívvá válnak
+ */
+export const saveOutcomeModel = (model: GradientBoostingModel, accuracy: number | null) =>
+  saveGlobalModel({
+    model_type: XGBOOST_MODEL_TYPE,
+    version: XGBOOST_MODEL_VERSION,
+    model_data: model as unknown as Json,
+    accuracy,
+    training_matches: model.training_samples,
+    last_trained: model.trained_at
+  });
+
+/**
+ * Újratanítás a legfrissebb lezárt mérkőzéseken és mentés aktív modellként
+ */
+export const retrainOutcomeModel = async (dataSource: MatchDataSource = new SupabaseMatchDataSource()) => {
+  const matches = await dataSource.getMatches({ limit: OUTCOME_TRAINING_LIMIT });
+  const result = trainOutcomeModel(matches);
+  await saveOutcomeModel(result.model, result.accuracy);
+  return result;
+};
@@ -5,6 +5,7 @@ export interface PredictionInput {
   away_team: string;
   halftime_home_goals?: number;
   halftime_away_goals?: number;
+  match_id?: number;
   match_context?: MatchContext;
 }
 
@@ -28,6 +29,10 @@ export interface PredictionOutput {
   scoreline_predictions?: {
     most_likely_score: string;
     score_probabilities: ScoreProbability[];
+    expected_goals?: {
+      home: number;
+      away: number;
+    };
   };
   model_explanations: ModelExplanation[];
   prediction_metadata: PredictionMetadata;
@@ -47,6 +52,7 @@ export interface ModelExplanation {
     draw: number;
     away_win: number;
   };
+  confidence?: number;
   key_features: FeatureImportance[];
 }
 
@@ -63,6 +69,22 @@ export interface PredictionMetadata {
   data_quality_score: number;
   prediction_confidence: 'LOW' | 'MEDIUM' | 'HIGH';
   warning_flags: string[];
+  data_quality?: PredictionQuality;
+  calibration_method?: CalibrationMethod | null;
+  raw_ensemble?: RawEnsemblePrediction;
+  prediction_id?: string;       // predictions tábla sor azonosítója
+  cache_key?: string;
+  served_from_cache?: boolean;
+}
+
+export type CalibrationMethod = 'isotonic' | 'temperature';
+
+// Ensemble kimenet kalibrálás előtt
+export interface RawEnsemblePrediction {
+  home_win: number;
+  draw: number;
+  away_win: number;
+  confidence: number;
 }
 
 // Feature Store típusok
@@ -130,6 +152,42 @@ export interface TransitionMatrix {
   ht_a_to_ft_a: number;  // HT away lead → FT away win
 }
 
+// Motor által összeállított feature csomag egy mérkőzéshez
+export interface PredictionFeatures {
+  home_team: TeamFeatures;
+  away_team: TeamFeatures;
+  head_to_head: HeadToHeadFeatures;
+  halftime_state: HalftimeState | null;
+  as_of: string | null; // Features use only matches strictly before this time; null = latest data
+}
+
+export interface HeadToHeadFeatures {
+  matches_played: number;
+  home_advantage: number;
+  avg_goals: number;
+  btts_rate: number;
+  transition_matrix: TransitionMatrix;
+  transition_model: TransitionModel;
+}
+
+export interface HalftimeState {
+  home_goals: number;
+  away_goals: number;
+  goal_difference: number;
+}
+
+// Félidei gólkülönbség állapotok: 0 = vendég +2, 1 = vendég +1, 2 = döntetlen, 3 = hazai +1, 4 = hazai +2
+export interface TransitionModel {
+  goal_difference_rows: number[][];   // [állapot][H, D, A]
+  halftime_distribution: number[];    // [állapot] valószínűség
+  sample_sizes: {
+    pair: number;
+    home_team: number;
+    away_team: number;
+    league: number;
+  };
+}
+
 // Feedback és tanulás típusok
 export interface PredictionFeedback {
   prediction_id: string;
@@ -174,10 +232,20 @@ export interface PerformanceMetrics {
   log_loss: number;
   brier_score: number;
   calibration_error: number;
+  ranked_probability_score?: number;
   last_evaluated: string;
   matches_evaluated: number;
 }
 
+// Reliability diagram egy sávja (előrejelzett valószínűség vs megfigyelt gyakoriság)
+export interface ReliabilityBin {
+  bin_start: number;
+  bin_end: number;
+  mean_predicted: number;
+  observed_frequency: number;
+  count: number;
+}
+
 // Ensemble és adaptív tanulás
 export interface EnsembleWeights {
   model_weights: Record<string, number>;
@@ -189,9 +257,24 @@ export interface EnsembleWeights {
   performance_window: number; // Last N matches for weight calculation
 }
 
+// predictions.features_used oszlop tartalma
+export interface StoredPredictionFeatures {
+  model_predictions: Record<string, {
+    home_win: number;
+    draw: number;
+    away_win: number;
+  }>;
+  raw_ensemble?: RawEnsemblePrediction;
+  halftime?: {
+    home_goals: number;
+    away_goals: number;
+  } | null;
+  output?: PredictionOutput;    // Teljes kimenet a cache-ből való kiszolgáláshoz
+}
+
 export interface PredictionQuality {
   data_completeness: number;    // 0-1 scale
-  feature_reliability: number;  // Based on recent accuracy
+  feature_reliability: number;  // Team sample size scaled by recency of the latest match
   sample_size_adequacy: number; // For head-to-head data
   model_consensus: number;      // Agreement between models
   overall_quality: 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR';
@@ -0,0 +1,59 @@
+-- Aktív modell cseréje egy tranzakcióban
+--
+-- A kliensek eddig külön kérésben inaktiválták a korábbi aktív sort és szúrták be
+-- az újat; párhuzamos mentéseknél így több vagy egyetlen aktív sor sem maradhatott.
+
+-- 1. Meglévő duplikált aktív sorok rendezése: modellenként csak a legfrissebb marad aktív
+UPDATE public.team_models AS tm
+SET is_active = false
+WHERE tm.is_active
+  AND EXISTS (
+    SELECT 1
+    FROM public.team_models AS newer
+    WHERE newer.model_type = tm.model_type
+      AND newer.team_name = tm.team_name
+      AND newer.is_active
+      AND (COALESCE(newer.last_trained, '-infinity'), newer.id) > (COALESCE(tm.last_trained, '-infinity'), tm.id)
+  );
+
+-- 2. Típusonként és csapatonként legfeljebb egy aktív sor
+CREATE UNIQUE INDEX IF NOT EXISTS team_models_one_active_idx
+ON public.team_models (model_type, team_name)
+WHERE is_active;
+
+-- 3. Inaktiválás és beszúrás atomikusan; az azonos modellre érkező hívások sorba állnak
+CREATE OR REPLACE FUNCTION public.activate_team_model(
+    p_model_type text,
+    p_team_name text,
+    p_model_data jsonb,
+    p_version text DEFAULT NULL,
+    p_accuracy numeric DEFAULT NULL,
+    p_training_matches integer DEFAULT NULL,
+    p_last_trained timestamptz DEFAULT now()
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+DECLARE
+    v_id uuid;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_model_type || '|' || p_team_name));
+
+    UPDATE public.team_models
+    SET is_active = false
+    WHERE model_type = p_model_type
+      AND team_name = p_team_name
+      AND is_active;
+
+    INSERT INTO public.team_models (
+        model_type, team_name, version, model_data, accuracy, training_matches, last_trained, is_active
+    )
+    VALUES (
+        p_model_type, p_team_name, p_version, p_model_data, p_accuracy, p_training_matches, p_last_trained, true
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$function$;
@@ -0,0 +1,22 @@
+-- Predikciók elszámolása
+--
+-- 1. A mérkőzéshez nem párosítható predikciók (pl. időpont nélküli készítő panel
+--    predikciók) lezárása, hogy ne foglalják az elszámolási sor elejét
+ALTER TABLE public.predictions
+ADD COLUMN IF NOT EXISTS unmatched_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS predictions_open_settlement_idx
+ON public.predictions (match_date)
+WHERE actual_result IS NULL AND unmatched_at IS NULL;
+
+-- 2. Predikciónként egy kiértékelés: a párhuzamos elszámolások upsertje nem duplikálhat
+DELETE FROM public.prediction_history AS ph
+WHERE EXISTS (
+    SELECT 1
+    FROM public.prediction_history AS newer
+    WHERE newer.prediction_id = ph.prediction_id
+      AND (COALESCE(newer.evaluated_at, '-infinity'), newer.id) > (COALESCE(ph.evaluated_at, '-infinity'), ph.id)
+);
+
+ALTER TABLE public.prediction_history
+ADD CONSTRAINT prediction_history_prediction_id_key UNIQUE (prediction_id);